@@ -1,4 +1,4 @@
-import { query, type HookEvent, type HookCallbackMatcher } from '@anthropic-ai/claude-agent-sdk';
+import { query, type HookEvent, type HookCallbackMatcher, type ModelUsage } from '@anthropic-ai/claude-agent-sdk';
 import { execFileSync } from 'node:child_process';
 import { existsSync, realpathSync, statSync } from 'node:fs';
 import { readFile, readdir } from 'node:fs/promises';
@@ -6,6 +6,8 @@ import { join } from 'node:path';
 import { parse as parseYaml } from 'yaml';
 import { readPipelineState, REVIEW_JSON_SCHEMA } from '../pipeline/state.js';
 import type { ActivityTracker } from '../pipeline/engine.js';
+import type { ModelUsageMap } from '../state/budget.js';
+import { createScopeHook, SCOPED_WRITE_TOOLS } from '../hooks/hooks.js';
 
 // Resolve the native claude binary path once at module load time.
 // Important: `npx tsx` prepends node_modules/.bin to PATH, which may contain
@@ -79,15 +81,25 @@ export interface RunResult {
   sessionId?: string;
   structuredOutput?: unknown;
   turnCount: number;
+  /** Token and cost usage per model, from the SDK result message. */
+  usage?: ModelUsageMap;
 }
 
 export interface RunOptions {
   hooks?: Partial<Record<HookEvent, HookCallbackMatcher[]>>;
   log?: (message: string) => void;
   mode?: 'standalone' | 'team';
+  /** Overrides the model from the agent's frontmatter. */
+  model?: string;
   maxTurns?: number;
+  /** JSON schema for the final answer, captured as structuredOutput. Reviewers default to the review schema. */
+  outputSchema?: Record<string, unknown>;
   /** Pipeline activity tracker — touched on every SDK message to signal liveness. */
   activityTracker?: ActivityTracker;
+  /** Aborting this stops the SDK session (pipeline cancel/pause, daemon shutdown). */
+  signal?: AbortSignal;
+  /** Path globs the session may write to — other Write/Edit calls are denied. */
+  scope?: string[];
 }
 
 // --- File Readers ---
@@ -236,9 +248,14 @@ async function buildSystemPrompt(
       .map(t => `- [ ] ${t.title}`)
       .join('\n');
 
-    const currentTask = pipelineState.currentTaskIndex >= 0
-      ? pipelineState.tasks[pipelineState.currentTaskIndex]?.title ?? 'unknown'
-      : 'none';
+    const inFlight = (pipelineState.inFlightTaskIndexes ?? [])
+      .map(i => pipelineState.tasks[i]?.title)
+      .filter((t): t is string => Boolean(t));
+    const currentTask = inFlight.length > 1
+      ? `${inFlight.join(', ')} (in parallel)`
+      : pipelineState.currentTaskIndex >= 0
+        ? pipelineState.tasks[pipelineState.currentTaskIndex]?.title ?? 'unknown'
+        : 'none';
 
     const stateSection = [
       `Phase: ${pipelineState.phase}`,
@@ -292,7 +309,7 @@ export async function runAgent(
   const systemPrompt = await buildSystemPrompt(agent, projectPath, mode);
 
   // 3. Prepare query options
-  const model = mapModel(agent.frontmatter.model);
+  const model = runOptions.model ?? mapModel(agent.frontmatter.model);
   const sandboxed = agent.frontmatter.sandboxed;
 
   log(`[runner] Spawning ${agent.frontmatter.name} (${model}, sandboxed: ${sandboxed}, mode: ${mode})`);
@@ -317,86 +334,127 @@ export async function runAgent(
     ? [...new Set([...agent.frontmatter.tools, ...AGENT_TEAMS_TOOLS])]
     : agent.frontmatter.tools;
 
+  // 7b. Block writes outside the task's scope on top of the caller's hooks
+  const hooks = runOptions.scope
+    ? {
+      ...runOptions.hooks,
+      PreToolUse: [
+        ...(runOptions.hooks?.PreToolUse ?? []),
+        { matcher: SCOPED_WRITE_TOOLS, hooks: [createScopeHook(runOptions.scope, log)] },
+      ],
+    }
+    : runOptions.hooks;
+
   // 8. Run agent via SDK
   const claudePath = findClaudeExecutable();
   log(`[runner] Using claude at: ${claudePath}`);
 
   const isReviewer = role === 'reviewer' || role.includes('review');
+  const outputSchema = runOptions.outputSchema ?? (isReviewer ? REVIEW_JSON_SCHEMA as Record<string, unknown> : undefined);
   let sessionId: string | undefined;
   let structuredOutput: unknown | undefined;
   let turnCount = 0;
+  let usage: ModelUsageMap | undefined;
 
   const tracker = runOptions.activityTracker;
 
-  for await (const message of query({
-    prompt: task,
-    options: {
-      systemPrompt,
-      model,
-      maxTurns,
-      pathToClaudeCodeExecutable: claudePath,
-      allowedTools,
-      cwd: projectPath,
-      permissionMode: 'bypassPermissions',
-      allowDangerouslySkipPermissions: true,
-      env,
-      hooks: runOptions.hooks,
-      ...(sandboxed && {
-        sandbox: {
-          enabled: true,
-          autoAllowBashIfSandboxed: true,
-        },
-      }),
-      ...(isReviewer && {
-        outputFormat: {
-          type: 'json_schema' as const,
-          schema: REVIEW_JSON_SCHEMA as Record<string, unknown>,
-        },
-      }),
-      stderr: (data: string) => process.stderr.write(`[stderr] ${data}`),
-    },
-  })) {
-    const msg = message as Record<string, unknown>;
+  if (runOptions.signal?.aborted) {
+    throw new Error(`Agent ${role} aborted before start`);
+  }
 
-    // Touch the activity tracker on every SDK message to signal liveness.
-    // This prevents the pipeline's idle timeout from firing while the agent
-    // is actively working (including waiting for team sub-agents).
-    tracker?.touch();
+  // The SDK takes an AbortController — bridge the caller's signal to it
+  const abortController = new AbortController();
+  const onAbort = () => abortController.abort();
+  runOptions.signal?.addEventListener('abort', onAbort, { once: true });
 
-    // Capture session_id from the first message that has one
-    if (!sessionId && typeof msg['session_id'] === 'string') {
-      sessionId = msg['session_id'];
-    }
+  try {
+    for await (const message of query({
+      prompt: task,
+      options: {
+        systemPrompt,
+        model,
+        maxTurns,
+        pathToClaudeCodeExecutable: claudePath,
+        allowedTools,
+        cwd: projectPath,
+        permissionMode: 'bypassPermissions',
+        allowDangerouslySkipPermissions: true,
+        env,
+        hooks,
+        abortController,
+        ...(sandboxed && {
+          sandbox: {
+            enabled: true,
+            autoAllowBashIfSandboxed: true,
+          },
+        }),
+        ...(outputSchema && {
+          outputFormat: {
+            type: 'json_schema' as const,
+            schema: outputSchema,
+          },
+        }),
+        stderr: (data: string) => process.stderr.write(`[stderr] ${data}`),
+      },
+    })) {
+      const msg = message as Record<string, unknown>;
+
+      // Touch the activity tracker on every SDK message to signal liveness.
+      // This prevents the pipeline's idle timeout from firing while the agent
+      // is actively working (including waiting for team sub-agents).
+      tracker?.touch();
+
+      // Capture session_id from the first message that has one
+      if (!sessionId && typeof msg['session_id'] === 'string') {
+        sessionId = msg['session_id'];
+      }
 
-    // Capture structured_output from result message
-    if (msg['type'] === 'result' && msg['subtype'] === 'success') {
-      const resultMsg = msg as Record<string, unknown>;
-      if (resultMsg['structured_output'] !== undefined) {
-        structuredOutput = resultMsg['structured_output'];
+      // Capture structured_output from result message
+      if (msg['type'] === 'result' && msg['subtype'] === 'success') {
+        const resultMsg = msg as Record<string, unknown>;
+        if (resultMsg['structured_output'] !== undefined) {
+          structuredOutput = resultMsg['structured_output'];
+        }
       }
-    }
 
-    if (msg['type'] === 'assistant') {
-      turnCount++;
-    }
+      // Capture per-model usage — reported on both success and error results
+      if (msg['type'] === 'result' && msg['modelUsage'] && typeof msg['modelUsage'] === 'object') {
+        usage = {};
+        for (const [model, u] of Object.entries(msg['modelUsage'] as Record<string, ModelUsage>)) {
+          usage[model] = {
+            inputTokens: u.inputTokens,
+            outputTokens: u.outputTokens,
+            cacheReadTokens: u.cacheReadInputTokens,
+            cacheCreationTokens: u.cacheCreationInputTokens,
+            costUsd: u.costUSD,
+          };
+        }
+      }
+
+      if (msg['type'] === 'assistant') {
+        turnCount++;
+      }
 
-    if (msg['type'] === 'assistant' && msg['message']) {
-      const assistantMsg = msg['message'] as Record<string, unknown>;
-      const content = assistantMsg['content'];
-      if (Array.isArray(content)) {
-        for (const block of content) {
-          if (block && typeof block === 'object' && 'type' in block) {
-            if (block.type === 'text' && 'text' in block) {
-              log(`[${agent.frontmatter.name}] ${block.text}`);
-            } else if (block.type === 'tool_use' && 'name' in block) {
-              log(`[${agent.frontmatter.name}] tool: ${block.name}`);
+      if (msg['type'] === 'assistant' && msg['message']) {
+        const assistantMsg = msg['message'] as Record<string, unknown>;
+        const content = assistantMsg['content'];
+        if (Array.isArray(content)) {
+          for (const block of content) {
+            if (block && typeof block === 'object' && 'type' in block) {
+              if (block.type === 'text' && 'text' in block) {
+                log(`[${agent.frontmatter.name}] ${block.text}`);
+              } else if (block.type === 'tool_use' && 'name' in block) {
+                log(`[${agent.frontmatter.name}] tool: ${block.name}`);
+              }
             }
           }
         }
+      } else if ('result' in msg && typeof msg.result === 'string') {
+        log(`[${agent.frontmatter.name}] Result: ${msg.result}`);
       }
-    } else if ('result' in msg && typeof msg.result === 'string') {
-      log(`[${agent.frontmatter.name}] Result: ${msg.result}`);
     }
+  } finally {
+    runOptions.signal?.removeEventListener('abort', onAbort);
   }
 
   return {
@@ -406,5 +464,72 @@ export async function runAgent(
     sessionId,
     structuredOutput,
     turnCount,
+    usage,
   };
 }
+
+export interface StructuredQueryOptions {
+  model: string;
+  systemPrompt?: string;
+  /** The query is aborted after this long. Default: 60s. */
+  timeoutMs?: number;
+}
+
+const STRUCTURED_QUERY_TIMEOUT_MS = 60_000;
+
+/**
+ * One-shot, tool-less model call for small decisions (e.g. routing). Returns
+ * the structured output matching `schema`; throws if the model produced none.
+ */
+export async function queryStructured(
+  prompt: string,
+  schema: Record<string, unknown>,
+  options: StructuredQueryOptions,
+): Promise<unknown> {
+  let structuredOutput: unknown | undefined;
+  let failure: string | undefined;
+
+  // A hung query must not hold up its caller — routing falls back to keywords when this throws
+  const timeoutMs = options.timeoutMs ?? STRUCTURED_QUERY_TIMEOUT_MS;
+  const abortController = new AbortController();
+  const timer = setTimeout(() => abortController.abort(), timeoutMs);
+
+  try {
+    for await (const message of query({
+      prompt,
+      options: {
+        systemPrompt: options.systemPrompt,
+        model: options.model,
+        maxTurns: 2,
+        tools: [],
+        persistSession: false,
+        pathToClaudeCodeExecutable: findClaudeExecutable(),
+        outputFormat: { type: 'json_schema', schema },
+        abortController,
+      },
+    })) {
+      const msg = message as Record<string, unknown>;
+      if (msg['type'] !== 'result') continue;
+      if (msg['subtype'] === 'success' && msg['structured_output'] !== undefined) {
+        structuredOutput = msg['structured_output'];
+      } else {
+        failure = String(msg['subtype']);
+      }
+    }
+  } catch (err) {
+    if (abortController.signal.aborted) {
+      throw new Error(`Structured query timed out after ${Math.round(timeoutMs / 1000)}s`);
+    }
+    throw err;
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (structuredOutput === undefined) {
+    if (abortController.signal.aborted) {
+      throw new Error(`Structured query timed out after ${Math.round(timeoutMs / 1000)}s`);
+    }
+    throw new Error(`Structured query returned no output${failure ? ` (${failure})` : ''}`);
+  }
+  return structuredOutput;
+}
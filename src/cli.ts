@@ -11,6 +11,19 @@ import { sendCommand } from './ipc/client.js';
 import { SOCKET_PATH_DEFAULT, PID_FILE_DEFAULT, LOG_FILE_DEFAULT } from './ipc/protocol.js';
 import type { IpcResponse } from './ipc/protocol.js';
 import type { ProjectEntry } from './state/projects.js';
+import {
+  formatBudget,
+  formatUsage,
+  type PipelineEstimate,
+  type BudgetForecast,
+  type BudgetHistory,
+  type ProjectBudget,
+  type RemainingBudget,
+  type UsageSummary,
+} from './state/budget.js';
+import type { PipelineSlot } from './heartbeat/loop.js';
+import type { QueueItem } from './heartbeat/queue.js';
+import type { RouteDecision } from './pipeline/router.js';
 
 const CODENAME_HOME = join(process.env['HOME'] ?? '~', '.codename-claude');
 const BRAIN_TEMPLATE = join(CODENAME_HOME, 'templates', 'brain');
@@ -73,6 +86,10 @@ function formatTimestamp(ts: number | null): string {
   return new Date(ts).toLocaleString();
 }
 
+function formatClock(ts: number): string {
+  return new Date(ts).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
 // --- Commands ---
 
 async function cmdStart(): Promise<void> {
@@ -159,10 +176,11 @@ async function cmdStatus(): Promise<void> {
     heartbeatRunning: boolean;
     projects: number;
     triggers: number;
-    budgetRemaining: number;
-    budgetMax: number;
+    budget: RemainingBudget;
     queueSize: number;
     activeSessions: number;
+    maxConcurrentPipelines: number;
+    slots: PipelineSlot[];
   };
 
   console.log('=== Codename Claude Status ===');
@@ -172,13 +190,152 @@ async function cmdStatus(): Promise<void> {
   console.log(`  Heartbeat: ${d.heartbeatRunning ? 'active' : 'stopped'} (${d.tickCount} ticks)`);
   console.log(`  Projects:  ${d.projects} registered`);
   console.log(`  Triggers:  ${d.triggers} registered`);
-  console.log(`  Budget:    ${d.budgetRemaining}/${d.budgetMax} prompts remaining`);
+  console.log(`  Budget:    ${formatBudget(d.budget)}`);
+  for (const [model, usage] of Object.entries(d.budget.byModel)) {
+    const tokens = usage.inputTokens + usage.outputTokens;
+    console.log(`    ${model}: ${tokens} tokens in/out, ${usage.cacheReadTokens} cache reads, $${usage.costUsd.toFixed(2)}`);
+  }
   console.log(`  Queue:     ${d.queueSize} items pending`);
   console.log(`  Sessions:  ${d.activeSessions} active`);
+  console.log(`  Pipelines: ${d.slots.length}/${d.maxConcurrentPipelines} slots in use`);
+  for (const slot of d.slots) {
+    const elapsed = formatUptime((Date.now() - slot.startedAt) / 1000);
+    console.log(`    ${slot.project.split('/').pop()} — ${slot.agent} via ${slot.triggerName} (${elapsed})`);
+    console.log(`      ${slot.task.slice(0, 60)}`);
+  }
   console.log('==============================');
 }
 
+async function cmdBudget(): Promise<void> {
+  const response = await send({ type: 'budget' });
+  if (!response.ok) die(response.error);
+
+  const d = response.data as {
+    windowHours: number;
+    budget: RemainingBudget;
+    byProject: Record<string, UsageSummary>;
+    byAgent: Record<string, UsageSummary>;
+    quotas: Record<string, ProjectBudget>;
+    history: BudgetHistory;
+    forecast: BudgetForecast;
+  };
+
+  console.log(`=== Budget (last ${d.windowHours}h) ===`);
+  console.log(`  Remaining: ${formatBudget(d.budget)}`);
+
+  console.log('\n  By project:');
+  const projects = new Set([...Object.keys(d.byProject), ...Object.keys(d.quotas)]);
+  if (projects.size === 0) console.log('    (no usage)');
+  for (const project of projects) {
+    const usage = d.byProject[project] ?? { prompts: 0, tokens: 0, costUsd: 0 };
+    const quota = d.quotas[project];
+    const limits = [
+      quota?.maxShare !== undefined ? `cap ${Math.round(quota.maxShare * 100)}%` : null,
+      quota?.reservedShare !== undefined ? `reserved ${Math.round(quota.reservedShare * 100)}%` : null,
+    ].filter(Boolean);
+    console.log(`    ${project.split('/').pop()}: ${formatUsage(usage)}${limits.length ? ` (${limits.join(', ')})` : ''}`);
+  }
+
+  console.log('\n  By agent:');
+  if (Object.keys(d.byAgent).length === 0) console.log('    (no usage)');
+  for (const [agent, usage] of Object.entries(d.byAgent)) {
+    console.log(`    ${agent}: ${formatUsage(usage)}`);
+  }
+
+  console.log(`\n  Timeline (per ${Math.round(d.history.bucketMs / 60_000)}m):`);
+  const peak = Math.max(1, ...d.history.buckets.map(b => b.prompts));
+  for (const bucket of d.history.buckets) {
+    const bar = '#'.repeat(Math.round((bucket.prompts / peak) * 20)).padEnd(20);
+    console.log(`    ${formatClock(bucket.start)}  ${bar}  ${formatUsage(bucket)}`);
+  }
+
+  console.log('\n  Capacity frees up:');
+  if (d.history.releases.length === 0) console.log('    (nothing in the window)');
+  for (const release of d.history.releases) {
+    console.log(`    from ${formatClock(release.at)}  ${formatUsage(release)}`);
+  }
+
+  const f = d.forecast;
+  console.log('\n  Forecast:');
+  if (f.queued === 0) {
+    console.log('    Queue is empty.');
+  } else if (!f.needed) {
+    console.log(`    ${f.queued} queued item(s); no runs in the window to estimate from.`);
+  } else if (f.fits) {
+    console.log(`    ${f.queued} queued item(s) need ~${formatUsage(f.needed)} — fits in the remaining window.`);
+  } else {
+    console.log(`    ${f.queued} queued item(s) need ~${formatUsage(f.needed)} — only ${f.fitCount} fit before the interactive reserve.`);
+  }
+}
+
+/** Removes `--name value` from args and returns the value. */
+function takeOption(args: string[], name: string): string | undefined {
+  const idx = args.indexOf(name);
+  if (idx === -1) return undefined;
+  const value = args[idx + 1];
+  if (!value || value.startsWith('--')) {
+    die(`${name} needs a value`);
+  }
+  args.splice(idx, 2);
+  return value;
+}
+
+async function cmdRoute(args: string[]): Promise<void> {
+  args = [...args];
+  const template = takeOption(args, '--template');
+  const labels: string[] = [];
+  for (let label = takeOption(args, '--label'); label; label = takeOption(args, '--label')) {
+    labels.push(label);
+  }
+  const project = args[0];
+  const task = args[1];
+  if (!project || !task) {
+    die('Usage: codename route <project> "task" [--template <name>] [--label <label>...]');
+  }
+
+  const response = await send({ type: 'route', project, task, template, labels });
+  if (!response.ok) die(response.error);
+
+  const d = response.data as {
+    project: string;
+    decision: RouteDecision;
+    estimate: PipelineEstimate;
+    budget: RemainingBudget;
+  };
+  const { decision, estimate } = d;
+
+  console.log('=== Route (dry run) ===');
+  console.log(`  Project:  ${d.project}`);
+  console.log(`  Stages:   ${decision.stages.map(s => s.agent + (s.teams ? ' (teams)' : '')).join(' → ')}`);
+  for (const stage of decision.stages.filter(s => s.model || s.maxTurns)) {
+    console.log(`    ${stage.agent}: ${[stage.model && `model ${stage.model}`, stage.maxTurns && `max ${stage.maxTurns} turns`].filter(Boolean).join(', ')}`);
+  }
+
+  const why: Record<RouteDecision['source'], string> = {
+    'manual': 'manual agent',
+    'forced-template': `template "${decision.template}" (--template)`,
+    'template': `template "${decision.template}"`,
+    'model': 'model decision',
+    'builtin': `built-in template "${decision.template}"`,
+  };
+  console.log(`  Decided:  ${why[decision.source]}`);
+  if (decision.matchedRules) {
+    console.log(`  Matched:  ${decision.matchedRules.length ? decision.matchedRules.join('; ') : '(catch-all)'}`);
+  }
+  if (decision.reasoning) console.log(`  Reason:   ${decision.reasoning}`);
+  if (decision.fallbackReason) console.log(`  Fallback: ${decision.fallbackReason}`);
+
+  console.log('\n  Estimated cost (average run per agent, current window):');
+  for (const [agent, usage] of Object.entries(estimate.byAgent)) {
+    console.log(`    ${agent}: ${usage ? formatUsage(usage) : 'no history'}`);
+  }
+  console.log(`    total: ~${formatUsage(estimate.total)}`);
+  console.log(`  Budget:   ${formatBudget(d.budget)}`);
+}
+
 async function cmdRun(args: string[]): Promise<void> {
+  args = [...args];
+  const template = takeOption(args, '--template');
   const subCmd = args[0];
   if (!subCmd) {
     die('Usage: codename run <agent|pipeline> <project> ["task"]');
@@ -189,7 +346,7 @@ async function cmdRun(args: string[]): Promise<void> {
     const project = args[1];
     const task = args[2];
     if (!project || !task) {
-      die('Usage: codename run pipeline <project> "task description"');
+      die('Usage: codename run pipeline <project> "task description" [--template <name>]');
     }
     const response = await send({
       type: 'run',
@@ -197,9 +354,10 @@ async function cmdRun(args: string[]): Promise<void> {
       project,
       task,
       mode: 'standalone',
+      template,
     });
     if (response.ok) {
-      console.log(`Queued pipeline for ${project}. The heartbeat will pick it up.`);
+      console.log(`Queued ${template ? `${template} pipeline` : 'pipeline'} for ${project}. The heartbeat will pick it up.`);
     } else {
       die(response.error);
     }
@@ -211,7 +369,7 @@ async function cmdRun(args: string[]): Promise<void> {
     const project = args[1];
     const task = args[2];
     if (!project || !task) {
-      die('Usage: codename run team <project> "task description"');
+      die('Usage: codename run team <project> "task description" [--template <name>]');
     }
     const response = await send({
       type: 'run',
@@ -219,6 +377,7 @@ async function cmdRun(args: string[]): Promise<void> {
       project,
       task,
       mode: 'team',
+      template,
     });
     if (response.ok) {
       console.log(`Queued team pipeline for ${project}. The heartbeat will pick it up.`);
@@ -229,6 +388,9 @@ async function cmdRun(args: string[]): Promise<void> {
   }
 
   // Single agent run — bypasses router
+  if (template) {
+    die('--template only applies to "run pipeline" and "run team"');
+  }
   const agent = subCmd;
   const project = args[1];
   const task = args[2] ?? `Run ${agent} agent session`;
@@ -251,6 +413,59 @@ async function cmdRun(args: string[]): Promise<void> {
   }
 }
 
+async function cmdPipelineStop(action: 'cancel' | 'pause', args: string[]): Promise<void> {
+  const project = args[0];
+  if (!project) {
+    die(`Usage: codename pipeline ${action} <project>`);
+  }
+
+  const response = await send({ type: action === 'cancel' ? 'pipeline-cancel' : 'pipeline-pause', project });
+  if (response.ok) {
+    console.log(action === 'cancel'
+      ? `Cancelling pipeline for ${project}.`
+      : `Pausing pipeline for ${project}. Run "codename pipeline resume ${project}" to continue.`);
+  } else {
+    die(response.error);
+  }
+}
+
+async function cmdPipelineResume(args: string[]): Promise<void> {
+  const project = args[0];
+  if (!project) {
+    die('Usage: codename pipeline resume <project>');
+  }
+
+  const response = await send({ type: 'pipeline-resume', project });
+  if (response.ok) {
+    const data = response.data as { task: string; status: string };
+    console.log(`Queued resume of ${data.status} pipeline for ${project}: "${data.task.slice(0, 60)}"`);
+    console.log('The heartbeat will pick it up.');
+  } else {
+    die(response.error);
+  }
+}
+
+async function cmdApproval(decision: 'approve' | 'reject', args: string[]): Promise<void> {
+  const project = args[0];
+  const reason = args.slice(1).join(' ');
+  if (!project || (decision === 'reject' && !reason)) {
+    die(decision === 'approve' ? 'Usage: codename approve <project>' : 'Usage: codename reject <project> "reason"');
+  }
+
+  const response = await send(decision === 'approve'
+    ? { type: 'pipeline-approve', project }
+    : { type: 'pipeline-reject', project, reason });
+  if (response.ok) {
+    const data = response.data as { task: string; gate: string };
+    console.log(decision === 'approve'
+      ? `Approved the ${data.gate} gate for "${data.task.slice(0, 60)}".`
+      : `Rejected the ${data.gate} gate for "${data.task.slice(0, 60)}" — the reason goes to the agent that redoes the work.`);
+    console.log('The heartbeat will resume the pipeline.');
+  } else {
+    die(response.error);
+  }
+}
+
 async function cmdProjectsList(): Promise<void> {
   const response = await send({ type: 'projects-list' });
   if (!response.ok) die(response.error);
@@ -267,6 +482,9 @@ async function cmdProjectsList(): Promise<void> {
     console.log(`    Path:         ${p.path}`);
     console.log(`    Registered:   ${formatTimestamp(p.registered)}`);
     console.log(`    Last session: ${formatTimestamp(p.lastSession)}`);
+    if (p.publish) {
+      console.log(`    Publishes to: ${p.publish.repo}${p.publish.base ? ` (${p.publish.base})` : ''}${p.publish.draft ? ', draft' : ''}`);
+    }
     console.log('');
   }
 }
@@ -308,6 +526,39 @@ async function cmdProjectsRemove(args: string[]): Promise<void> {
   }
 }
 
+async function cmdProjectsPublish(args: string[]): Promise<void> {
+  args = [...args];
+  const base = takeOption(args, '--base');
+  const remote = takeOption(args, '--remote');
+  const apiUrl = takeOption(args, '--api-url');
+  const draft = args.includes('--draft');
+  args = args.filter((a) => a !== '--draft');
+  const pathOrName = args[0];
+  const repo = args[1];
+  if (!pathOrName || !repo || (repo !== 'off' && !/^[\w.-]+\/[\w.-]+$/.test(repo))) {
+    die('Usage: codename projects publish <path|name> <owner/repo> [--base <branch>] [--remote <name>] [--draft] [--api-url <url>]\n       codename projects publish <path|name> off');
+  }
+
+  const publish = repo === 'off' ? null : {
+    host: 'github' as const,
+    repo,
+    ...(base && { base }),
+    ...(remote && { remote }),
+    ...(draft && { draft }),
+    ...(apiUrl && { apiUrl }),
+  };
+  const response = await send({ type: 'projects-publish', pathOrName, publish });
+  if (!response.ok) die(response.error);
+
+  const data = response.data as { project: ProjectEntry };
+  console.log(publish
+    ? `${data.project.name} opens a pull request on ${publish.repo} when a pipeline completes.`
+    : `${data.project.name} no longer publishes pipelines.`);
+  if (publish && !process.env['GITHUB_TOKEN'] && !process.env['GH_TOKEN']) {
+    console.log('Set GITHUB_TOKEN (or GH_TOKEN) in the daemon\'s environment so it can open pull requests.');
+  }
+}
+
 async function cmdLogs(): Promise<void> {
   const logFile = LOG_FILE_DEFAULT;
   if (!existsSync(logFile)) {
@@ -339,19 +590,81 @@ async function cmdLogs(): Promise<void> {
   await new Promise(() => {});
 }
 
-async function cmdQueue(): Promise<void> {
+async function cmdQueue(args: string[]): Promise<void> {
+  const sub = args[0] ?? 'list';
+
+  if (sub === 'remove' || sub === 'bump') {
+    const id = args[1];
+    if (!id) {
+      die(`Usage: codename queue ${sub} <id>`);
+    }
+    const response = await send({ type: sub === 'remove' ? 'queue-remove' : 'queue-bump', id });
+    if (!response.ok) die(response.error);
+    console.log(sub === 'remove' ? `Removed ${id} from the queue.` : `Moved ${id} to the front of the queue.`);
+    return;
+  }
+
+  if (sub === 'failed') {
+    const response = await send({ type: 'queue-failed' });
+    if (!response.ok) die(response.error);
+    const data = response.data as { size: number; items: QueueItem[] };
+    if (data.size === 0) {
+      console.log('No failed items.');
+      return;
+    }
+    console.log(`Failed items (${data.size}):\n`);
+    for (const item of data.items) {
+      console.log(`  ${item.id}  ${item.triggerName}`);
+      console.log(`    Agent:    ${item.agent}`);
+      console.log(`    Project:  ${item.project}`);
+      console.log(`    Attempts: ${item.attempts}`);
+      console.log(`    Failed:   ${formatTimestamp(item.failedAt ?? null)}`);
+      console.log(`    Error:    ${item.lastError?.slice(0, 100)}`);
+      console.log('');
+    }
+    console.log('Run "codename queue retry <id>" to queue an item again.');
+    return;
+  }
+
+  if (sub === 'retry') {
+    const id = args[1];
+    if (!id) {
+      die('Usage: codename queue retry <id>');
+    }
+    const response = await send({ type: 'queue-retry', id });
+    if (!response.ok) die(response.error);
+    console.log(`Re-queued ${id}.`);
+    return;
+  }
+
+  if (sub === 'clear') {
+    const response = await send({ type: 'queue-clear' });
+    if (!response.ok) die(response.error);
+    const data = response.data as { removed: number };
+    console.log(`Cleared ${data.removed} item(s) from the queue.`);
+    return;
+  }
+
+  if (sub !== 'list') {
+    die(`Unknown queue subcommand: ${sub}`);
+  }
+
   const response = await send({ type: 'queue-list' });
   if (!response.ok) die(response.error);
 
-  const data = response.data as { size: number; items: Array<{ triggerName: string; agent: string; project: string; enqueuedAt: number }> };
+  const data = response.data as { size: number; items: QueueItem[] };
   if (data.size === 0) {
     console.log('Work queue is empty.');
     return;
   }
 
-  console.log(`Work queue (${data.size} items):\n`);
+  console.log(`Work queue (${data.size} items, next first):\n`);
   for (const item of data.items) {
-    console.log(`  ${item.triggerName}`);
+    console.log(`  ${item.id}  ${item.triggerName}`);
+    console.log(`    Priority: ${item.priority}`);
+    if (item.attempts) {
+      console.log(`    Retry:    attempt ${item.attempts + 1} after ${formatTimestamp(item.notBefore ?? null)} (${item.lastError?.slice(0, 60)})`);
+    }
     console.log(`    Agent:    ${item.agent}`);
     console.log(`    Project:  ${item.project}`);
     console.log(`    Enqueued: ${formatTimestamp(item.enqueuedAt)}`);
@@ -485,14 +798,30 @@ Commands:
   start                        Start the daemon
   stop                         Stop the daemon
   status                       Show daemon status
+  budget                       Show budget usage, timeline and queue forecast
   run <agent> <project> [task] Run a single agent on a project
   run pipeline <project> "task" Run a full pipeline (LLM router picks agents)
+    [--template <name>]          ...or force a pipeline template
+  route <project> "task"       Show which stages a pipeline would run, and why
   run team <project> "task"    Run a pipeline with teams enabled
+  pipeline pause <project>     Pause the running pipeline
+  pipeline resume <project>    Resume a paused or interrupted pipeline where it left off
+  pipeline cancel <project>    Cancel the running (or paused) pipeline
+  approve <project>            Let a pipeline waiting at an approval gate continue
+  reject <project> "reason"    Send the work at an approval gate back with a reason
   projects list                List registered projects
   projects add <path> [name]   Register a new project
   projects remove <path|name>  Unregister a project
+  projects publish <project> <owner/repo>  Open a PR when a pipeline completes
+    [--base <branch>] [--remote <name>] [--draft] [--api-url <url>]
+  projects publish <project> off           Stop opening PRs
   logs                         Tail daemon logs
-  queue                        Show work queue
+  queue [list]                 Show work queue in run order
+  queue remove <id>            Remove an item from the queue
+  queue bump <id>              Move an item to the front of the queue
+  queue clear                  Remove every queued item
+  queue failed                 List items that exhausted their retries
+  queue retry <id>             Queue a failed item again
   sessions [active]            List recent (or active) sessions
   resume <session-id>          Resume a previous agent session
   interactive <project>        Start interactive session
@@ -510,9 +839,30 @@ Commands:
     case 'status':
       await cmdStatus();
       break;
+    case 'budget':
+      await cmdBudget();
+      break;
     case 'run':
       await cmdRun(args.slice(1));
       break;
+    case 'route':
+      await cmdRoute(args.slice(1));
+      break;
+    case 'pipeline': {
+      const sub = args[1];
+      if (sub === 'resume') {
+        await cmdPipelineResume(args.slice(2));
+      } else if (sub === 'cancel' || sub === 'pause') {
+        await cmdPipelineStop(sub, args.slice(2));
+      } else {
+        die(`Unknown pipeline subcommand: ${sub ?? '(none)'}`);
+      }
+      break;
+    }
+    case 'approve':
+    case 'reject':
+      await cmdApproval(command, args.slice(1));
+      break;
     case 'projects': {
       const sub = args[1];
       if (sub === 'list' || !sub) {
@@ -521,6 +871,8 @@ Commands:
         await cmdProjectsAdd(args.slice(2));
       } else if (sub === 'remove') {
         await cmdProjectsRemove(args.slice(2));
+      } else if (sub === 'publish') {
+        await cmdProjectsPublish(args.slice(2));
       } else {
         die(`Unknown projects subcommand: ${sub}`);
       }
@@ -530,7 +882,7 @@ Commands:
       await cmdLogs();
       break;
     case 'queue':
-      await cmdQueue();
+      await cmdQueue(args.slice(1));
       break;
     case 'sessions':
       await cmdSessions(args.slice(1));
@@ -4,18 +4,45 @@ import { join } from 'node:path';
 import { CronTrigger, type TriggerConfig } from './triggers/cron.js';
 import { WebhookServer, type WebhookConfig } from './triggers/webhook.js';
 import { FileWatcher } from './triggers/watcher.js';
-import { WorkQueue } from './heartbeat/queue.js';
+import { QUEUE_PRIORITY, WorkQueue, type RetryPolicy } from './heartbeat/queue.js';
 import { HeartbeatLoop } from './heartbeat/loop.js';
-import { recordUsage, canRunAgent, getRemainingBudget, type BudgetConfig } from './state/budget.js';
+import {
+  recordUsage,
+  canRunAgent,
+  getRemainingBudget,
+  getUsageBreakdown,
+  getBudgetHistory,
+  forecastQueue,
+  estimatePipeline,
+  budgetDimensions,
+  formatBudget,
+  type BudgetConfig,
+  type ProjectBudget,
+  type RemainingBudget,
+} from './state/budget.js';
 import {
   listProjects,
   registerProject,
+  setProjectPublish,
   unregisterProject,
   updateLastSession,
 } from './state/projects.js';
-import { runAgent } from './agents/runner.js';
+import { runAgent, queryStructured } from './agents/runner.js';
 import { PipelineEngine } from './pipeline/engine.js';
-import { routeTask, loadAgentSummaries } from './pipeline/router.js';
+import {
+  APPROVAL_GATES,
+  ATTEMPT_ROLLBACKS,
+  readPipelineState,
+  writePipelineState,
+  type ApprovalGate,
+  type AttemptRollback,
+  type PipelineStopReason,
+} from './pipeline/state.js';
+import { explainRoute, loadAgentSummaries, type RouteDecision, type RouterMode } from './pipeline/router.js';
+import { loadPipelineTemplates, DEFAULT_TEMPLATES, type RouteHints } from './pipeline/templates.js';
+import { parseStageDescriptors } from './pipeline/stages.js';
+import type { ReviewPolicy } from './pipeline/policy.js';
+import { publishPipeline } from './pipeline/publish.js';
 import {
   createPostToolUseHook,
   createSessionEndHook,
@@ -40,6 +67,7 @@ const PROJECTS_FILE = join(STATE_DIR, 'projects.json');
 const QUEUE_FILE = join(STATE_DIR, 'queue.json');
 const SESSIONS_FILE = join(STATE_DIR, 'sessions.json');
 const AGENTS_DIR = join(CODENAME_HOME, 'agents');
+const PIPELINES_DIR = join(CODENAME_HOME, 'pipelines');
 
 // --- Config ---
 
@@ -48,10 +76,46 @@ export interface DaemonConfig {
   triggers: TriggerConfig[];
   budget: {
     maxPromptsPerWindow: number;
+    /** Optional limit on input + output + cache-write tokens per window. */
+    maxTokensPerWindow?: number;
+    /** Optional limit on spend per window, in US dollars. */
+    maxCostPerWindow?: number;
     reserveForInteractive: number;
     windowHours: number;
+    /** Per-project caps and reservations, keyed by project name or path. */
+    projects?: Record<string, ProjectBudget>;
   };
   heartbeatIntervalMs?: number;
+  pipeline?: {
+    /** Max PLAN.md tasks built concurrently in separate git worktrees. Default: 1. */
+    maxParallelTasks?: number;
+    /** Max pipelines running at once across projects, one per project. Default: 1. */
+    maxConcurrentPipelines?: number;
+    /** Run each pipeline on its own git branch and commit every approved task. Default: true. */
+    gitBranches?: boolean;
+    /** Deny Write/Edit calls outside a PLAN.md task's `(scope: ...)` globs as they happen. Default: false. */
+    blockOutOfScopeWrites?: boolean;
+    router?: {
+      /** Default: heuristic (keyword matching, no API call). */
+      mode?: RouterMode;
+      /** Model for llm routing. Default: claude-haiku-4-5. */
+      model?: string;
+      /** Give up on the model and route by keywords after this long. Default: 60000. */
+      timeoutMs?: number;
+    };
+    /** Pipeline templates, matched in order before ~/.codename-claude/pipelines/*.yaml. */
+    templates?: unknown[];
+    /** Stage descriptors for custom agents, keyed by agent name — see StageDescriptor. */
+    stages?: Record<string, unknown>;
+    /** Review policy for every project, with per-project overrides keyed by project name or path. */
+    reviewPolicy?: ReviewPolicy & { projects?: Record<string, ReviewPolicy> };
+    /** Gates where pipelines wait for `codename approve`/`reject`. Project lists replace the default one. */
+    approvals?: { gates?: ApprovalGate[]; projects?: Record<string, ApprovalGate[]> };
+    /** Roll back rejected attempts before retrying them, with per-project overrides. Default: off. */
+    rollback?: { mode?: AttemptRollback | 'off'; projects?: Record<string, AttemptRollback | 'off'> };
+  };
+  /** Retries for queued work whose pipeline throws. */
+  queue?: RetryPolicy;
   webhook?: WebhookConfig;
   websocket?: { port: number };
   notifications?: {
@@ -70,7 +134,7 @@ const DEFAULT_CONFIG: DaemonConfig = {
   },
   notifications: {
     enabled: true,
-    events: ['session.started', 'session.completed', 'review.escalated', 'budget.low', 'pipeline.stalled', 'pipeline.completed'],
+    events: ['session.started', 'session.completed', 'review.escalated', 'approval.requested', 'budget.low', 'pipeline.stalled', 'pipeline.completed', 'pipeline.published'],
   },
 };
 
@@ -86,6 +150,8 @@ export async function loadConfig(configPath: string = CONFIG_FILE): Promise<Daem
         ...parsed.budget,
       },
       heartbeatIntervalMs: parsed.heartbeatIntervalMs,
+      pipeline: parsed.pipeline,
+      queue: parsed.queue,
       webhook: parsed.webhook,
       websocket: parsed.websocket,
       notifications: parsed.notifications ?? DEFAULT_CONFIG.notifications,
@@ -119,6 +185,8 @@ async function main(): Promise<void> {
 
   const budgetConfig: BudgetConfig = {
     maxPromptsPerWindow: config.budget.maxPromptsPerWindow,
+    maxTokensPerWindow: config.budget.maxTokensPerWindow,
+    maxCostPerWindow: config.budget.maxCostPerWindow,
     reserveForInteractive: config.budget.reserveForInteractive,
     windowHours: config.budget.windowHours,
     stateFile: BUDGET_FILE,
@@ -147,13 +215,29 @@ async function main(): Promise<void> {
     }
   });
 
+  // Projects with a publish config get a pull request for each completed pipeline
+  eventBus.on('pipeline.completed', (event) => {
+    if (event.type !== 'pipeline.completed' || !event.success) return;
+    void (async () => {
+      const entry = (await listProjects(PROJECTS_FILE)).find((p) => p.path === event.project);
+      if (!entry?.publish) return;
+      const pullRequest = await publishPipeline(event.project, entry.publish);
+      log(`[publish] Opened pull request #${pullRequest.number} for ${entry.name}: ${pullRequest.url}`);
+      eventBus.emit({
+        type: 'pipeline.published', project: event.project, task: event.task, url: pullRequest.url, timestamp: Date.now(),
+      });
+    })().catch((err) => {
+      log(`[publish] Failed to publish pipeline in ${event.project}: ${err instanceof Error ? err.message : String(err)}`);
+    });
+  });
+
   // Log all events
   eventBus.on('*', (event) => {
     log(`[event] ${event.type}${('agent' in event && event.agent) ? ` (${event.agent})` : ''}`);
   });
 
   const triggers = buildTriggers(config, STATE_DIR);
-  const queue = new WorkQueue(QUEUE_FILE);
+  const queue = new WorkQueue(QUEUE_FILE, config.queue);
 
   // Build project name → path lookup from config AND persisted registry
   // Trigger configs reference projects by name, but runAgent needs the full path
@@ -171,6 +255,48 @@ async function main(): Promise<void> {
     return projectPathsByName.get(nameOrPath) ?? nameOrPath;
   }
 
+  // Usage is recorded against project paths, so key the quotas the same way
+  if (config.budget.projects) {
+    budgetConfig.projects = Object.fromEntries(
+      Object.entries(config.budget.projects).map(([project, quota]) => [resolveProjectPath(project), quota]),
+    );
+  }
+
+  // Project policies override the defaults field by field
+  const { projects: projectPolicies = {}, ...defaultPolicy } = config.pipeline?.reviewPolicy ?? {};
+  const reviewPolicies = new Map(
+    Object.entries(projectPolicies).map(([project, policy]) => [resolveProjectPath(project), policy]),
+  );
+  function reviewPolicyFor(projectPath: string): ReviewPolicy | undefined {
+    const policy = { ...defaultPolicy, ...reviewPolicies.get(projectPath) };
+    return Object.keys(policy).length > 0 ? policy : undefined;
+  }
+
+  function knownGates(gates: ApprovalGate[] = []): ApprovalGate[] {
+    for (const gate of gates.filter(g => !APPROVAL_GATES.includes(g))) {
+      log(`[daemon] ignoring unknown approval gate "${gate}" (known: ${APPROVAL_GATES.join(', ')})`);
+    }
+    return gates.filter(g => APPROVAL_GATES.includes(g));
+  }
+  const defaultGates = knownGates(config.pipeline?.approvals?.gates);
+  const projectGates = new Map(
+    Object.entries(config.pipeline?.approvals?.projects ?? {}).map(([project, gates]) => [resolveProjectPath(project), knownGates(gates)]),
+  );
+
+  function knownRollback(mode: AttemptRollback | 'off' | undefined): AttemptRollback | 'off' | undefined {
+    if (mode === undefined || mode === 'off' || ATTEMPT_ROLLBACKS.includes(mode)) return mode;
+    log(`[daemon] ignoring unknown rollback mode "${mode}" (known: off, ${ATTEMPT_ROLLBACKS.join(', ')})`);
+    return undefined;
+  }
+  const defaultRollback = knownRollback(config.pipeline?.rollback?.mode);
+  const projectRollbacks = new Map(
+    Object.entries(config.pipeline?.rollback?.projects ?? {}).map(([project, mode]) => [resolveProjectPath(project), knownRollback(mode)]),
+  );
+  function rollbackFor(projectPath: string): AttemptRollback | undefined {
+    const mode = projectRollbacks.get(projectPath) ?? defaultRollback;
+    return mode === 'off' ? undefined : mode;
+  }
+
   // Build SDK hooks
   const postToolUseHook = createPostToolUseHook(log);
   const sessionEndHook = createSessionEndHook(async ({ cwd }) => {
@@ -197,30 +323,73 @@ async function main(): Promise<void> {
     }),
     log,
     eventBus,
+    maxParallelTasks: config.pipeline?.maxParallelTasks,
+    gitBranches: config.pipeline?.gitBranches,
+    blockOutOfScopeWrites: config.pipeline?.blockOutOfScopeWrites,
+    stageDescriptors: parseStageDescriptors(config.pipeline?.stages, log),
+    reviewPolicy: reviewPolicyFor,
+    approvalGates: projectPath => projectGates.get(projectPath) ?? defaultGates,
+    rollback: rollbackFor,
   });
 
+  // One AbortController per running pipeline, keyed by project path — IPC cancel/pause aborts it
+  const activePipelines = new Map<string, AbortController>();
+
+  async function withStopSignal<T>(project: string, run: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const controller = new AbortController();
+    activePipelines.set(project, controller);
+    try {
+      return await run(controller.signal);
+    } finally {
+      activePipelines.delete(project);
+    }
+  }
+
   async function readTextFileSafe(path: string): Promise<string> {
     try { return await readFile(path, 'utf-8'); } catch { return ''; }
   }
 
+  function loadTemplates() {
+    return loadPipelineTemplates(PIPELINES_DIR, config.pipeline?.templates, log);
+  }
+
+  /** Picks the stages for a full pipeline run — also used by `codename route` as a dry run. */
+  async function routePipeline(projectPath: string, task: string, hints?: RouteHints): Promise<RouteDecision> {
+    const agents = await loadAgentSummaries(AGENTS_DIR);
+    const projectContext = await readTextFileSafe(join(projectPath, '.brain', 'PROJECT.md'));
+    const router = config.pipeline?.router;
+    return explainRoute({
+      task,
+      agents,
+      projectContext,
+      mode: router?.mode,
+      query: (prompt, schema) => queryStructured(prompt, schema, {
+        model: router?.model ?? 'claude-haiku-4-5',
+        ...(router?.timeoutMs !== undefined && { timeoutMs: router.timeoutMs }),
+      }),
+      log,
+      templates: await loadTemplates(),
+      hints,
+    });
+  }
+
   async function runPipeline(
     project: string,
     task: string,
     mode: 'standalone' | 'team',
     agent?: string,
+    hints?: RouteHints,
   ) {
     const resolvedProject = resolveProjectPath(project);
 
     if (agent && agent !== 'pipeline') {
       // Manual agent run — skip router
       const stages = [{ agent, teams: mode === 'team' }];
-      return pipelineEngine.run({ stages, project: resolvedProject, task });
+      return withStopSignal(resolvedProject, signal => pipelineEngine.run({ stages, project: resolvedProject, task, signal }));
     }
 
-    // Full pipeline — use LLM router
-    const agents = await loadAgentSummaries(AGENTS_DIR);
-    const projectContext = await readTextFileSafe(join(resolvedProject, '.brain', 'PROJECT.md'));
-    const stages = await routeTask({ task, agents, projectContext });
+    // Full pipeline — use the router
+    const { stages } = await routePipeline(resolvedProject, task, hints);
 
     // When user explicitly requests team mode, force teams on the architect stage
     if (mode === 'team') {
@@ -232,7 +401,12 @@ async function main(): Promise<void> {
     }
 
     log(`[pipeline] Router selected: ${stages.map(s => s.agent).join(' → ')}`);
-    return pipelineEngine.run({ stages, project: resolvedProject, task });
+    return withStopSignal(resolvedProject, signal => pipelineEngine.run({ stages, project: resolvedProject, task, signal }));
+  }
+
+  async function resumePipeline(project: string) {
+    const resolvedProject = resolveProjectPath(project);
+    return withStopSignal(resolvedProject, signal => pipelineEngine.resume(resolvedProject, { signal }));
   }
 
   // Build heartbeat
@@ -240,26 +414,34 @@ async function main(): Promise<void> {
     {
       triggers,
       queue,
-      canRunAgent: () => canRunAgent(budgetConfig),
-      recordUsage: (count) => recordUsage(count, budgetConfig),
+      canRunAgent: (project) => canRunAgent(budgetConfig, project),
+      recordUsage: (count, usage, tags) => recordUsage(count, budgetConfig, usage, tags),
       runPipeline,
+      resumePipeline,
       log,
       projectPaths: [...projectPathsByName.values()],
       eventBus,
+      resolveProject: resolveProjectPath,
+    },
+    {
+      intervalMs: config.heartbeatIntervalMs ?? 60_000,
+      maxConcurrentPipelines: config.pipeline?.maxConcurrentPipelines,
     },
-    { intervalMs: config.heartbeatIntervalMs ?? 60_000 },
   );
 
   // Periodic budget check with accurate numbers
   const budgetCheckInterval = setInterval(async () => {
     try {
-      const remaining = await getRemainingBudget(budgetConfig);
-      const percent = Math.round((remaining / config.budget.maxPromptsPerWindow) * 100);
+      // Report whichever limit is closest to running out
+      const budget = await getRemainingBudget(budgetConfig);
+      const tightest = budgetDimensions(budget)
+        .reduce((min, d) => (d.remaining / d.limit < min.remaining / min.limit ? d : min));
+      const percent = Math.round((tightest.remaining / tightest.limit) * 100);
       if (percent <= 20) {
         eventBus.emit({
           type: 'budget.low',
-          remaining,
-          max: config.budget.maxPromptsPerWindow,
+          remaining: tightest.remaining,
+          max: tightest.limit,
           percent,
           timestamp: Date.now(),
         });
@@ -269,14 +451,15 @@ async function main(): Promise<void> {
 
   // Startup banner
   const projects = await listProjects(PROJECTS_FILE);
-  const remaining = await getRemainingBudget(budgetConfig);
+  const budget = await getRemainingBudget(budgetConfig);
   const queueSize = await queue.size();
 
   log('=== Codename Claude daemon started ===');
   log(`  Projects:  ${projects.length} registered`);
   log(`  Triggers:  ${triggers.length} registered`);
-  log(`  Budget:    ${remaining}/${config.budget.maxPromptsPerWindow} prompts remaining`);
+  log(`  Budget:    ${formatBudget(budget)}`);
   log(`  Queue:     ${queueSize} items pending`);
+  log(`  Slots:     ${heartbeat.getMaxConcurrentPipelines()} concurrent pipeline(s)`);
   log(`  Interval:  ${(config.heartbeatIntervalMs ?? 60_000) / 1000}s`);
   log('=======================================');
 
@@ -295,6 +478,7 @@ async function main(): Promise<void> {
           task: result.task,
           mode: result.mode,
           enqueuedAt: Date.now(),
+          labels: result.labels,
         }).catch((err) => {
           log(`[webhook] failed to enqueue: ${err}`);
         });
@@ -326,6 +510,22 @@ async function main(): Promise<void> {
   );
   fileWatcher.start();
 
+  // Pipelines still marked running were interrupted by the previous daemon — resume them
+  for (const projectPath of new Set(projectPathsByName.values())) {
+    const state = await readPipelineState(projectPath);
+    if (state?.status !== 'running') continue;
+    log(`[daemon] Interrupted pipeline found in ${projectPath} — queueing resume`);
+    await queue.enqueue({
+      triggerName: 'restart-recovery',
+      project: projectPath,
+      agent: 'pipeline',
+      task: state.task,
+      mode: 'standalone',
+      enqueuedAt: Date.now(),
+      resume: true,
+    });
+  }
+
   // Start heartbeat
   heartbeat.start();
 
@@ -335,7 +535,7 @@ async function main(): Promise<void> {
     switch (command.type) {
       case 'status': {
         const projectList = await listProjects(PROJECTS_FILE);
-        const budgetRemaining = await getRemainingBudget(budgetConfig);
+        const budget = await getRemainingBudget(budgetConfig);
         const queueLen = await queue.size();
         return {
           ok: true,
@@ -347,26 +547,128 @@ async function main(): Promise<void> {
             heartbeatRunning: heartbeat.isRunning(),
             projects: projectList.length,
             triggers: triggers.length,
-            budgetRemaining,
-            budgetMax: config.budget.maxPromptsPerWindow,
+            budget,
             queueSize: queueLen,
             activeSessions: sessionTracker.getActive().length,
+            maxConcurrentPipelines: heartbeat.getMaxConcurrentPipelines(),
+            slots: heartbeat.getActiveSlots(),
           },
         };
       }
 
       case 'run': {
         const projectPath = resolveProjectPath(command.project);
+        if (command.template) {
+          const known = [...(await loadTemplates()), ...DEFAULT_TEMPLATES].map(t => t.name);
+          if (!known.includes(command.template)) {
+            return { ok: false, error: `Unknown pipeline template "${command.template}" (known: ${known.join(', ')})` };
+          }
+        }
         // Enqueue via the work queue so the heartbeat picks it up (respects concurrency lock)
-        await queue.enqueue({
+        // Human requests jump ahead of automated work; only identical requests collapse
+        const item = await queue.enqueue({
           triggerName: `cli:${command.agent}`,
           project: projectPath,
           agent: command.agent,
           task: command.task,
           mode: command.mode,
           enqueuedAt: Date.now(),
+          priority: QUEUE_PRIORITY.high,
+          dedupeKey: `${projectPath}|${command.agent}|cli|${command.task}|${command.template ?? ''}`,
+          ...(command.template && { template: command.template }),
         });
-        return { ok: true, data: { queued: true, agent: command.agent, project: command.project } };
+        return { ok: true, data: { queued: true, id: item.id, agent: command.agent, project: command.project } };
+      }
+
+      case 'route': {
+        const projectPath = resolveProjectPath(command.project);
+        // Same hints as a `codename run pipeline` request; nothing is queued or run
+        const decision = await routePipeline(projectPath, command.task, {
+          triggerName: 'cli:pipeline',
+          labels: command.labels,
+          template: command.template,
+        });
+        const estimate = await estimatePipeline(budgetConfig, decision.stages.map(s => s.agent));
+        const budget = await getRemainingBudget(budgetConfig);
+        return { ok: true, data: { project: projectPath, decision, estimate, budget } };
+      }
+
+      case 'pipeline-resume': {
+        const projectPath = resolveProjectPath(command.project);
+        const state = await readPipelineState(projectPath);
+        if (!state) {
+          return { ok: false, error: `No pipeline state found for ${command.project}` };
+        }
+        if (state.status === 'completed' || state.status === 'cancelled') {
+          return { ok: false, error: `Pipeline for "${state.task}" was ${state.status} — nothing to resume` };
+        }
+        if (state.status === 'awaiting_approval') {
+          return { ok: false, error: `Pipeline for "${state.task}" is waiting for approval (${state.approval?.gate} gate) — run "codename approve" or "codename reject"` };
+        }
+        if (activePipelines.has(projectPath)) {
+          return { ok: false, error: `Pipeline for ${command.project} is still running` };
+        }
+        await queue.enqueue({
+          triggerName: 'cli:resume',
+          project: projectPath,
+          agent: 'pipeline',
+          task: state.task,
+          mode: 'standalone',
+          enqueuedAt: Date.now(),
+          priority: QUEUE_PRIORITY.high,
+          resume: true,
+        });
+        return { ok: true, data: { queued: true, project: command.project, task: state.task, status: state.status } };
+      }
+
+      case 'pipeline-cancel':
+      case 'pipeline-pause': {
+        const projectPath = resolveProjectPath(command.project);
+        const reason: PipelineStopReason = command.type === 'pipeline-cancel' ? 'cancel' : 'pause';
+        const controller = activePipelines.get(projectPath);
+        if (controller) {
+          log(`[ipc] ${reason} requested for pipeline in ${projectPath}`);
+          controller.abort(reason);
+          return { ok: true, data: { project: command.project, reason } };
+        }
+
+        // A paused or waiting pipeline isn't running, but can still be cancelled for good
+        if (reason === 'cancel' && await pipelineEngine.cancel(projectPath)) {
+          return { ok: true, data: { project: command.project, reason } };
+        }
+        return { ok: false, error: `No pipeline is running for ${command.project}` };
+      }
+
+      case 'pipeline-approve':
+      case 'pipeline-reject': {
+        const projectPath = resolveProjectPath(command.project);
+        const state = await readPipelineState(projectPath);
+        if (state?.status !== 'awaiting_approval' || !state.approval) {
+          return { ok: false, error: `No pipeline is waiting for approval in ${command.project}` };
+        }
+        const approved = command.type === 'pipeline-approve';
+        if (command.type === 'pipeline-reject' && !command.reason.trim()) {
+          return { ok: false, error: 'A rejection needs a reason for the agent that redoes the work' };
+        }
+
+        state.approval.decision = approved ? 'approved' : 'rejected';
+        if (command.type === 'pipeline-reject') state.approval.reason = command.reason.trim();
+        state.approval.decidedAt = Date.now();
+        state.updatedAt = Date.now();
+        await writePipelineState(projectPath, state);
+        log(`[ipc] ${state.approval.gate} gate ${state.approval.decision} for pipeline in ${projectPath}`);
+
+        await queue.enqueue({
+          triggerName: `cli:${approved ? 'approve' : 'reject'}`,
+          project: projectPath,
+          agent: 'pipeline',
+          task: state.task,
+          mode: 'standalone',
+          enqueuedAt: Date.now(),
+          priority: QUEUE_PRIORITY.high,
+          resume: true,
+        });
+        return { ok: true, data: { project: command.project, task: state.task, gate: state.approval.gate, decision: state.approval.decision } };
       }
 
       case 'projects-list': {
@@ -389,19 +691,66 @@ async function main(): Promise<void> {
         return { ok: true, data: { removed: command.pathOrName } };
       }
 
+      case 'projects-publish': {
+        const entry = await setProjectPublish(command.pathOrName, command.publish, PROJECTS_FILE);
+        log(`[ipc] ${command.publish ? `Publishing ${entry.name} to ${command.publish.repo}` : `Stopped publishing ${entry.name}`}`);
+        return { ok: true, data: { project: entry } };
+      }
+
+      case 'budget': {
+        const budget = await getRemainingBudget(budgetConfig);
+        const breakdown = await getUsageBreakdown(budgetConfig);
+        const history = await getBudgetHistory(budgetConfig);
+        const forecast = await forecastQueue(budgetConfig, await queue.size());
+        return {
+          ok: true,
+          data: {
+            windowHours: budgetConfig.windowHours,
+            budget,
+            ...breakdown,
+            quotas: budgetConfig.projects ?? {},
+            history,
+            forecast,
+          },
+        };
+      }
+
       case 'queue-list': {
-        // Read the queue state directly for display
-        const items: unknown[] = [];
-        const queueLen = await queue.size();
-        // Peek doesn't give all items, so read the state file directly
-        try {
-          const raw = await readFile(QUEUE_FILE, 'utf-8');
-          const state = JSON.parse(raw) as { items: unknown[] };
-          items.push(...state.items);
-        } catch {
-          // empty queue
+        const items = await queue.list();
+        return { ok: true, data: { size: items.length, items } };
+      }
+
+      case 'queue-remove': {
+        if (!(await queue.remove(command.id))) {
+          return { ok: false, error: `No queued item with id ${command.id}` };
         }
-        return { ok: true, data: { size: queueLen, items } };
+        return { ok: true, data: { removed: command.id } };
+      }
+
+      case 'queue-bump': {
+        const item = await queue.bump(command.id);
+        if (!item) {
+          return { ok: false, error: `No queued item with id ${command.id}` };
+        }
+        return { ok: true, data: { bumped: item } };
+      }
+
+      case 'queue-failed': {
+        const items = await queue.listFailed();
+        return { ok: true, data: { size: items.length, items } };
+      }
+
+      case 'queue-retry': {
+        const item = await queue.retryFailed(command.id);
+        if (!item) {
+          return { ok: false, error: `No failed item with id ${command.id}` };
+        }
+        return { ok: true, data: { requeued: item } };
+      }
+
+      case 'queue-clear': {
+        const removed = await queue.clear();
+        return { ok: true, data: { removed } };
       }
 
       case 'sessions-list': {
@@ -444,15 +793,14 @@ async function main(): Promise<void> {
   await writeFile(PID_FILE_DEFAULT, String(process.pid));
   log(`  PID:       ${process.pid} (${PID_FILE_DEFAULT})`);
 
-  // Abort controller for signaling in-flight agents to stop
-  const shutdownController = new AbortController();
-
   // Graceful shutdown
   const shutdown = async (signal: string) => {
     log(`Received ${signal} — shutting down...`);
 
-    // Signal in-flight agents to stop
-    shutdownController.abort();
+    // Stop in-flight pipelines — they stay marked running so the next start resumes them
+    for (const controller of activePipelines.values()) {
+      controller.abort('shutdown' satisfies PipelineStopReason);
+    }
 
     // Give in-flight work 10 seconds to complete
     const gracePeriod = new Promise(resolve => setTimeout(resolve, 10_000));
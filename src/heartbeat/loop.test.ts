@@ -36,6 +36,11 @@ function makeDeps(overrides: Partial<HeartbeatDeps> = {}): HeartbeatDeps {
   };
 }
 
+/** Lets a tick that just started a pipeline finish scheduling (a few microtask hops). */
+async function settle(): Promise<void> {
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+}
+
 function makeTrigger(schedule = '*/1 * * * *'): CronTrigger {
   return new CronTrigger({
     name: 'test-trigger',
@@ -90,6 +95,35 @@ describe('HeartbeatLoop', () => {
     expect(await queue.size()).toBe(1);
   });
 
+  test('passes trigger name, labels and template from the queue item to runPipeline', async () => {
+    const runPipeline = vi.fn(async () => ({ completed: true, stagesRun: 1, retries: 0, totalTurnCount: 5 }));
+    const queue = new WorkQueue(QUEUE_FILE);
+    await queue.enqueue({
+      triggerName: 'webhook:issue-7', project: 'p', agent: 'pipeline', task: 't', mode: 'standalone',
+      enqueuedAt: Date.now(), labels: ['hotfix'], template: 'docs',
+    });
+    const loop = new HeartbeatLoop(makeDeps({ queue, runPipeline }));
+
+    await loop.tick();
+    expect(runPipeline).toHaveBeenCalledWith('p', 't', 'standalone', 'pipeline', {
+      triggerName: 'webhook:issue-7', labels: ['hotfix'], template: 'docs',
+    });
+  });
+
+  test('tick skips queued work for projects over their budget', async () => {
+    const runPipeline = vi.fn(async () => ({ completed: true, stagesRun: 1, retries: 0, totalTurnCount: 5 }));
+    const queue = new WorkQueue(QUEUE_FILE);
+    await queue.enqueue({ triggerName: 'a', project: 'capped', agent: 'builder', task: 'a', mode: 'standalone', enqueuedAt: 1 });
+    await queue.enqueue({ triggerName: 'b', project: 'other', agent: 'builder', task: 'b', mode: 'standalone', enqueuedAt: 2 });
+    const canRunAgent = vi.fn(async (project?: string) => project !== 'capped');
+    const loop = new HeartbeatLoop(makeDeps({ queue, runPipeline, canRunAgent }));
+
+    const result = await loop.tick();
+    expect(result).toMatchObject({ action: 'ran_agent', triggerName: 'b' });
+    expect(canRunAgent).toHaveBeenCalledWith('capped');
+    expect((await queue.list()).map(i => i.project)).toEqual(['capped']);
+  });
+
   test('tick processes queued work when budget available', async () => {
     const runPipeline = vi.fn(async () => ({ completed: true, stagesRun: 1, teamStagesRun: 0, retries: 0, totalTurnCount: 5 }));
     const queue = new WorkQueue(QUEUE_FILE);
@@ -141,6 +175,77 @@ describe('HeartbeatLoop', () => {
     await tick1;
   });
 
+  test('runs pipelines for different projects concurrently, one per project', async () => {
+    const queue = new WorkQueue(QUEUE_FILE);
+    for (const [name, project] of [['a-1', 'project-a'], ['a-2', 'project-a'], ['b-1', 'project-b']] as const) {
+      await queue.enqueue({ triggerName: name, project, agent: 'builder', task: name, mode: 'standalone', enqueuedAt: Date.now() });
+    }
+
+    const releases: Array<() => void> = [];
+    const started: string[] = [];
+    let onStart: () => void = () => {};
+    const runPipeline = vi.fn(async (project: string) => {
+      started.push(project);
+      onStart();
+      await new Promise<void>((resolve) => releases.push(resolve));
+      return { completed: true, stagesRun: 1, retries: 0, totalTurnCount: 5 };
+    });
+    const waitForStart = () => new Promise<void>((resolve) => { onStart = resolve; });
+
+    const loop = new HeartbeatLoop(makeDeps({ queue, runPipeline }), { maxConcurrentPipelines: 3 });
+
+    let startedRun = waitForStart();
+    const tick1 = loop.tick();
+    await startedRun;
+    await settle();
+    startedRun = waitForStart();
+    const tick2 = loop.tick();
+    await startedRun;
+    await settle();
+
+    // Only project-a work is left and project-a is busy
+    expect((await loop.tick()).action).toBe('idle');
+    expect(started).toEqual(['project-a', 'project-b']);
+    expect(loop.getActiveSlots().map(s => s.triggerName)).toEqual(['a-1', 'b-1']);
+    expect(await queue.size()).toBe(1);
+
+    releases.forEach((release) => release());
+    expect((await tick1).action).toBe('ran_agent');
+    expect((await tick2).action).toBe('ran_agent');
+    expect(loop.getActiveSlots()).toEqual([]);
+  });
+
+  test('queues a due trigger whose project already has a pipeline running', async () => {
+    let release: () => void = () => {};
+    let onStart: () => void = () => {};
+    const startedRun = new Promise<void>((resolve) => { onStart = resolve; });
+    const runPipeline = vi.fn(async () => {
+      onStart();
+      await new Promise<void>((resolve) => { release = resolve; });
+      return { completed: true, stagesRun: 1, retries: 0, totalTurnCount: 5 };
+    });
+
+    const queue = new WorkQueue(QUEUE_FILE);
+    await queue.enqueue({ triggerName: 'manual', project: 'test-project', agent: 'builder', task: 'x', mode: 'standalone', enqueuedAt: Date.now() });
+
+    const trigger = makeTrigger();
+    const loop = new HeartbeatLoop(makeDeps({ queue, runPipeline, triggers: [trigger] }), { maxConcurrentPipelines: 2 });
+
+    // Queue item runs first while the trigger is not yet due
+    vi.setSystemTime(new Date('2026-02-27T10:00:30.000'));
+    const tick1 = loop.tick();
+    await startedRun;
+    await settle();
+
+    vi.setSystemTime(new Date('2026-02-27T10:01:00.000'));
+    const result = await loop.tick();
+    expect(result).toMatchObject({ action: 'queued', triggerName: 'test-trigger' });
+    expect(runPipeline).toHaveBeenCalledOnce();
+
+    release();
+    await tick1;
+  });
+
   test('tick records usage with real turn count after agent run', async () => {
     const recordUsage = vi.fn(async () => {});
     const runPipeline = vi.fn(async () => ({ completed: true, stagesRun: 2, teamStagesRun: 0, retries: 0, totalTurnCount: 12 }));
@@ -152,7 +257,40 @@ describe('HeartbeatLoop', () => {
 
     await loop.tick();
     expect(recordUsage).toHaveBeenCalledOnce();
-    expect(recordUsage).toHaveBeenCalledWith(12);
+    expect(recordUsage).toHaveBeenCalledWith(12, undefined, { project: 'test-project', agent: 'scout' });
+  });
+
+  test('tick passes token usage from the pipeline result to recordUsage', async () => {
+    const recordUsage = vi.fn(async () => {});
+    const usage = { sonnet: { inputTokens: 100, outputTokens: 50, cacheReadTokens: 0, cacheCreationTokens: 0, costUsd: 0.2 } };
+    const runPipeline = vi.fn(async () => ({ completed: true, stagesRun: 2, retries: 0, totalTurnCount: 12, usage }));
+    vi.setSystemTime(new Date('2026-02-27T10:01:00.000'));
+
+    const loop = new HeartbeatLoop(makeDeps({ triggers: [makeTrigger()], recordUsage, runPipeline }));
+
+    await loop.tick();
+    expect(recordUsage).toHaveBeenCalledWith(12, usage, { project: 'test-project', agent: 'scout' });
+  });
+
+  test('tick records usage once per agent role when the result splits it up', async () => {
+    const recordUsage = vi.fn(async () => {});
+    const usage = { sonnet: { inputTokens: 100, outputTokens: 50, cacheReadTokens: 0, cacheCreationTokens: 0, costUsd: 0.2 } };
+    const runPipeline = vi.fn(async () => ({
+      completed: true, stagesRun: 2, retries: 0, totalTurnCount: 12, usage,
+      usageByAgent: { builder: { turnCount: 9, usage }, reviewer: { turnCount: 3, usage: {} }, scout: { turnCount: 0, usage: {} } },
+    }));
+    vi.setSystemTime(new Date('2026-02-27T10:01:00.000'));
+
+    const loop = new HeartbeatLoop(makeDeps({ triggers: [makeTrigger()], recordUsage, runPipeline, resolveProject: () => '/projects/test' }));
+
+    await loop.tick();
+    expect(recordUsage).toHaveBeenCalledTimes(3);
+    expect(recordUsage).toHaveBeenCalledWith(9, usage, { project: '/projects/test', agent: 'builder', run: expect.any(String) });
+    expect(recordUsage).toHaveBeenCalledWith(3, {}, { project: '/projects/test', agent: 'reviewer', run: expect.any(String) });
+    // A run without a turn count still counts as one
+    expect(recordUsage).toHaveBeenCalledWith(1, {}, { project: '/projects/test', agent: 'scout', run: expect.any(String) });
+    const [builderCall, reviewerCall] = recordUsage.mock.calls as unknown as Array<[number, unknown, { run: string }]>;
+    expect(builderCall![2].run).toBe(reviewerCall![2].run);
   });
 
   test('tick handles agent errors gracefully', async () => {
@@ -179,6 +317,29 @@ describe('HeartbeatLoop', () => {
     expect(result2.action).not.toBe('busy');
   });
 
+  test('re-queues a failed queue item for retry', async () => {
+    const queue = new WorkQueue(QUEUE_FILE);
+    await queue.enqueue({
+      triggerName: 'webhook:issue-7',
+      project: 'test-project',
+      agent: 'builder',
+      task: 'Fix issue',
+      mode: 'standalone',
+      enqueuedAt: Date.now(),
+    });
+    const runPipeline = vi.fn(async () => {
+      throw new Error('Agent crashed');
+    });
+
+    const loop = new HeartbeatLoop(makeDeps({ queue, runPipeline }));
+    const result = await loop.tick();
+
+    expect(result.action).toBe('error');
+    const [retry] = await queue.list();
+    expect(retry).toMatchObject({ triggerName: 'webhook:issue-7', attempts: 1, lastError: 'Agent crashed' });
+    expect(retry!.notBefore).toBeGreaterThan(Date.now());
+  });
+
   test('detects stalled pipeline and enqueues continuation', async () => {
     vi.useRealTimers(); // Need real timestamps for file writing
 
@@ -226,11 +387,36 @@ describe('HeartbeatLoop', () => {
 
     expect(result.action).toBe('queued');
     expect(enqueuedItems).toHaveLength(1);
+    expect(enqueuedItems[0]).toMatchObject({ triggerName: 'stall-recovery', resume: true });
 
     vi.useRealTimers();
     await rm(projectDir, { recursive: true, force: true });
   });
 
+  test('resumes the pipeline for queued resume items', async () => {
+    const queue = new WorkQueue(QUEUE_FILE);
+    await queue.enqueue({
+      triggerName: 'stall-recovery',
+      project: '/tmp/project',
+      agent: 'builder',
+      task: 'build something',
+      mode: 'standalone',
+      enqueuedAt: Date.now(),
+      resume: true,
+    });
+
+    const runPipeline = vi.fn(async () => ({ completed: true, stagesRun: 1, retries: 0, totalTurnCount: 5 }));
+    const resumePipeline = vi.fn(async () => ({ completed: true, stagesRun: 2, retries: 0, totalTurnCount: 7 }));
+    const recordUsage = vi.fn(async () => {});
+    const loop = new HeartbeatLoop(makeDeps({ queue, runPipeline, resumePipeline, recordUsage }));
+    const result = await loop.tick();
+
+    expect(result).toMatchObject({ action: 'ran_agent', triggerName: 'stall-recovery', source: 'queue' });
+    expect(resumePipeline).toHaveBeenCalledWith('/tmp/project');
+    expect(runPipeline).not.toHaveBeenCalled();
+    expect(recordUsage).toHaveBeenCalledWith(7, undefined, { project: '/tmp/project', agent: 'builder' });
+  });
+
   test('runs initial tick immediately on start', async () => {
     vi.useRealTimers();
     const deps = makeDeps();
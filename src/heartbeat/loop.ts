@@ -1,18 +1,32 @@
+import { randomUUID } from 'node:crypto';
 import type { CronTrigger } from '../triggers/cron.js';
-import type { WorkQueue } from './queue.js';
+import { QUEUE_PRIORITY, type QueueItem, type WorkQueue } from './queue.js';
 import type { PipelineResult } from '../pipeline/engine.js';
+import type { RouteHints } from '../pipeline/templates.js';
+import type { ModelUsageMap, UsageTags } from '../state/budget.js';
 import { readPipelineState, writePipelineState } from '../pipeline/state.js';
 import type { EventBus } from '../notifications/events.js';
 
 export interface HeartbeatDeps {
   triggers: CronTrigger[];
   queue: WorkQueue;
-  canRunAgent: () => Promise<boolean>;
-  recordUsage: (promptCount: number) => Promise<void>;
-  runPipeline: (project: string, task: string, mode: 'standalone' | 'team', agent?: string) => Promise<PipelineResult>;
+  /** Whether budget allows an agent run, optionally for a specific project. */
+  canRunAgent: (project?: string) => Promise<boolean>;
+  recordUsage: (promptCount: number, usage?: ModelUsageMap, tags?: UsageTags) => Promise<void>;
+  runPipeline: (
+    project: string,
+    task: string,
+    mode: 'standalone' | 'team',
+    agent?: string,
+    hints?: RouteHints,
+  ) => Promise<PipelineResult>;
+  /** Continues an interrupted pipeline from its persisted state. */
+  resumePipeline?: (project: string) => Promise<PipelineResult>;
   log: (message: string) => void;
   projectPaths?: string[];
   eventBus?: EventBus;
+  /** Maps a project name or path to the key slots are held under. Default: identity. */
+  resolveProject?: (project: string) => string;
 }
 
 export interface TickResult {
@@ -22,43 +36,74 @@ export interface TickResult {
   error?: string;
 }
 
+/** A pipeline currently occupying one of the heartbeat's concurrency slots. */
+export interface PipelineSlot {
+  project: string;
+  triggerName: string;
+  agent: string;
+  task: string;
+  source: 'trigger' | 'queue';
+  startedAt: number;
+}
+
 interface HeartbeatOptions {
   intervalMs?: number;
+  /** Pipelines that may run at the same time, at most one per project. Default: 1. */
+  maxConcurrentPipelines?: number;
+}
+
+/** A pipeline started by tickInner — tick() awaits it after releasing the scheduling lock. */
+interface StartedRun {
+  run: Promise<TickResult>;
 }
 
 export class HeartbeatLoop {
   private deps: HeartbeatDeps;
   private intervalMs: number;
   private timer: ReturnType<typeof setInterval> | null = null;
-  private running = false;
+  private maxConcurrentPipelines: number;
+  /** Running pipelines keyed by resolved project — at most one per project. */
+  private slots = new Map<string, PipelineSlot>();
+  /** Held while a tick decides what to run, so two ticks never pick the same work. */
+  private scheduling = false;
   private tickCount = 0;
 
   constructor(deps: HeartbeatDeps, options: HeartbeatOptions = {}) {
     this.deps = deps;
     this.intervalMs = options.intervalMs ?? 60_000;
+    this.maxConcurrentPipelines = Math.max(1, options.maxConcurrentPipelines ?? 1);
   }
 
+  /**
+   * Starts at most one pipeline in a free slot and resolves when that
+   * pipeline finishes. Other ticks may start pipelines for other projects
+   * meanwhile, up to maxConcurrentPipelines.
+   */
   async tick(): Promise<TickResult> {
     this.tickCount++;
 
     // Synchronous lock — must be checked and set before any await
-    if (this.running) {
-      this.deps.log(`[heartbeat] tick #${this.tickCount} — busy (agent running)`);
+    if (this.scheduling || this.slots.size >= this.maxConcurrentPipelines) {
+      this.deps.log(`[heartbeat] tick #${this.tickCount} — busy (${this.slots.size}/${this.maxConcurrentPipelines} pipelines running)`);
       return { action: 'busy' };
     }
-    this.running = true;
+    this.scheduling = true;
 
+    let next: TickResult | StartedRun;
     try {
-      return await this.tickInner();
+      next = await this.tickInner();
     } finally {
-      this.running = false;
+      this.scheduling = false;
     }
+    return 'run' in next ? next.run : next;
   }
 
-  private async tickInner(): Promise<TickResult> {
+  private async tickInner(): Promise<TickResult | StartedRun> {
     // 0. Check for stalled pipelines
     if (this.deps.projectPaths) {
       for (const projectPath of this.deps.projectPaths) {
+        // A pipeline running in one of our slots may legitimately be quiet for a while
+        if (this.isProjectBusy(projectPath)) continue;
         const state = await readPipelineState(projectPath);
         if (state && state.status === 'running') {
           const staleDuration = Date.now() - state.updatedAt;
@@ -79,6 +124,7 @@ export class HeartbeatLoop {
             state.updatedAt = Date.now();
             await writePipelineState(projectPath, state);
 
+            // Without a resume path, fall back to re-running the agent for the current phase
             const currentAgent = state.phase === 'building' ? 'builder' : (state.agentPipeline[0] ?? 'builder');
             await this.deps.queue.enqueue({
               triggerName: 'stall-recovery',
@@ -87,6 +133,7 @@ export class HeartbeatLoop {
               task: state.task,
               mode: 'standalone',
               enqueuedAt: Date.now(),
+              resume: true,
             });
 
             return { action: 'queued', triggerName: 'stall-recovery' };
@@ -99,10 +146,25 @@ export class HeartbeatLoop {
     for (const trigger of this.deps.triggers) {
       if (trigger.isDue()) {
         const config = trigger.getConfig();
-        const budgetOk = await this.deps.canRunAgent();
+        if (this.isProjectBusy(config.project)) {
+          await this.deps.queue.enqueue({
+            triggerName: config.name,
+            project: config.project,
+            agent: config.agent,
+            task: config.task,
+            mode: config.mode,
+            enqueuedAt: Date.now(),
+            priority: QUEUE_PRIORITY.low,
+          });
+          trigger.markFired();
+          this.deps.log(`[heartbeat] tick #${this.tickCount} — queued ${config.name} (project busy)`);
+          return { action: 'queued', triggerName: config.name };
+        }
+
+        const budgetOk = await this.deps.canRunAgent(this.projectKey(config.project));
 
         if (budgetOk) {
-          return await this.executeAgent(config.agent, config.project, config.task, config.name, config.mode, 'trigger', trigger);
+          return this.executeAgent(config.agent, config.project, config.task, config.name, config.mode, 'trigger', trigger);
         } else {
           await this.deps.queue.enqueue({
             triggerName: config.name,
@@ -111,6 +173,7 @@ export class HeartbeatLoop {
             task: config.task,
             mode: config.mode,
             enqueuedAt: Date.now(),
+            priority: QUEUE_PRIORITY.low,
           });
           trigger.markFired();
           this.deps.log(`[heartbeat] tick #${this.tickCount} — queued ${config.name} (budget low)`);
@@ -128,11 +191,15 @@ export class HeartbeatLoop {
 
     // 2. Check work queue
     if (!(await this.deps.queue.isEmpty())) {
-      const budgetOk = await this.deps.canRunAgent();
-      if (budgetOk) {
-        const item = await this.deps.queue.dequeue();
+      // Budget checks are async, so settle which projects may run before dequeuing
+      const runnable = new Set<string>();
+      for (const project of new Set((await this.deps.queue.list()).map(i => i.project))) {
+        if (!this.isProjectBusy(project) && await this.deps.canRunAgent(this.projectKey(project))) runnable.add(project);
+      }
+      if (runnable.size > 0) {
+        const item = await this.deps.queue.dequeue(i => runnable.has(i.project));
         if (item) {
-          return await this.executeAgent(item.agent, item.project, item.task, item.triggerName, item.mode, 'queue');
+          return this.executeAgent(item.agent, item.project, item.task, item.triggerName, item.mode, 'queue', undefined, item);
         }
       }
     }
@@ -142,7 +209,16 @@ export class HeartbeatLoop {
     return { action: 'idle' };
   }
 
-  private async executeAgent(
+  private projectKey(project: string): string {
+    return this.deps.resolveProject?.(project) ?? project;
+  }
+
+  private isProjectBusy(project: string): boolean {
+    return this.slots.has(this.projectKey(project));
+  }
+
+  /** Claims a slot for the project synchronously, then runs the pipeline in it. */
+  private executeAgent(
     agent: string,
     project: string,
     task: string,
@@ -150,19 +226,64 @@ export class HeartbeatLoop {
     mode: 'standalone' | 'team',
     source: 'trigger' | 'queue',
     trigger?: CronTrigger,
-  ): Promise<TickResult> {
-    this.deps.log(`[heartbeat] tick #${this.tickCount} — firing ${triggerName} (${agent} on ${project}, mode: ${mode})`);
+    item?: QueueItem,
+  ): StartedRun {
+    const key = this.projectKey(project);
+    this.slots.set(key, { project: key, triggerName, agent: item?.resume ? 'resume' : agent, task, source, startedAt: Date.now() });
+    const run = this.runInSlot(agent, project, task, triggerName, mode, source, trigger, item)
+      .finally(() => { this.slots.delete(key); });
+    return { run };
+  }
 
+  /** Records a finished run against the budget, one call per agent role when the engine split it up. */
+  private async recordRunUsage(project: string, agent: string, result: PipelineResult): Promise<void> {
+    const byAgent = Object.entries(result.usageByAgent ?? {});
+    if (byAgent.length === 0) {
+      await this.deps.recordUsage(result.totalTurnCount || 1, result.usage, { project, agent });
+      return;
+    }
+    const run = randomUUID().slice(0, 8);
+    for (const [role, { turnCount, usage }] of byAgent) {
+      await this.deps.recordUsage(turnCount || 1, usage, { project, agent: role, run });
+    }
+  }
+
+  private async runInSlot(
+    agent: string,
+    project: string,
+    task: string,
+    triggerName: string,
+    mode: 'standalone' | 'team',
+    source: 'trigger' | 'queue',
+    trigger: CronTrigger | undefined,
+    item: QueueItem | undefined,
+  ): Promise<TickResult> {
     try {
-      const result = await this.deps.runPipeline(project, task, mode, agent);
+      let result: PipelineResult;
+      if (item?.resume && this.deps.resumePipeline) {
+        this.deps.log(`[heartbeat] tick #${this.tickCount} — firing ${triggerName} (resume pipeline on ${project})`);
+        result = await this.deps.resumePipeline(project);
+      } else {
+        this.deps.log(`[heartbeat] tick #${this.tickCount} — firing ${triggerName} (${agent} on ${project}, mode: ${mode})`);
+        result = await this.deps.runPipeline(project, task, mode, agent, {
+          triggerName,
+          labels: item?.labels,
+          template: item?.template,
+        });
+      }
       trigger?.markFired();
-      const promptCount = result.totalTurnCount || 1;
-      await this.deps.recordUsage(promptCount);
+      await this.recordRunUsage(this.projectKey(project), agent, result);
       return { action: 'ran_agent', triggerName, source };
     } catch (err) {
       const message = err instanceof Error ? err.message : String(err);
       this.deps.log(`[heartbeat] error running ${triggerName}: ${message}`);
       trigger?.markFired();
+      if (item) {
+        const outcome = await this.deps.queue.fail(item, message);
+        this.deps.log(outcome === 'retry'
+          ? `[heartbeat] ${triggerName} will be retried (attempt ${(item.attempts ?? 0) + 2})`
+          : `[heartbeat] ${triggerName} failed too often — moved to the dead-letter list`);
+      }
       return { action: 'error', triggerName, error: message };
     }
   }
@@ -198,4 +319,12 @@ export class HeartbeatLoop {
   getTickCount(): number {
     return this.tickCount;
   }
+
+  getActiveSlots(): PipelineSlot[] {
+    return [...this.slots.values()];
+  }
+
+  getMaxConcurrentPipelines(): number {
+    return this.maxConcurrentPipelines;
+  }
 }
@@ -1,7 +1,7 @@
 import { describe, test, expect, beforeEach, afterEach } from 'vitest';
-import { rm, mkdir, readFile } from 'node:fs/promises';
+import { rm, mkdir, readFile, writeFile } from 'node:fs/promises';
 import { join } from 'node:path';
-import { WorkQueue, type QueueItem } from './queue.js';
+import { WorkQueue, QUEUE_PRIORITY, type QueueItem } from './queue.js';
 
 const TEST_STATE_DIR = join(import.meta.dirname, '../../.test-state/queue');
 const TEST_STATE_FILE = join(TEST_STATE_DIR, 'queue.json');
@@ -114,11 +114,123 @@ describe('WorkQueue', () => {
     const queue = new WorkQueue(TEST_STATE_FILE);
     expect(await queue.size()).toBe(0);
 
-    await queue.enqueue(makeItem());
-    await queue.enqueue(makeItem());
+    await queue.enqueue(makeItem({ triggerName: 'first' }));
+    await queue.enqueue(makeItem({ triggerName: 'second' }));
     expect(await queue.size()).toBe(2);
 
     await queue.dequeue();
     expect(await queue.size()).toBe(1);
   });
+
+  test('dequeue returns higher priority items first, then oldest', async () => {
+    const queue = new WorkQueue(TEST_STATE_FILE);
+    await queue.enqueue(makeItem({ triggerName: 'cron', priority: QUEUE_PRIORITY.low, enqueuedAt: 1 }));
+    await queue.enqueue(makeItem({ triggerName: 'webhook-late', enqueuedAt: 3 }));
+    await queue.enqueue(makeItem({ triggerName: 'webhook-early', enqueuedAt: 2 }));
+    await queue.enqueue(makeItem({ triggerName: 'cli', priority: QUEUE_PRIORITY.high, enqueuedAt: 4 }));
+
+    const order: string[] = [];
+    let item: QueueItem | null;
+    while ((item = await queue.dequeue())) order.push(item.triggerName);
+    expect(order).toEqual(['cli', 'webhook-early', 'webhook-late', 'cron']);
+  });
+
+  test('collapses duplicates into the queued item, keeping its id and age', async () => {
+    const queue = new WorkQueue(TEST_STATE_FILE);
+    const first = await queue.enqueue(makeItem({ task: 'old task', enqueuedAt: 1 }));
+    await queue.enqueue(makeItem({ triggerName: 'other', enqueuedAt: 2 }));
+    const second = await queue.enqueue(makeItem({ task: 'new task', enqueuedAt: 3, priority: QUEUE_PRIORITY.high }));
+
+    expect(second.id).toBe(first.id);
+    const items = await queue.list();
+    expect(items).toHaveLength(2);
+    expect(items[0]).toMatchObject({ id: first.id, task: 'new task', enqueuedAt: 1, priority: QUEUE_PRIORITY.high });
+  });
+
+  test('collapsing merges labels and takes the newer template', async () => {
+    const queue = new WorkQueue(TEST_STATE_FILE);
+    await queue.enqueue(makeItem({ labels: ['bug', 'ui'], template: 'simple' }));
+    await queue.enqueue(makeItem({ labels: ['ui', 'urgent'], template: 'feature' }));
+    await queue.enqueue(makeItem({ task: 'no hints this time' }));
+
+    const items = await queue.list();
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({ task: 'no hints this time', labels: ['bug', 'ui', 'urgent'], template: 'feature' });
+  });
+
+  test('items with a custom dedupe key only collapse with the same key', async () => {
+    const queue = new WorkQueue(TEST_STATE_FILE);
+    await queue.enqueue(makeItem({ dedupeKey: 'a' }));
+    await queue.enqueue(makeItem({ dedupeKey: 'b' }));
+    await queue.enqueue(makeItem({ dedupeKey: 'a' }));
+    expect(await queue.size()).toBe(2);
+  });
+
+  test('remove, bump and clear operate on item ids', async () => {
+    const queue = new WorkQueue(TEST_STATE_FILE);
+    const a = await queue.enqueue(makeItem({ triggerName: 'a', enqueuedAt: 1 }));
+    const b = await queue.enqueue(makeItem({ triggerName: 'b', enqueuedAt: 2 }));
+    const c = await queue.enqueue(makeItem({ triggerName: 'c', enqueuedAt: 3, priority: QUEUE_PRIORITY.high }));
+
+    expect((await queue.bump(b.id!))!.triggerName).toBe('b');
+    expect((await queue.list()).map(i => i.id)).toEqual([b.id, c.id, a.id]);
+    expect(await queue.bump('missing')).toBeNull();
+
+    expect(await queue.remove(c.id!)).toBe(true);
+    expect(await queue.remove(c.id!)).toBe(false);
+    expect(await queue.size()).toBe(2);
+
+    expect(await queue.clear()).toBe(2);
+    expect(await queue.isEmpty()).toBe(true);
+  });
+
+  test('assigns stable ids to items persisted before ids existed', async () => {
+    await writeFile(TEST_STATE_FILE, JSON.stringify({ items: [makeItem({ enqueuedAt: 1 })] }));
+    const queue = new WorkQueue(TEST_STATE_FILE);
+
+    const [listed] = await queue.list();
+    expect(listed!.id).toMatch(/^[0-9a-f]{8}$/);
+    expect(await queue.remove(listed!.id!)).toBe(true);
+  });
+
+  test('fail re-queues with exponential backoff until maxAttempts, then dead-letters', async () => {
+    const queue = new WorkQueue(TEST_STATE_FILE, { maxAttempts: 3, backoffMs: 1000 });
+    await queue.enqueue(makeItem({ triggerName: 'flaky' }));
+
+    let item = (await queue.dequeue())!;
+    const before = Date.now();
+    expect(await queue.fail(item, 'boom 1')).toBe('retry');
+
+    const [retry] = await queue.list();
+    expect(retry).toMatchObject({ id: item.id, attempts: 1, lastError: 'boom 1' });
+    expect(retry!.notBefore).toBeGreaterThanOrEqual(before + 1000);
+    // Still backing off
+    expect(await queue.dequeue()).toBeNull();
+
+    // Simulate the retry being dequeued once due, then failing again
+    await queue.clear();
+    expect(await queue.fail(retry!, 'boom 2')).toBe('retry');
+    const [second] = await queue.list();
+    expect(second!.notBefore).toBeGreaterThanOrEqual(before + 2000);
+
+    await queue.clear();
+    expect(await queue.fail(second!, 'boom 3')).toBe('dead');
+    expect(await queue.isEmpty()).toBe(true);
+    const failed = await queue.listFailed();
+    expect(failed).toHaveLength(1);
+    expect(failed[0]).toMatchObject({ id: item.id, attempts: 3, lastError: 'boom 3' });
+  });
+
+  test('retryFailed moves a dead-lettered item back with a fresh retry budget', async () => {
+    const queue = new WorkQueue(TEST_STATE_FILE, { maxAttempts: 1 });
+    const item = await queue.enqueue(makeItem());
+    await queue.dequeue();
+    expect(await queue.fail(item, 'boom')).toBe('dead');
+
+    const requeued = await queue.retryFailed(item.id!);
+    expect(requeued!.attempts).toBeUndefined();
+    expect(await queue.listFailed()).toEqual([]);
+    expect((await queue.dequeue())!.id).toBe(item.id);
+    expect(await queue.retryFailed('missing')).toBeNull();
+  });
 });
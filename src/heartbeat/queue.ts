@@ -1,37 +1,98 @@
 import { readFile, writeFile, mkdir } from 'node:fs/promises';
+import { createHash } from 'node:crypto';
 import { dirname } from 'node:path';
 import { lock } from 'proper-lockfile';
 
+/** Queue priorities — higher runs first. Human requests outrank automated triggers. */
+export const QUEUE_PRIORITY = {
+  low: 0,
+  normal: 10,
+  high: 20,
+} as const;
+
 export interface QueueItem {
+  /** Stable id assigned on enqueue — used by `codename queue remove|bump`. */
+  id?: string;
   triggerName: string;
   project: string;
   agent: string;
   task: string;
   mode: 'standalone' | 'team';
   enqueuedAt: number;
+  /** Higher runs first; equal priorities run oldest first. Default: QUEUE_PRIORITY.normal. */
+  priority?: number;
+  /** Items with the same key collapse into one. Default: project + agent + triggerName. */
+  dedupeKey?: string;
+  /** Continue the project's interrupted pipeline from pipeline-state.json instead of starting over. */
+  resume?: boolean;
+  /** Labels from the originating event (e.g. GitHub issue labels), matched by pipeline templates. */
+  labels?: string[];
+  /** Pipeline template to run, skipping the router. */
+  template?: string;
+  /** Failed runs so far. */
+  attempts?: number;
+  /** Not dequeued before this time — set when a failed run is retried with backoff. */
+  notBefore?: number;
+  lastError?: string;
+  /** When the item was moved to the dead-letter list. */
+  failedAt?: number;
+}
+
+export interface RetryPolicy {
+  /** Failed runs before an item is dead-lettered. Default: 3. */
+  maxAttempts?: number;
+  /** Delay before the first retry, doubled for each further one. Default: 1 minute. */
+  backoffMs?: number;
 }
 
 interface QueueState {
   items: QueueItem[];
+  /** Dead-letter list — items that failed maxAttempts times. */
+  failed?: QueueItem[];
+}
+
+function dedupeKeyOf(item: QueueItem): string {
+  return item.dedupeKey ?? `${item.project}|${item.agent}|${item.triggerName}`;
+}
+
+/** Deterministic, so items written before ids existed get the same id on every read. */
+function itemId(item: QueueItem): string {
+  return createHash('sha1').update(`${dedupeKeyOf(item)}\n${item.enqueuedAt}`).digest('hex').slice(0, 8);
+}
+
+function byPriorityThenAge(a: QueueItem, b: QueueItem): number {
+  const priorityA = a.priority ?? QUEUE_PRIORITY.normal;
+  const priorityB = b.priority ?? QUEUE_PRIORITY.normal;
+  return priorityB - priorityA || a.enqueuedAt - b.enqueuedAt;
 }
 
 export class WorkQueue {
   private stateFile: string;
+  private maxAttempts: number;
+  private backoffMs: number;
 
-  constructor(stateFile: string) {
+  constructor(stateFile: string, retryPolicy: RetryPolicy = {}) {
     this.stateFile = stateFile;
+    this.maxAttempts = Math.max(1, retryPolicy.maxAttempts ?? 3);
+    this.backoffMs = retryPolicy.backoffMs ?? 60_000;
   }
 
   private async load(): Promise<QueueState> {
     try {
       const raw = await readFile(this.stateFile, 'utf-8');
-      return JSON.parse(raw) as QueueState;
+      const state = JSON.parse(raw) as QueueState;
+      for (const item of state.items) {
+        item.id ??= itemId(item);
+      }
+      state.items.sort(byPriorityThenAge);
+      return state;
     } catch {
       return { items: [] };
     }
   }
 
   private async save(state: QueueState): Promise<void> {
+    state.items.sort(byPriorityThenAge);
     await mkdir(dirname(this.stateFile), { recursive: true });
     await writeFile(this.stateFile, JSON.stringify(state, null, 2));
   }
@@ -45,29 +106,137 @@ export class WorkQueue {
     }
   }
 
-  async enqueue(item: QueueItem): Promise<void> {
+  private async update<T>(fn: (state: QueueState) => T): Promise<T> {
     await this.ensureFile();
     const release = await lock(this.stateFile, { retries: 3, realpath: false });
     try {
       const state = await this.load();
-      state.items.push(item);
+      const result = fn(state);
       await this.save(state);
+      return result;
     } finally {
       await release();
     }
   }
 
-  async dequeue(): Promise<QueueItem | null> {
-    await this.ensureFile();
-    const release = await lock(this.stateFile, { retries: 3, realpath: false });
-    try {
-      const state = await this.load();
-      const item = state.items.shift() ?? null;
-      await this.save(state);
+  /**
+   * Adds an item, or collapses it into a queued item with the same dedupe key:
+   * the queued item keeps its id and age, takes the newer task, template and
+   * the higher priority, and gains the new labels. Returns the item as stored.
+   */
+  async enqueue(item: QueueItem): Promise<QueueItem> {
+    return this.update((state) => {
+      const key = dedupeKeyOf(item);
+      const existing = state.items.find(i => dedupeKeyOf(i) === key);
+      if (existing) {
+        existing.task = item.task;
+        existing.mode = item.mode;
+        existing.resume = item.resume;
+        existing.priority = Math.max(existing.priority ?? QUEUE_PRIORITY.normal, item.priority ?? QUEUE_PRIORITY.normal);
+        if (item.labels?.length) {
+          existing.labels = [...new Set([...(existing.labels ?? []), ...item.labels])];
+        }
+        if (item.template) existing.template = item.template;
+        return existing;
+      }
+
+      const stored = { ...item, id: item.id ?? itemId(item), priority: item.priority ?? QUEUE_PRIORITY.normal };
+      state.items.push(stored);
+      return stored;
+    });
+  }
+
+  /**
+   * Removes and returns the next item that is due, or the next due one
+   * `accept` returns true for. Items backing off after a failure are skipped.
+   */
+  async dequeue(accept?: (item: QueueItem) => boolean): Promise<QueueItem | null> {
+    const now = Date.now();
+    return this.update((state) => {
+      const index = state.items.findIndex(i => (i.notBefore ?? 0) <= now && (!accept || accept(i)));
+      if (index < 0) return null;
+      return state.items.splice(index, 1)[0] ?? null;
+    });
+  }
+
+  /**
+   * Records a failed run of a dequeued item: re-queues it with exponential
+   * backoff, or moves it to the dead-letter list once it has failed
+   * maxAttempts times.
+   */
+  async fail(item: QueueItem, error: string): Promise<'retry' | 'dead'> {
+    const attempts = (item.attempts ?? 0) + 1;
+    const now = Date.now();
+    return this.update((state) => {
+      if (attempts >= this.maxAttempts) {
+        (state.failed ??= []).push({ ...item, attempts, lastError: error, failedAt: now, notBefore: undefined });
+        return 'dead';
+      }
+
+      // A fresh duplicate queued meanwhile supersedes the retry
+      const key = dedupeKeyOf(item);
+      if (!state.items.some(i => dedupeKeyOf(i) === key)) {
+        state.items.push({ ...item, attempts, lastError: error, notBefore: now + this.backoffMs * 2 ** (attempts - 1) });
+      }
+      return 'retry';
+    });
+  }
+
+  /** Items that exhausted their retries, oldest failure first. */
+  async listFailed(): Promise<QueueItem[]> {
+    const state = await this.load();
+    return state.failed ?? [];
+  }
+
+  /** Moves a dead-lettered item back into the queue with a fresh retry budget. */
+  async retryFailed(id: string): Promise<QueueItem | null> {
+    return this.update((state) => {
+      const index = (state.failed ?? []).findIndex(i => i.id === id);
+      if (index < 0) return null;
+      const [failed] = state.failed!.splice(index, 1);
+      const { attempts: _attempts, notBefore: _notBefore, failedAt: _failedAt, ...item } = failed!;
+      const key = dedupeKeyOf(item);
+      const existing = state.items.find(i => dedupeKeyOf(i) === key);
+      if (existing) return existing;
+      state.items.push(item);
       return item;
-    } finally {
-      await release();
-    }
+    });
+  }
+
+  /** Removes the item with the given id. Returns false if no such item is queued. */
+  async remove(id: string): Promise<boolean> {
+    return this.update((state) => {
+      const index = state.items.findIndex(i => i.id === id);
+      if (index < 0) return false;
+      state.items.splice(index, 1);
+      return true;
+    });
+  }
+
+  /** Moves the item with the given id to the front of the queue. */
+  async bump(id: string): Promise<QueueItem | null> {
+    return this.update((state) => {
+      const item = state.items.find(i => i.id === id);
+      if (!item) return null;
+      const top = Math.max(...state.items.map(i => i.priority ?? QUEUE_PRIORITY.normal));
+      if (state.items[0] !== item) item.priority = top + 1;
+      return item;
+    });
+  }
+
+  /** Empties the queue. Returns the number of items removed. */
+  async clear(): Promise<number> {
+    return this.update((state) => {
+      const removed = state.items.length;
+      state.items = [];
+      return removed;
+    });
+  }
+
+  /** All queued items in the order they will run. */
+  async list(): Promise<QueueItem[]> {
+    const state = await this.load();
+    return state.items;
   }
 
   async peek(): Promise<QueueItem | null> {
@@ -2,6 +2,7 @@ import { describe, test, expect, vi } from 'vitest';
 import type { HookInput } from '@anthropic-ai/claude-agent-sdk';
 import {
   createPostToolUseHook,
+  createScopeHook,
   createSessionEndHook,
   createTeammateIdleHook,
   createTaskCompletedHook,
@@ -96,6 +97,48 @@ describe('createPostToolUseHook', () => {
   });
 });
 
+describe('createScopeHook', () => {
+  function write(filePath: string, toolName = 'Write'): HookInput {
+    return {
+      ...baseInput,
+      hook_event_name: 'PreToolUse',
+      tool_name: toolName,
+      tool_input: { file_path: filePath, content: '...' },
+      tool_use_id: 'tu-1',
+    } as HookInput;
+  }
+
+  test('allows writes in scope and to .brain/', async () => {
+    const hook = createScopeHook(['src/auth/**'], () => {});
+    expect(await hook(write('src/auth/login.ts'), 'tu-1', hookOpts)).toEqual({ continue: true });
+    expect(await hook(write('/Users/test/project/src/auth/login.ts', 'Edit'), 'tu-1', hookOpts)).toEqual({ continue: true });
+    expect(await hook(write('/Users/test/project/.brain/NOTES.md'), 'tu-1', hookOpts)).toEqual({ continue: true });
+  });
+
+  test('denies writes outside the scope and outside the project', async () => {
+    const logs: string[] = [];
+    const hook = createScopeHook(['src/auth/**'], msg => logs.push(msg));
+
+    const result = await hook(write('/Users/test/project/src/db.ts', 'Edit'), 'tu-1', hookOpts);
+    expect(result).toEqual({
+      hookSpecificOutput: {
+        hookEventName: 'PreToolUse',
+        permissionDecision: 'deny',
+        permissionDecisionReason: "src/db.ts is outside this task's scope (src/auth/**). Change only files in scope.",
+      },
+    });
+    expect(logs).toEqual(['[hook:scope] blocked Edit: src/db.ts']);
+    expect(await hook(write('/etc/hosts'), 'tu-1', hookOpts)).toHaveProperty('hookSpecificOutput.permissionDecision', 'deny');
+  });
+
+  test('ignores other events and tools without a file path', async () => {
+    const hook = createScopeHook(['src/**'], () => {});
+    const bash = { ...baseInput, hook_event_name: 'PreToolUse', tool_name: 'Bash', tool_input: { command: 'rm -rf /' }, tool_use_id: 'tu-1' } as HookInput;
+    expect(await hook(bash, 'tu-1', hookOpts)).toEqual({ continue: true });
+    expect(await hook({ ...baseInput, hook_event_name: 'SessionEnd', reason: 'other' } as HookInput, 'tu-1', hookOpts)).toEqual({ continue: true });
+  });
+});
+
 describe('createSessionEndHook', () => {
   test('calls the onSessionEnd callback with session info', async () => {
     const callback = vi.fn<SessionEndCallback>();
@@ -3,11 +3,14 @@ import type {
   HookInput,
   HookJSONOutput,
   PostToolUseHookInput,
+  PreToolUseHookInput,
   SessionEndHookInput,
   TeammateIdleHookInput,
   TaskCompletedHookInput,
   ExitReason,
 } from '@anthropic-ai/claude-agent-sdk';
+import { isAbsolute, relative, resolve } from 'node:path';
+import { inScope } from '../pipeline/scope.js';
 
 export type HookLogger = (message: string) => void;
 
@@ -71,6 +74,37 @@ export function createPostToolUseHook(logger: HookLogger): HookCallback {
   };
 }
 
+/** Tools whose writes the scope hook checks. Bash writes are caught by the engine's diff check instead. */
+export const SCOPED_WRITE_TOOLS = 'Write|Edit|MultiEdit|NotebookEdit';
+
+/**
+ * Create a PreToolUse hook that denies file writes outside a task's scope
+ * globs. .brain/ stays writable so agents can keep their notes.
+ */
+export function createScopeHook(scope: string[], logger: HookLogger): HookCallback {
+  return async (input: HookInput): Promise<HookJSONOutput> => {
+    if (input.hook_event_name !== 'PreToolUse') return { continue: true };
+    const ptInput = input as PreToolUseHookInput;
+
+    const inputObj = ptInput.tool_input as Record<string, unknown>;
+    const filePath = inputObj['file_path'] ?? inputObj['notebook_path'];
+    if (typeof filePath !== 'string') return { continue: true };
+
+    const path = relative(ptInput.cwd, resolve(ptInput.cwd, filePath));
+    if (path === '.brain' || path.startsWith('.brain/')) return { continue: true };
+    if (!path.startsWith('..') && !isAbsolute(path) && inScope(path, scope)) return { continue: true };
+
+    logger(`[hook:scope] blocked ${ptInput.tool_name}: ${path}`);
+    return {
+      hookSpecificOutput: {
+        hookEventName: 'PreToolUse',
+        permissionDecision: 'deny',
+        permissionDecisionReason: `${path} is outside this task's scope (${scope.join(', ')}). Change only files in scope.`,
+      },
+    };
+  };
+}
+
 /**
  * Create a SessionEnd hook that fires a callback with session metadata.
  * Used to update project registry, check for session summaries, etc.
@@ -1,13 +1,28 @@
 // IPC Protocol — shared types for daemon <-> CLI communication over Unix socket.
 // Messages are newline-delimited JSON.
 
+import type { PublishConfig } from '../pipeline/publish.js';
+
 export type IpcCommand =
   | { type: 'status' }
-  | { type: 'run'; agent: string; project: string; task: string; mode: 'standalone' | 'team' }
+  | { type: 'run'; agent: string; project: string; task: string; mode: 'standalone' | 'team'; template?: string }
   | { type: 'projects-list' }
   | { type: 'projects-add'; path: string; name?: string }
   | { type: 'projects-remove'; pathOrName: string }
+  | { type: 'projects-publish'; pathOrName: string; publish: PublishConfig | null }
+  | { type: 'budget' }
   | { type: 'queue-list' }
+  | { type: 'queue-remove'; id: string }
+  | { type: 'queue-bump'; id: string }
+  | { type: 'queue-clear' }
+  | { type: 'queue-failed' }
+  | { type: 'queue-retry'; id: string }
+  | { type: 'route'; project: string; task: string; template?: string; labels?: string[] }
+  | { type: 'pipeline-resume'; project: string }
+  | { type: 'pipeline-cancel'; project: string }
+  | { type: 'pipeline-pause'; project: string }
+  | { type: 'pipeline-approve'; project: string }
+  | { type: 'pipeline-reject'; project: string; reason: string }
   | { type: 'sessions-list' }
   | { type: 'sessions-active' }
   | { type: 'shutdown' };
@@ -1,13 +1,25 @@
 import { EventEmitter } from 'node:events';
+import type { ApprovalGate, PipelineStopReason, ReviewVote } from '../pipeline/state.js';
+
+/** The files a task attempt has changed so far, .brain/ excluded. */
+export interface DiffSummary {
+  files: string[];
+  additions: number;
+  deletions: number;
+}
 
 export type PipelineEvent =
   | { type: 'session.started'; project: string; agent: string; sessionId?: string; task: string; timestamp: number }
-  | { type: 'session.completed'; project: string; agent: string; sessionId?: string; verdict?: string; score?: number; timestamp: number }
+  | { type: 'session.completed'; project: string; agent: string; sessionId?: string; verdict?: string; score?: number; diff?: DiffSummary; timestamp: number }
   | { type: 'pipeline.started'; project: string; task: string; stages: string[]; timestamp: number }
   | { type: 'pipeline.completed'; project: string; task: string; success: boolean; timestamp: number }
-  | { type: 'review.escalated'; project: string; taskTitle: string; verdict: string; score?: number; issueCount?: number; timestamp: number }
+  | { type: 'pipeline.published'; project: string; task: string; url: string; timestamp: number }
+  | { type: 'review.escalated'; project: string; taskTitle: string; verdict: string; score?: number; issueCount?: number; overrideReason?: string; timestamp: number }
+  | { type: 'review.disagreement'; project: string; taskTitle: string; rule: string; verdict: string; votes: ReviewVote[]; timestamp: number }
+  | { type: 'approval.requested'; project: string; task: string; gate: ApprovalGate; taskTitle?: string; timestamp: number }
   | { type: 'budget.low'; remaining: number; max: number; percent: number; timestamp: number }
-  | { type: 'pipeline.stalled'; project: string; task: string; stalledMinutes: number; timestamp: number };
+  | { type: 'pipeline.stalled'; project: string; task: string; stalledMinutes: number; timestamp: number }
+  | { type: 'pipeline.halted'; project: string; task: string; reason: PipelineStopReason; timestamp: number };
 
 export class EventBus {
   private emitter = new EventEmitter();
@@ -46,6 +46,17 @@ describe('formatNotification', () => {
     expect(result?.message).toContain('REVISE');
   });
 
+  it('formats approval.requested events', () => {
+    const result = formatNotification({
+      type: 'approval.requested',
+      project: '/home/user/my-project',
+      task: 'Add auth',
+      gate: 'plan',
+      timestamp: 1000,
+    });
+    expect(result).toEqual({ title: 'Codename Claude — Approval Needed', message: 'Plan ready: my-project', subtitle: 'Add auth' });
+  });
+
   it('formats budget.low events', () => {
     const result = formatNotification({
       type: 'budget.low',
@@ -69,6 +80,29 @@ describe('formatNotification', () => {
     expect(result?.title).toContain('Stalled');
   });
 
+  it('formats pipeline.halted events', () => {
+    const result = formatNotification({
+      type: 'pipeline.halted',
+      project: '/home/user/my-project',
+      task: 'Build feature X',
+      reason: 'pause',
+      timestamp: 1000,
+    });
+    expect(result?.message).toBe('Pipeline paused: my-project');
+  });
+
+  it('formats pipeline.published events', () => {
+    const result = formatNotification({
+      type: 'pipeline.published',
+      project: '/home/user/my-project',
+      task: 'Build feature X',
+      url: 'https://github.com/me/my-project/pull/3',
+      timestamp: 1000,
+    });
+    expect(result?.message).toBe('Opened for my-project');
+    expect(result?.subtitle).toBe('https://github.com/me/my-project/pull/3');
+  });
+
   it('returns null for pipeline.started (not user-facing)', () => {
     const result = formatNotification({
       type: 'pipeline.started',
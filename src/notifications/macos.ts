@@ -28,7 +28,15 @@ export function formatNotification(
       return {
         title: 'Codename Claude — Review Escalated',
         message: `${event.verdict}: ${event.taskTitle}`,
-        subtitle: event.score != null ? `Score: ${event.score}/10, ${event.issueCount ?? 0} issues` : undefined,
+        subtitle: event.overrideReason
+          ? `Review policy: ${event.overrideReason}`
+          : event.score != null ? `Score: ${event.score}/10, ${event.issueCount ?? 0} issues` : undefined,
+      };
+    case 'review.disagreement':
+      return {
+        title: 'Codename Claude — Reviewers Disagree',
+        message: `${event.verdict} (${event.rule}): ${event.taskTitle}`,
+        subtitle: event.votes.map(v => `${v.reviewer} ${v.verdict} ${v.score}/10`).join(', '),
       };
     case 'budget.low':
       return {
@@ -41,11 +49,31 @@ export function formatNotification(
         message: `Pipeline stalled for ${event.stalledMinutes}m`,
         subtitle: event.project.split('/').pop(),
       };
+    case 'pipeline.halted':
+      return {
+        title: 'Codename Claude',
+        message: `Pipeline ${event.reason === 'cancel' ? 'cancelled' : event.reason === 'pause' ? 'paused' : 'interrupted'}: ${event.project.split('/').pop()}`,
+        subtitle: event.task.slice(0, 60),
+      };
+    case 'approval.requested': {
+      const what = event.gate === 'plan' ? 'Plan ready' : event.gate === 'redesign' ? 'Redesign requested' : 'Ready to complete';
+      return {
+        title: 'Codename Claude — Approval Needed',
+        message: `${what}: ${event.project.split('/').pop()}`,
+        subtitle: event.taskTitle ?? event.task.slice(0, 60),
+      };
+    }
     case 'pipeline.completed':
       return {
         title: 'Codename Claude',
         message: `Pipeline ${event.success ? 'completed' : 'failed'}: ${event.project.split('/').pop()}`,
       };
+    case 'pipeline.published':
+      return {
+        title: 'Codename Claude — Pull Request',
+        message: `Opened for ${event.project.split('/').pop()}`,
+        subtitle: event.url,
+      };
     default:
       return null;
   }
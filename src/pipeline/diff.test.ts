@@ -0,0 +1,80 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { writeFile, mkdir, rm } from 'node:fs/promises';
+import { execFileSync } from 'node:child_process';
+import { join } from 'node:path';
+import { diffTrees, formatTaskDiff, snapshotTree } from './diff.js';
+
+const TEST_PROJECT = join(import.meta.dirname, '../../.test-state/diff-test');
+
+function git(...args: string[]): string {
+  return execFileSync('git', args, { cwd: TEST_PROJECT, encoding: 'utf-8' }).trim();
+}
+
+describe('snapshotTree and diffTrees', () => {
+  beforeEach(async () => {
+    await mkdir(join(TEST_PROJECT, '.brain'), { recursive: true });
+    git('init');
+    git('config', 'user.email', 'test@test.com');
+    git('config', 'user.name', 'Test');
+    await writeFile(join(TEST_PROJECT, 'keep.txt'), 'one\ntwo\n');
+    await writeFile(join(TEST_PROJECT, 'gone.txt'), 'bye\n');
+    git('add', '.');
+    git('commit', '-m', 'init');
+  });
+
+  afterEach(async () => {
+    await rm(TEST_PROJECT, { recursive: true, force: true });
+  });
+
+  test('is null outside a git repo', async () => {
+    await rm(join(TEST_PROJECT, '.git'), { recursive: true, force: true });
+    expect(snapshotTree(TEST_PROJECT)).toBeNull();
+  });
+
+  test('diffs tracked and untracked changes between snapshots, leaving .brain/ and the index alone', async () => {
+    // Changes from before the attempt are not part of its diff
+    await writeFile(join(TEST_PROJECT, 'earlier.txt'), 'left over\n');
+    git('add', 'earlier.txt');
+    const before = snapshotTree(TEST_PROJECT)!;
+
+    await writeFile(join(TEST_PROJECT, 'keep.txt'), 'one\n2\n3\n');
+    await rm(join(TEST_PROJECT, 'gone.txt'));
+    await writeFile(join(TEST_PROJECT, 'new.ts'), 'export {};\n');
+    await writeFile(join(TEST_PROJECT, '.brain', 'PLAN.md'), '- [x] Task\n');
+    const after = snapshotTree(TEST_PROJECT)!;
+
+    const { diff, patch } = diffTrees(TEST_PROJECT, before, after);
+    expect(diff.files).toEqual([
+      { path: 'gone.txt', status: 'deleted', additions: 0, deletions: 1 },
+      { path: 'keep.txt', status: 'modified', additions: 2, deletions: 1 },
+      { path: 'new.ts', status: 'added', additions: 1, deletions: 0 },
+    ]);
+    expect(diff.additions).toBe(3);
+    expect(diff.deletions).toBe(2);
+    expect(patch).toContain('+export {};');
+    expect(patch).not.toContain('earlier.txt');
+    expect(git('diff', '--cached', '--name-only')).toBe('earlier.txt');
+  });
+});
+
+describe('formatTaskDiff', () => {
+  test('lists the files and includes the diff', () => {
+    const text = formatTaskDiff(
+      { files: [{ path: 'src/a.ts', status: 'modified', additions: 1, deletions: 1 }], additions: 1, deletions: 1, path: '.brain/attempts/a.diff' },
+      '-old\n+new\n',
+    );
+    expect(text).toBe('- modified src/a.ts (+1 -1)\n\n```diff\n-old\n+new\n```');
+  });
+
+  test('cuts a long diff short and points at the saved file', () => {
+    const files = Array.from({ length: 52 }, (_, i) => ({ path: `f${i}.ts`, status: 'added' as const, additions: 1, deletions: 0 }));
+    const text = formatTaskDiff({ files, additions: 52, deletions: 0, path: '.brain/attempts/a.diff' }, 'x'.repeat(20_000));
+    expect(text).toContain('- … and 2 more');
+    expect(text).toContain('… diff truncated — the full diff is in .brain/attempts/a.diff');
+    expect(text.length).toBeLessThan(14_000);
+  });
+
+  test('says so when nothing changed', () => {
+    expect(formatTaskDiff({ files: [], additions: 0, deletions: 0 }, '')).toBe('No files outside .brain/ changed.');
+  });
+});
@@ -0,0 +1,87 @@
+import { execFileSync } from 'node:child_process';
+import { copyFileSync, existsSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import type { DiffFile, TaskDiff } from './state.js';
+
+/** How much of the diff goes into the Reviewer prompt — the rest is in the saved file. */
+const PROMPT_DIFF_LIMIT = 12_000;
+/** Files listed in the Reviewer prompt before the list is cut short. */
+const PROMPT_FILE_LIMIT = 50;
+
+function git(cwd: string, args: string[], env?: NodeJS.ProcessEnv): string {
+  return execFileSync('git', args, {
+    cwd, encoding: 'utf-8', timeout: 30_000, stdio: 'pipe', maxBuffer: 64 * 1024 * 1024,
+    ...(env && { env: { ...process.env, ...env } }),
+  }).trim();
+}
+
+/**
+ * Records the working tree as a git tree object — tracked and untracked files,
+ * .brain/ excluded — without touching the index or HEAD. Null outside a git
+ * repo with commits.
+ */
+export function snapshotTree(cwd: string): string | null {
+  if (!existsSync(join(cwd, '.git'))) return null;
+  // A copy of the index, so whatever the agents staged stays as it is while
+  // git still skips rehashing files whose stat info hasn't changed
+  const index = join(tmpdir(), `codename-index-${process.pid}-${Date.now().toString(36)}`);
+  const env = { GIT_INDEX_FILE: index };
+  try {
+    const realIndex = resolve(cwd, git(cwd, ['rev-parse', '--git-path', 'index']));
+    if (existsSync(realIndex)) copyFileSync(realIndex, index);
+    else git(cwd, ['read-tree', 'HEAD'], env);
+    git(cwd, ['add', '-A'], env);
+    git(cwd, ['rm', '-r', '-q', '--cached', '--ignore-unmatch', '.brain'], env);
+    return git(cwd, ['write-tree'], env);
+  } catch {
+    return null;
+  } finally {
+    rmSync(index, { force: true });
+  }
+}
+
+const STATUSES: Record<string, DiffFile['status']> = { A: 'added', M: 'modified', D: 'deleted', T: 'modified' };
+
+/** What changed between two snapshots: the files with line counts, and the full diff. */
+export function diffTrees(cwd: string, from: string, to: string): { diff: Omit<TaskDiff, 'path'>; patch: string } {
+  const statuses = new Map(git(cwd, ['diff', '--no-renames', '--name-status', from, to])
+    .split('\n').filter(Boolean)
+    .map(line => {
+      const [status, path] = line.split('\t');
+      return [path!, STATUSES[status!.charAt(0)] ?? 'modified'] as const;
+    }));
+  const files = git(cwd, ['diff', '--no-renames', '--numstat', from, to])
+    .split('\n').filter(Boolean)
+    .map((line): DiffFile => {
+      // Binary files have '-' for both counts
+      const [additions, deletions, path] = line.split('\t');
+      return {
+        path: path!, status: statuses.get(path!) ?? 'modified',
+        additions: Number(additions) || 0, deletions: Number(deletions) || 0,
+      };
+    });
+  const patch = git(cwd, ['diff', '--no-renames', '--binary', from, to]);
+  return {
+    diff: {
+      files,
+      additions: files.reduce((sum, f) => sum + f.additions, 0),
+      deletions: files.reduce((sum, f) => sum + f.deletions, 0),
+    },
+    patch: patch ? `${patch}\n` : '',
+  };
+}
+
+/**
+ * The Reviewer's view of an attempt: the changed files with line counts, then
+ * as much of the diff as fits, pointing at the saved file for the rest.
+ */
+export function formatTaskDiff(diff: TaskDiff, patch: string): string {
+  if (diff.files.length === 0) return 'No files outside .brain/ changed.';
+  const listed = diff.files.slice(0, PROMPT_FILE_LIMIT).map(f => `- ${f.status} ${f.path} (+${f.additions} -${f.deletions})`);
+  if (diff.files.length > PROMPT_FILE_LIMIT) listed.push(`- … and ${diff.files.length - PROMPT_FILE_LIMIT} more`);
+  const excerpt = patch.length > PROMPT_DIFF_LIMIT
+    ? `${patch.slice(0, PROMPT_DIFF_LIMIT)}\n… diff truncated — the full diff is in ${diff.path}`
+    : patch.trimEnd();
+  return `${listed.join('\n')}\n\n\`\`\`diff\n${excerpt}\n\`\`\``;
+}
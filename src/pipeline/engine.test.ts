@@ -1,5 +1,6 @@
 import { describe, test, expect, vi, beforeEach, afterEach } from 'vitest';
 import { writeFile, readFile, mkdir, rm, readdir } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
 import { execFileSync } from 'node:child_process';
 import { join } from 'node:path';
 import { PipelineEngine, type PipelineRunnerFn } from './engine.js';
@@ -69,6 +70,32 @@ describe('PipelineEngine', () => {
     expect(result.completed).toBe(true);
     expect(runner).toHaveBeenCalledTimes(1);
   });
+
+  test('sums token usage per model and per agent across every session', async () => {
+    const tokens = (inputTokens: number, costUsd: number) =>
+      ({ inputTokens, outputTokens: 0, cacheReadTokens: 0, cacheCreationTokens: 0, costUsd });
+    const planRunner = makeRalphRunner(['Task A']);
+    const runner: PipelineRunnerFn = vi.fn(async (role, project, task, mode, options) => {
+      const result = await planRunner(role, project, task, mode, options);
+      const model = role === 'architect' ? 'opus' : 'sonnet';
+      return { ...result, usage: { [model]: tokens(100, 1) } };
+    });
+    const engine = new PipelineEngine({ runner, log: () => {} });
+
+    const result = await engine.run({
+      stages: [{ agent: 'architect', teams: false }, { agent: 'builder', teams: false }, { agent: 'reviewer', teams: false }],
+      project: TEST_PROJECT,
+      task: 'build something',
+    });
+
+    expect(result.completed).toBe(true);
+    expect(result.usage).toEqual({ opus: tokens(100, 1), sonnet: tokens(200, 2) });
+    expect(result.usageByAgent).toEqual({
+      architect: { turnCount: 1, usage: { opus: tokens(100, 1) } },
+      builder: { turnCount: 1, usage: { sonnet: tokens(100, 1) } },
+      reviewer: { turnCount: 1, usage: { sonnet: tokens(100, 1) } },
+    });
+  });
 });
 
 describe('PipelineEngine Ralph loop', () => {
@@ -682,7 +709,7 @@ describe('PipelineEngine review feedback file', () => {
     await rm(TEST_PROJECT, { recursive: true, force: true });
   });
 
-  test('writes REVIEW.md with structured feedback on REVISE', async () => {
+  test('writes the task\'s review file with structured feedback on REVISE', async () => {
     let reviewCount = 0;
     const runner: PipelineRunnerFn = vi.fn(async (role: string) => {
       if (role === 'architect') {
@@ -725,13 +752,14 @@ describe('PipelineEngine review feedback file', () => {
     expect(result.completed).toBe(true);
     expect(result.retries).toBe(1);
 
-    const reviewContent = await readFile(join(BRAIN_DIR, 'REVIEW.md'), 'utf-8');
+    const reviewContent = await readFile(join(BRAIN_DIR, 'reviews', 'build-feature.md'), 'utf-8');
     expect(reviewContent).toContain('REVISE');
     expect(reviewContent).toContain('4/10');
     expect(reviewContent).toContain('Missing error handling');
     expect(reviewContent).toContain('src/api.ts');
     expect(reviewContent).toContain('Unused import');
-    expect(logs.some(l => l.includes('Wrote review feedback to .brain/REVIEW.md'))).toBe(true);
+    expect(logs.some(l => l.includes('Wrote review feedback to .brain/reviews/build-feature.md'))).toBe(true);
+    expect(existsSync(join(BRAIN_DIR, 'REVIEW.md'))).toBe(false);
   });
 
   test('writes REVIEW.md with structured feedback on REDESIGN', async () => {
@@ -789,7 +817,7 @@ describe('PipelineEngine builder/architect retry prompts', () => {
     await rm(TEST_PROJECT, { recursive: true, force: true });
   });
 
-  test('builder retry prompt includes REVIEW.md instruction after REVISE', async () => {
+  test('builder retry prompt points at the task\'s review file after REVISE', async () => {
     let reviewCount = 0;
     const taskArgs: { role: string; task: string }[] = [];
     const runner: PipelineRunnerFn = vi.fn(async (role: string, _project: string, task: string) => {
@@ -823,10 +851,10 @@ describe('PipelineEngine builder/architect retry prompts', () => {
       task: 'build something',
     });
 
-    // The second builder call should include REVIEW.md instruction
+    // The second builder call should point at the task's review file
     const secondBuilderCall = taskArgs.filter(t => t.role === 'builder')[1];
     expect(secondBuilderCall).toBeDefined();
-    expect(secondBuilderCall!.task).toContain('REVIEW.md');
+    expect(secondBuilderCall!.task).toContain('Read .brain/reviews/build-feature.md FIRST');
     expect(secondBuilderCall!.task).toContain('fix all listed issues');
   });
 
@@ -1034,3 +1062,1319 @@ describe('PipelineEngine event bus', () => {
     expect((escalated[0] as Extract<PipelineEvent, { type: 'review.escalated' }>).verdict).toBe('REVISE');
   });
 });
+
+describe('PipelineEngine parallel tasks', () => {
+  beforeEach(async () => {
+    await mkdir(BRAIN_DIR, { recursive: true });
+    execFileSync('git', ['init'], { cwd: TEST_PROJECT });
+    execFileSync('git', ['config', 'user.email', 'test@test.com'], { cwd: TEST_PROJECT });
+    execFileSync('git', ['config', 'user.name', 'Test'], { cwd: TEST_PROJECT });
+    await writeFile(join(BRAIN_DIR, 'PROJECT.md'), '# Project\n\nBootstrapped context with enough content to exceed the threshold check.');
+    await writeFile(join(TEST_PROJECT, 'initial.txt'), 'init');
+    await writeFile(join(TEST_PROJECT, '.gitignore'), '.brain/\n');
+    execFileSync('git', ['add', '.'], { cwd: TEST_PROJECT });
+    execFileSync('git', ['commit', '-m', 'init'], { cwd: TEST_PROJECT });
+  });
+
+  afterEach(async () => {
+    await rm(TEST_PROJECT, { recursive: true, force: true });
+  });
+
+  test('builds independent tasks concurrently in worktrees and merges approved work', async () => {
+    await writeFile(join(BRAIN_DIR, 'PLAN.md'), '# Plan\n\n- [ ] T1: Add alpha\n- [ ] T2: Add beta\n- [ ] T3: Wire both (depends: T1, T2)\n');
+
+    let activeBuilders = 0;
+    let maxActiveBuilders = 0;
+    const builderCwds: string[] = [];
+    const runner: PipelineRunnerFn = vi.fn(async (role: string, cwd: string, task: string) => {
+      if (role === 'builder') {
+        builderCwds.push(cwd);
+        activeBuilders++;
+        maxActiveBuilders = Math.max(maxActiveBuilders, activeBuilders);
+        await new Promise(resolve => setTimeout(resolve, 20));
+        const name = task.includes('Add alpha') ? 'alpha' : task.includes('Add beta') ? 'beta' : 'wire';
+        await writeFile(join(cwd, `${name}.txt`), name);
+        activeBuilders--;
+      }
+      if (role === 'reviewer') {
+        return {
+          agentName: role, sandboxed: false, mode: 'standalone' as const, turnCount: 1,
+          structuredOutput: { verdict: 'APPROVE', score: 9, summary: 'ok', issues: [], patternsCompliance: true },
+        };
+      }
+      return { agentName: role, sandboxed: false, mode: 'standalone' as const, turnCount: 1 };
+    });
+
+    const engine = new PipelineEngine({ runner, log: () => {}, maxParallelTasks: 2 });
+    const result = await engine.run({
+      stages: [{ agent: 'builder', teams: false }, { agent: 'reviewer', teams: false }],
+      project: TEST_PROJECT,
+      task: 'build things',
+    });
+
+    expect(result.completed).toBe(true);
+    expect(maxActiveBuilders).toBe(2);
+    expect(builderCwds.every(cwd => cwd.includes(join('.brain', 'worktrees')))).toBe(true);
+
+    // Merged work is on the pipeline branch, worktrees are cleaned up
+    const state = await readPipelineState(TEST_PROJECT);
+    const show = (file: string) => execFileSync('git', ['show', `${state!.branch}:${file}`], { cwd: TEST_PROJECT, encoding: 'utf-8' });
+    expect(show('alpha.txt')).toBe('alpha');
+    expect(show('beta.txt')).toBe('beta');
+    expect(show('wire.txt')).toBe('wire');
+    expect(await readdir(join(BRAIN_DIR, 'worktrees'))).toEqual([]);
+
+    const plan = await readFile(join(BRAIN_DIR, 'PLAN.md'), 'utf-8');
+    expect(plan).toContain('- [x] T1: Add alpha');
+    expect(plan).toContain('- [x] T3: Wire both (depends: T1, T2)');
+
+    expect(state!.tasks.every(t => t.status === 'completed')).toBe(true);
+    expect(state!.inFlightTaskIndexes).toEqual([]);
+  });
+
+  test('sends each revised task its own review feedback', async () => {
+    await writeFile(join(BRAIN_DIR, 'PLAN.md'), '# Plan\n\n- [ ] T1: Add alpha\n- [ ] T2: Add beta\n');
+
+    const reviewed = new Set<string>();
+    const retries: Array<{ name: string; task: string; feedback: string }> = [];
+    const runner: PipelineRunnerFn = vi.fn(async (role: string, cwd: string, task: string) => {
+      const name = task.includes('Add alpha') ? 'alpha' : 'beta';
+      if (role === 'builder') {
+        if (reviewed.has(name)) {
+          retries.push({ name, task, feedback: await readFile(join(cwd, '.brain', 'reviews', `add-${name}.md`), 'utf-8') });
+        }
+        await writeFile(join(cwd, `${name}.txt`), name);
+        // Both first attempts are reviewed before either retry starts
+        await new Promise(resolve => setTimeout(resolve, 20));
+      }
+      if (role === 'reviewer') {
+        const first = !reviewed.has(name);
+        reviewed.add(name);
+        return {
+          agentName: role, sandboxed: false, mode: 'standalone' as const, turnCount: 1,
+          structuredOutput: {
+            verdict: first ? 'REVISE' : 'APPROVE', score: first ? 4 : 9, summary: `${name} review`,
+            issues: first ? [{ severity: 'major', description: `Fix the ${name} file` }] : [], patternsCompliance: true,
+          },
+        };
+      }
+      return { agentName: role, sandboxed: false, mode: 'standalone' as const, turnCount: 1 };
+    });
+
+    const engine = new PipelineEngine({ runner, log: () => {}, maxParallelTasks: 2, gitBranches: false });
+    const result = await engine.run({
+      stages: [{ agent: 'builder', teams: false }, { agent: 'reviewer', teams: false }],
+      project: TEST_PROJECT,
+      task: 'build things',
+    });
+
+    expect(result.completed).toBe(true);
+    expect(retries.map(r => r.name).sort()).toEqual(['alpha', 'beta']);
+    for (const { name, task, feedback } of retries) {
+      const other = name === 'alpha' ? 'beta' : 'alpha';
+      expect(task).toContain(`Read .brain/reviews/add-${name}.md FIRST`);
+      expect(feedback).toContain(`Fix the ${name} file`);
+      expect(feedback).not.toContain(`Fix the ${other} file`);
+    }
+  });
+
+  test('falls back to sequential when the project is not a git repo', async () => {
+    await rm(join(TEST_PROJECT, '.git'), { recursive: true, force: true });
+    const runner = makeRalphRunner([]);
+    await writeFile(join(BRAIN_DIR, 'PLAN.md'), '- [ ] T1: A\n- [ ] T2: B\n');
+
+    const logs: string[] = [];
+    const engine = new PipelineEngine({ runner, log: (m) => logs.push(m), maxParallelTasks: 3 });
+    const result = await engine.run({
+      stages: [{ agent: 'builder', teams: false }, { agent: 'reviewer', teams: false }],
+      project: TEST_PROJECT,
+      task: 'build things',
+    });
+
+    expect(result.completed).toBe(true);
+    expect(logs.some(l => l.includes('running sequentially'))).toBe(true);
+  });
+});
+
+describe('PipelineEngine task dependency graph', () => {
+  beforeEach(async () => {
+    await mkdir(BRAIN_DIR, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(TEST_PROJECT, { recursive: true, force: true });
+  });
+
+  test('architect validation rejects a plan with a dependency cycle', async () => {
+    const runner: PipelineRunnerFn = vi.fn(async (role: string) => {
+      if (role === 'architect') {
+        await writeFile(join(BRAIN_DIR, 'PLAN.md'), '- [ ] T1: A (depends: T2)\n- [ ] T2: B (depends: T1)\n');
+      }
+      return { agentName: role, sandboxed: false, mode: 'standalone' as const, turnCount: 1 };
+    });
+
+    const engine = new PipelineEngine({ runner, log: () => {} });
+    const result = await engine.run({
+      stages: [{ agent: 'architect', teams: false }, { agent: 'builder', teams: false }],
+      project: TEST_PROJECT,
+      task: 'build something',
+    });
+
+    expect(result.completed).toBe(false);
+    expect(result.finalVerdict).toContain('cycle');
+  });
+
+  test('a failed task blocks its dependents while independent tasks still run', async () => {
+    await writeFile(join(BRAIN_DIR, 'PLAN.md'), '- [ ] T1: Flaky\n- [ ] T2: Needs flaky (depends: T1)\n- [ ] T3: Independent\n');
+
+    const builtTasks: string[] = [];
+    let currentTask = '';
+    const runner: PipelineRunnerFn = vi.fn(async (role: string, _project: string, task: string) => {
+      if (role === 'builder') {
+        currentTask = ['Flaky', 'Needs flaky', 'Independent'].find(t => task.includes(`"${t}"`))!;
+        builtTasks.push(currentTask);
+      }
+      if (role === 'reviewer') {
+        const verdict = currentTask === 'Flaky' ? 'REVISE' : 'APPROVE';
+        return {
+          agentName: role, sandboxed: false, mode: 'standalone' as const, turnCount: 1,
+          structuredOutput: { verdict, score: verdict === 'APPROVE' ? 9 : 4, summary: 'r', issues: [], patternsCompliance: true },
+        };
+      }
+      return { agentName: role, sandboxed: false, mode: 'standalone' as const, turnCount: 1 };
+    });
+
+    const engine = new PipelineEngine({ runner, log: () => {}, maxRetries: 1 });
+    const result = await engine.run({
+      stages: [{ agent: 'builder', teams: false }, { agent: 'reviewer', teams: false }],
+      project: TEST_PROJECT,
+      task: 'build something',
+    });
+
+    expect(result.completed).toBe(false);
+    expect(result.finalVerdict).toBe('REVISE');
+    expect(builtTasks).toEqual(['Flaky', 'Flaky', 'Independent']);
+
+    const plan = await readFile(join(BRAIN_DIR, 'PLAN.md'), 'utf-8');
+    expect(plan).toContain('- [x] T3: Independent');
+
+    const state = await readPipelineState(TEST_PROJECT);
+    expect(state!.tasks.map(t => t.status)).toEqual(['failed', 'blocked', 'completed']);
+    expect(state!.error).toContain('"Flaky"');
+  });
+});
+
+describe('PipelineEngine resume', () => {
+  beforeEach(async () => {
+    await mkdir(BRAIN_DIR, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(TEST_PROJECT, { recursive: true, force: true });
+  });
+
+  test('skips completed pre-loop stages and continues the Ralph loop with saved progress', async () => {
+    await writePlan(['Task A', 'Task B', 'Task C'], ['Task A']);
+    const now = Date.now();
+    await writeFile(join(BRAIN_DIR, 'pipeline-state.json'), JSON.stringify({
+      project: TEST_PROJECT,
+      task: 'build something',
+      agentPipeline: ['architect', 'builder', 'reviewer'],
+      status: 'stalled',
+      phase: 'building',
+      startedAt: now - 60 * 60 * 1000,
+      updatedAt: now - 45 * 60 * 1000,
+      tasks: [
+        { title: 'Task A', status: 'completed', attempts: 1, completedAt: now - 50 * 60 * 1000 },
+        { title: 'Task B', status: 'in_progress', attempts: 2, lastVerdict: 'REVISE', lastSessionId: 'sess-b' },
+        { title: 'Task C', status: 'pending', attempts: 0 },
+      ],
+      currentTaskIndex: 1,
+      totalIterations: 3,
+      retries: 1,
+      completedStages: ['architect'],
+      redesignCount: 0,
+    }));
+
+    const runner = makeRalphRunner(['Replanned']);
+    const engine = new PipelineEngine({ runner, log: () => {}, maxRetries: 3 });
+    const result = await engine.resume(TEST_PROJECT);
+
+    expect(result.completed).toBe(true);
+    const roles = vi.mocked(runner).mock.calls.map(c => c[0]);
+    expect(roles).toEqual(['builder', 'reviewer', 'builder', 'reviewer']);
+
+    const state = await readPipelineState(TEST_PROJECT);
+    expect(state!.status).toBe('completed');
+    expect(state!.totalIterations).toBe(5);
+    expect(state!.tasks[0]!.attempts).toBe(1);
+    expect(state!.tasks[1]).toMatchObject({ status: 'completed', attempts: 3, lastSessionId: 'sess-b' });
+    expect(state!.tasks[2]).toMatchObject({ status: 'completed', attempts: 1 });
+  });
+
+  test('records completed pre-loop stages so a resume does not re-run them', async () => {
+    const runner = makeRalphRunner(['Task A']);
+    const engine = new PipelineEngine({ runner, log: () => {} });
+    await engine.run({
+      stages: [{ agent: 'architect', teams: false }, { agent: 'builder', teams: false }, { agent: 'reviewer', teams: false }],
+      project: TEST_PROJECT,
+      task: 'build something',
+    });
+
+    const state = await readPipelineState(TEST_PROJECT);
+    expect(state!.completedStages).toEqual(['architect']);
+  });
+
+  test('passes stage model and turn overrides to the runner and keeps them for resume', async () => {
+    const runner = makeRalphRunner(['Task A']);
+    const engine = new PipelineEngine({ runner, log: () => {} });
+    await engine.run({
+      stages: [
+        { agent: 'architect', teams: false, model: 'opus' },
+        { agent: 'builder', teams: false, maxTurns: 80 },
+        { agent: 'reviewer', teams: false },
+      ],
+      project: TEST_PROJECT,
+      task: 'build something',
+    });
+
+    const options = Object.fromEntries(vi.mocked(runner).mock.calls.map(c => [c[0], c[3]]));
+    expect(options['architect']).toMatchObject({ model: 'opus' });
+    expect(options['builder']).toMatchObject({ maxTurns: 80 });
+    expect(options['builder']!.model).toBeUndefined();
+    expect(options['reviewer']!.maxTurns).toBeUndefined();
+
+    const state = await readPipelineState(TEST_PROJECT);
+    expect(state!.stageOptions).toEqual({ architect: { model: 'opus' }, builder: { maxTurns: 80 } });
+  });
+
+  test('refuses to resume without state or after completion', async () => {
+    const engine = new PipelineEngine({ runner: makeRalphRunner([]), log: () => {} });
+    await expect(engine.resume(TEST_PROJECT)).rejects.toThrow('No pipeline state found');
+
+    await writeFile(join(BRAIN_DIR, 'pipeline-state.json'), JSON.stringify({
+      project: TEST_PROJECT, task: 'done already', agentPipeline: ['builder'],
+      status: 'completed', phase: 'completed', startedAt: 0, updatedAt: 0,
+      tasks: [], currentTaskIndex: -1, totalIterations: 0, retries: 0,
+    }));
+    await expect(engine.resume(TEST_PROJECT)).rejects.toThrow('was completed');
+  });
+});
+
+describe('PipelineEngine cancel and pause', () => {
+  beforeEach(async () => {
+    await mkdir(BRAIN_DIR, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(TEST_PROJECT, { recursive: true, force: true });
+  });
+
+  /** Runner whose builder stops the pipeline with the given reason and then hangs until aborted. */
+  function makeStoppingRunner(controller: AbortController, reason: string): PipelineRunnerFn {
+    return vi.fn(async (role: string, _project: string, _task: string, options) => {
+      if (role === 'builder') {
+        controller.abort(reason);
+        return new Promise((_, reject) => {
+          options.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+        });
+      }
+      return { agentName: role, sandboxed: false, mode: 'standalone' as const, turnCount: 1 };
+    });
+  }
+
+  test('pause stops the running agent and a resume continues the same task', async () => {
+    await writePlan(['Task A', 'Task B']);
+    const events: PipelineEvent[] = [];
+    const eventBus = new EventBus();
+    eventBus.on('*', e => events.push(e));
+
+    const controller = new AbortController();
+    const engine = new PipelineEngine({ runner: makeStoppingRunner(controller, 'pause'), log: () => {}, eventBus });
+    const result = await engine.run({
+      stages: [{ agent: 'builder', teams: false }, { agent: 'reviewer', teams: false }],
+      project: TEST_PROJECT,
+      task: 'build something',
+      signal: controller.signal,
+    });
+
+    expect(result).toMatchObject({ completed: false, finalVerdict: 'PAUSED' });
+    const state = await readPipelineState(TEST_PROJECT);
+    expect(state!.status).toBe('paused');
+    expect(state!.tasks[0]).toMatchObject({ status: 'pending', attempts: 0 });
+    expect(await readFile(join(BRAIN_DIR, 'PLAN.md'), 'utf-8')).not.toContain('[x]');
+    expect(events.find(e => e.type === 'pipeline.halted')).toMatchObject({ reason: 'pause' });
+    expect(events.some(e => e.type === 'pipeline.completed')).toBe(false);
+
+    const resumed = await new PipelineEngine({ runner: makeRalphRunner([]), log: () => {} }).resume(TEST_PROJECT);
+    expect(resumed.completed).toBe(true);
+    const finalState = await readPipelineState(TEST_PROJECT);
+    expect(finalState!.tasks.map(t => t.attempts)).toEqual([1, 1]);
+  });
+
+  test('cancel marks the pipeline cancelled and it cannot be resumed', async () => {
+    await writePlan(['Task A']);
+    const controller = new AbortController();
+    const engine = new PipelineEngine({ runner: makeStoppingRunner(controller, 'cancel'), log: () => {} });
+    const result = await engine.run({
+      stages: [{ agent: 'builder', teams: false }, { agent: 'reviewer', teams: false }],
+      project: TEST_PROJECT,
+      task: 'build something',
+      signal: controller.signal,
+    });
+
+    expect(result.finalVerdict).toBe('CANCELLED');
+    const state = await readPipelineState(TEST_PROJECT);
+    expect(state!.status).toBe('cancelled');
+    await expect(engine.resume(TEST_PROJECT)).rejects.toThrow('was cancelled');
+  });
+
+  test('removes in-flight worktrees when a parallel batch is cancelled', async () => {
+    const git = (...args: string[]) => execFileSync('git', args, { cwd: TEST_PROJECT, stdio: 'pipe' });
+    git('init');
+    git('config', 'user.email', 'test@test.com');
+    git('config', 'user.name', 'Test');
+    await writeFile(join(TEST_PROJECT, '.gitignore'), '.brain/\n');
+    git('add', '.');
+    git('commit', '-m', 'init');
+    await writeFile(join(BRAIN_DIR, 'PLAN.md'), '- [ ] T1: One\n- [ ] T2: Two\n');
+
+    const controller = new AbortController();
+    const engine = new PipelineEngine({ runner: makeStoppingRunner(controller, 'cancel'), log: () => {}, maxParallelTasks: 2 });
+    const result = await engine.run({
+      stages: [{ agent: 'builder', teams: false }, { agent: 'reviewer', teams: false }],
+      project: TEST_PROJECT,
+      task: 'build something',
+      signal: controller.signal,
+    });
+
+    expect(result.finalVerdict).toBe('CANCELLED');
+    expect(await readdir(join(BRAIN_DIR, 'worktrees'))).toEqual([]);
+    expect(execFileSync('git', ['branch', '--list', 'codename/task-*'], { cwd: TEST_PROJECT, encoding: 'utf-8' }).trim()).toBe('');
+    const state = await readPipelineState(TEST_PROJECT);
+    expect(state!.tasks.every(t => t.status === 'pending' && t.branch === undefined)).toBe(true);
+  });
+});
+
+describe('PipelineEngine stage descriptors', () => {
+  beforeEach(async () => {
+    await mkdir(BRAIN_DIR, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(TEST_PROJECT, { recursive: true, force: true });
+  });
+
+  test('runs custom per-task stages between builder and reviewer on every task', async () => {
+    await writePlan(['Task A', 'Task B']);
+    const calls: string[] = [];
+    const runner: PipelineRunnerFn = vi.fn(async (role: string) => {
+      calls.push(role);
+      if (role === 'reviewer') await writeFile(join(BRAIN_DIR, 'REVIEW.md'), 'Verdict: APPROVE\n');
+      return { agentName: role, sandboxed: false, mode: 'standalone' as const, turnCount: 1 };
+    });
+    const engine = new PipelineEngine({
+      runner, log: () => {},
+      stageDescriptors: { 'security-auditor': { kind: 'per-task', prompt: 'Audit the change.' } },
+    });
+
+    const result = await engine.run({
+      stages: [{ agent: 'builder', teams: false }, { agent: 'security-auditor', teams: false }, { agent: 'reviewer', teams: false }],
+      project: TEST_PROJECT,
+      task: 'build something',
+    });
+
+    expect(result.completed).toBe(true);
+    expect(calls).toEqual(['builder', 'security-auditor', 'reviewer', 'builder', 'security-auditor', 'reviewer']);
+  });
+
+  test('fails the pipeline when a custom pre-loop stage fails validation', async () => {
+    const runner = makeRalphRunner(['Task A']);
+    const engine = new PipelineEngine({
+      runner, log: () => {},
+      stageDescriptors: { migrator: { kind: 'pre-loop', validate: { outputs: ['.brain/MIGRATION.md'] } } },
+    });
+
+    const result = await engine.run({
+      stages: [{ agent: 'migrator', teams: false }, { agent: 'builder', teams: false }, { agent: 'reviewer', teams: false }],
+      project: TEST_PROJECT,
+      task: 'migrate the database',
+    });
+
+    expect(result.completed).toBe(false);
+    expect(result.finalVerdict).toBe('VALIDATION_FAILED: migrator did not produce .brain/MIGRATION.md');
+    expect(runner).toHaveBeenCalledTimes(1);
+  });
+
+  test('tells later stages about handoff artifacts and sends the output schema', async () => {
+    await writePlan(['Task A']);
+    const prompts: Record<string, string> = {};
+    const schemas: Record<string, unknown> = {};
+    const runner: PipelineRunnerFn = vi.fn(async (role: string, _project, task, options) => {
+      prompts[role] = task;
+      schemas[role] = options.outputSchema;
+      if (role === 'reviewer') await writeFile(join(BRAIN_DIR, 'REVIEW.md'), 'Verdict: APPROVE\n');
+      const structuredOutput = role === 'threat-modeler' ? { risk: 'low' } : undefined;
+      return { agentName: role, sandboxed: false, mode: 'standalone' as const, turnCount: 1, structuredOutput };
+    });
+    const schema = { type: 'object', required: ['risk'] };
+    const engine = new PipelineEngine({
+      runner, log: () => {},
+      stageDescriptors: {
+        'threat-modeler': { kind: 'pre-loop', prompt: 'Model the threats.', handoff: ['.brain/THREATS.md'], validate: { schema } },
+      },
+    });
+
+    const result = await engine.run({
+      stages: [{ agent: 'threat-modeler', teams: false }, { agent: 'builder', teams: false }, { agent: 'reviewer', teams: false }],
+      project: TEST_PROJECT,
+      task: 'add payments',
+    });
+
+    expect(result.completed).toBe(true);
+    expect(prompts['threat-modeler']).toBe('Model the threats.\n\nTask: add payments');
+    expect(prompts['builder']).toContain('read them first: .brain/THREATS.md');
+    expect(schemas['threat-modeler']).toEqual(schema);
+    expect(schemas['reviewer']).toBeDefined();
+  });
+
+  test('runs post-loop stages once after every task is approved', async () => {
+    await writePlan(['Task A', 'Task B']);
+    const calls: string[] = [];
+    const runner: PipelineRunnerFn = vi.fn(async (role: string) => {
+      calls.push(role);
+      if (role === 'reviewer') await writeFile(join(BRAIN_DIR, 'REVIEW.md'), 'Verdict: APPROVE\n');
+      return { agentName: role, sandboxed: false, mode: 'standalone' as const, turnCount: 1 };
+    });
+    const engine = new PipelineEngine({
+      runner, log: () => {},
+      stageDescriptors: { 'docs-writer': { kind: 'post-loop', prompt: 'Update the docs.' } },
+    });
+
+    const result = await engine.run({
+      stages: [{ agent: 'builder', teams: false }, { agent: 'reviewer', teams: false }, { agent: 'docs-writer', teams: false }],
+      project: TEST_PROJECT,
+      task: 'build something',
+    });
+
+    expect(result.completed).toBe(true);
+    expect(calls.filter(c => c === 'docs-writer')).toHaveLength(1);
+    expect(calls[calls.length - 1]).toBe('docs-writer');
+    expect((await readPipelineState(TEST_PROJECT))!.completedStages).toEqual(['docs-writer']);
+  });
+});
+
+describe('PipelineEngine post-loop stages', () => {
+  beforeEach(async () => {
+    await mkdir(BRAIN_DIR, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(TEST_PROJECT, { recursive: true, force: true });
+  });
+
+  const integration = (verdict: 'APPROVE' | 'REVISE', reopenTasks: string[] = []) => ({
+    verdict, summary: 'auth and sessions disagree on token format', reopenTasks,
+    issues: [{ severity: 'major' as const, description: 'token format mismatch', file: 'src/auth.ts' }],
+  });
+
+  /** Builder/reviewer approve everything; the integration reviewer returns the given verdicts in turn. */
+  function makeIntegrationRunner(verdicts: ReturnType<typeof integration>[], calls: Array<{ role: string; task: string }>): PipelineRunnerFn {
+    return vi.fn(async (role: string, _project: string, task: string) => {
+      calls.push({ role, task });
+      if (role === 'reviewer') await writeFile(join(BRAIN_DIR, 'REVIEW.md'), 'Verdict: APPROVE\n');
+      if (role === 'release-notes') await writeFile(join(TEST_PROJECT, 'CHANGELOG.md'), '# Changelog\n');
+      const structuredOutput = role === 'integration-reviewer' ? verdicts.shift() : undefined;
+      return { agentName: role, sandboxed: false, mode: 'standalone' as const, turnCount: 1, structuredOutput };
+    });
+  }
+
+  const stages: PipelineStage[] = [
+    { agent: 'builder', teams: false },
+    { agent: 'reviewer', teams: false },
+    { agent: 'integration-reviewer', teams: false },
+    { agent: 'release-notes', teams: false },
+  ];
+
+  test('runs the integration review and release notes once every task is approved', async () => {
+    await writePlan(['Add auth', 'Add sessions']);
+    const calls: Array<{ role: string; task: string }> = [];
+    const engine = new PipelineEngine({ runner: makeIntegrationRunner([integration('APPROVE')], calls), log: () => {} });
+
+    const result = await engine.run({ stages, project: TEST_PROJECT, task: 'add login' });
+
+    expect(result.completed).toBe(true);
+    expect(calls.map(c => c.role).slice(-2)).toEqual(['integration-reviewer', 'release-notes']);
+    expect(calls.find(c => c.role === 'integration-reviewer')!.task).toContain('complete change set');
+  });
+
+  test('reopens the tasks an integration review sends back, then reviews again', async () => {
+    await writePlan(['Add auth', 'Add sessions']);
+    const calls: Array<{ role: string; task: string }> = [];
+    const runner = makeIntegrationRunner([integration('REVISE', ['Add auth']), integration('APPROVE')], calls);
+    const engine = new PipelineEngine({ runner, log: () => {} });
+
+    const result = await engine.run({ stages, project: TEST_PROJECT, task: 'add login' });
+
+    expect(result.completed).toBe(true);
+    expect(calls.map(c => c.role)).toEqual([
+      'builder', 'reviewer', 'builder', 'reviewer', 'integration-reviewer',
+      'builder', 'reviewer', 'integration-reviewer', 'release-notes',
+    ]);
+    // The rebuilt task is pointed at the integration feedback
+    expect(calls[5]!.task).toContain('"Add auth"');
+    expect(calls[5]!.task).toContain('Read .brain/reviews/add-auth.md FIRST');
+    const state = await readPipelineState(TEST_PROJECT);
+    expect(state!.integrationRounds).toBe(1);
+    expect(state!.tasks.every(t => t.status === 'completed' && !t.reopened)).toBe(true);
+  });
+
+  test('adds a fix-up task when the review names no task to reopen', async () => {
+    await writePlan(['Add auth']);
+    const calls: Array<{ role: string; task: string }> = [];
+    const runner = makeIntegrationRunner([integration('REVISE', ['Not a task']), integration('APPROVE')], calls);
+    const engine = new PipelineEngine({ runner, log: () => {} });
+
+    const result = await engine.run({ stages, project: TEST_PROJECT, task: 'add login' });
+
+    expect(result.completed).toBe(true);
+    const plan = await readFile(join(BRAIN_DIR, 'PLAN.md'), 'utf-8');
+    expect(plan).toContain('- [x] Address integration review (round 1)');
+  });
+
+  test('fails after maxRetries integration rounds', async () => {
+    await writePlan(['Add auth']);
+    const calls: Array<{ role: string; task: string }> = [];
+    const verdicts = [integration('REVISE', ['Add auth']), integration('REVISE', ['Add auth'])];
+    const engine = new PipelineEngine({ runner: makeIntegrationRunner(verdicts, calls), log: () => {}, maxRetries: 1 });
+
+    const result = await engine.run({ stages, project: TEST_PROJECT, task: 'add login' });
+
+    expect(result.completed).toBe(false);
+    expect(result.finalVerdict).toBe('REVISE');
+    expect(calls.some(c => c.role === 'release-notes')).toBe(false);
+    const state = await readPipelineState(TEST_PROJECT);
+    expect(state!.error).toContain('Integration review still requested changes after 1 round(s)');
+  });
+
+  test('an integration review without structured output fails validation', async () => {
+    await writePlan(['Add auth']);
+    const engine = new PipelineEngine({ runner: makeIntegrationRunner([], []), log: () => {} });
+
+    const result = await engine.run({ stages, project: TEST_PROJECT, task: 'add login' });
+
+    expect(result.finalVerdict).toBe('VALIDATION_FAILED: integration-reviewer returned no structured output');
+  });
+});
+
+describe('PipelineEngine review feedback', () => {
+  beforeEach(async () => {
+    await mkdir(BRAIN_DIR, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(TEST_PROJECT, { recursive: true, force: true });
+  });
+
+  test('persists review issues per task and puts them in the next Builder and Reviewer prompts', async () => {
+    await writePlan(['Add auth']);
+    const prompts: Array<{ role: string; task: string }> = [];
+    const verdicts = ['REVISE', 'APPROVE'];
+    const runner: PipelineRunnerFn = vi.fn(async (role: string, _project: string, task: string) => {
+      prompts.push({ role, task });
+      if (role !== 'reviewer') return { agentName: role, sandboxed: false, mode: 'standalone' as const, turnCount: 1 };
+      const verdict = verdicts.shift()!;
+      const issues = verdict === 'REVISE'
+        ? [{ severity: 'critical', description: 'Passwords are stored in plain text', file: 'src/auth.ts' }, { severity: 'nit', description: 'Typo in comment' }]
+        : [];
+      return {
+        agentName: role, sandboxed: false, mode: 'standalone' as const, turnCount: 1,
+        structuredOutput: { verdict, score: verdict === 'APPROVE' ? 9 : 4, summary: 's', issues, patternsCompliance: true },
+      };
+    });
+    const engine = new PipelineEngine({ runner, log: () => {} });
+
+    const result = await engine.run({
+      stages: [{ agent: 'builder', teams: false }, { agent: 'reviewer', teams: false }],
+      project: TEST_PROJECT,
+      task: 'add auth',
+    });
+
+    expect(result.completed).toBe(true);
+    expect(prompts.map(p => p.role)).toEqual(['builder', 'reviewer', 'builder', 'reviewer']);
+    expect(prompts[0]!.task).not.toContain('The review raised these issues');
+    expect(prompts[2]!.task).toContain('The review raised these issues — fix every one:\n1. **[critical]** Passwords are stored in plain text (src/auth.ts)\n2. **[nit]** Typo in comment');
+    expect(prompts[3]!.task).toContain('Verify each one is resolved');
+    expect(prompts[3]!.task).toContain('1. **[critical]** Passwords are stored in plain text (src/auth.ts)');
+
+    const state = await readPipelineState(TEST_PROJECT);
+    expect(state!.tasks[0]!.reviews!.map(r => [r.attempt, r.verdict, r.issues.length])).toEqual([[1, 'REVISE', 2], [2, 'APPROVE', 0]]);
+  });
+});
+
+describe('PipelineEngine review policy', () => {
+  beforeEach(async () => {
+    await mkdir(BRAIN_DIR, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(TEST_PROJECT, { recursive: true, force: true });
+  });
+
+  test('turns an APPROVE that breaks the policy into REVISE and records why', async () => {
+    await writePlan(['Add auth']);
+    const scores = [5, 9];
+    const runner: PipelineRunnerFn = vi.fn(async (role: string) => {
+      if (role !== 'reviewer') return { agentName: role, sandboxed: false, mode: 'standalone' as const, turnCount: 1 };
+      return {
+        agentName: role, sandboxed: false, mode: 'standalone' as const, turnCount: 1,
+        structuredOutput: { verdict: 'APPROVE', score: scores.shift(), summary: 's', issues: [], patternsCompliance: true },
+      };
+    });
+    const events: PipelineEvent[] = [];
+    const eventBus = new EventBus();
+    eventBus.on('review.escalated', e => events.push(e));
+    const reviewPolicy = vi.fn(() => ({ minScore: 8 }));
+    const engine = new PipelineEngine({ runner, log: () => {}, eventBus, reviewPolicy });
+
+    const result = await engine.run({
+      stages: [{ agent: 'builder', teams: false }, { agent: 'reviewer', teams: false }],
+      project: TEST_PROJECT,
+      task: 'add auth',
+    });
+
+    expect(result.completed).toBe(true);
+    expect(reviewPolicy).toHaveBeenCalledWith(TEST_PROJECT);
+    const state = await readPipelineState(TEST_PROJECT);
+    expect(state!.tasks[0]!.attempts).toBe(2);
+    expect(state!.tasks[0]!.reviews![0]).toMatchObject({ verdict: 'REVISE', overrideReason: 'score 5 is below the minimum of 8' });
+    expect(events).toEqual([expect.objectContaining({ verdict: 'REVISE', overrideReason: 'score 5 is below the minimum of 8' })]);
+    expect(await readFile(join(BRAIN_DIR, 'reviews', 'add-auth.md'), 'utf-8')).toContain('**Review policy:** not approved — score 5 is below the minimum of 8');
+  });
+});
+
+describe('PipelineEngine consensus review', () => {
+  beforeEach(async () => {
+    await mkdir(BRAIN_DIR, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(TEST_PROJECT, { recursive: true, force: true });
+  });
+
+  test('runs every reviewer, combines their reviews and reports disagreement', async () => {
+    await writePlan(['Add auth']);
+    const verdicts: Record<string, string[]> = { reviewer: ['APPROVE', 'APPROVE'], 'security-reviewer': ['REVISE', 'APPROVE'] };
+    const runner: PipelineRunnerFn = vi.fn(async (role: string) => {
+      const verdict = verdicts[role]?.shift();
+      if (!verdict) return { agentName: role, sandboxed: false, mode: 'standalone' as const, turnCount: 1 };
+      return {
+        agentName: role, sandboxed: false, mode: 'standalone' as const, turnCount: 1,
+        structuredOutput: {
+          verdict, score: verdict === 'APPROVE' ? 9 : 5, summary: `${role} says ${verdict}`, patternsCompliance: true,
+          issues: verdict === 'APPROVE' ? [] : [{ severity: 'critical', file: 'src/auth.ts', description: 'Token logged' }],
+        },
+      };
+    });
+    const events: PipelineEvent[] = [];
+    const eventBus = new EventBus();
+    eventBus.on('review.disagreement', e => events.push(e));
+    const reviewPolicy = () => ({
+      consensus: { reviewers: [{ agent: 'reviewer' }, { agent: 'security-reviewer', model: 'opus' }], rule: 'unanimous' as const },
+    });
+    const engine = new PipelineEngine({ runner, log: () => {}, eventBus, reviewPolicy });
+
+    const result = await engine.run({
+      stages: [{ agent: 'builder', teams: false }, { agent: 'reviewer', teams: false }],
+      project: TEST_PROJECT,
+      task: 'add auth',
+    });
+
+    expect(result.completed).toBe(true);
+    expect(runner).toHaveBeenCalledWith('security-reviewer', TEST_PROJECT, expect.any(String), expect.objectContaining({ model: 'opus' }));
+    const state = await readPipelineState(TEST_PROJECT);
+    expect(state!.tasks[0]!.reviews![0]).toMatchObject({
+      verdict: 'REVISE', score: 5,
+      consensus: { rule: 'unanimous', disagreement: true, votes: [{ reviewer: 'reviewer', verdict: 'APPROVE', score: 9 }, { reviewer: 'security-reviewer', verdict: 'REVISE', score: 5 }] },
+    });
+    expect(state!.tasks[0]!.reviews![1]!.consensus!.disagreement).toBe(false);
+    expect(events).toEqual([expect.objectContaining({ type: 'review.disagreement', taskTitle: 'Add auth', verdict: 'REVISE' })]);
+    expect(await readFile(join(BRAIN_DIR, 'reviews', 'add-auth.md'), 'utf-8')).toContain('Token logged');
+  });
+
+  test('fails validation when a reviewer gives no structured review', async () => {
+    await writePlan(['Add auth']);
+    const runner: PipelineRunnerFn = vi.fn(async (role: string) => ({
+      agentName: role, sandboxed: false, mode: 'standalone' as const, turnCount: 1,
+      ...(role === 'reviewer' && { structuredOutput: { verdict: 'APPROVE', score: 9, summary: 's', issues: [], patternsCompliance: true } }),
+    }));
+    const reviewPolicy = () => ({ consensus: { reviewers: [{ agent: 'reviewer' }, { agent: 'security-reviewer' }] } });
+    const engine = new PipelineEngine({ runner, log: () => {}, reviewPolicy });
+
+    const result = await engine.run({
+      stages: [{ agent: 'builder', teams: false }, { agent: 'reviewer', teams: false }],
+      project: TEST_PROJECT,
+      task: 'add auth',
+    });
+
+    expect(result.completed).toBe(false);
+    expect(result.finalVerdict).toContain('security-reviewer returned no structured review');
+  });
+});
+
+describe('PipelineEngine approval gates', () => {
+  beforeEach(async () => {
+    await mkdir(BRAIN_DIR, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(TEST_PROJECT, { recursive: true, force: true });
+  });
+
+  /** Records a decision the way `codename approve`/`reject` does. */
+  async function decide(decision: 'approved' | 'rejected', reason?: string) {
+    const state = await readPipelineState(TEST_PROJECT);
+    state!.approval = { ...state!.approval!, decision, ...(reason && { reason }), decidedAt: Date.now() };
+    await writeFile(join(BRAIN_DIR, 'pipeline-state.json'), JSON.stringify(state));
+  }
+
+  const stages: PipelineStage[] = [
+    { agent: 'architect', teams: false },
+    { agent: 'builder', teams: false },
+    { agent: 'reviewer', teams: false },
+  ];
+
+  test('waits after the plan, re-plans with the rejection reason, then builds once approved', async () => {
+    const runner = makeRalphRunner(['Task A']);
+    const events: PipelineEvent[] = [];
+    const eventBus = new EventBus();
+    eventBus.on('approval.requested', e => events.push(e));
+    const engine = new PipelineEngine({ runner, log: () => {}, eventBus, approvalGates: () => ['plan'] });
+
+    const waiting = await engine.run({ stages, project: TEST_PROJECT, task: 'add auth' });
+    expect(waiting).toMatchObject({ completed: false, finalVerdict: 'AWAITING_APPROVAL' });
+    expect((await readPipelineState(TEST_PROJECT))!).toMatchObject({ status: 'awaiting_approval', approval: { gate: 'plan' } });
+    expect(events).toEqual([expect.objectContaining({ gate: 'plan', task: 'add auth' })]);
+
+    await decide('rejected', 'split the login task');
+    expect((await engine.resume(TEST_PROJECT)).finalVerdict).toBe('AWAITING_APPROVAL');
+    const architectTask = vi.mocked(runner).mock.calls[1]!;
+    expect(architectTask[0]).toBe('architect');
+    expect(architectTask[2]).toContain('A human rejected your previous output with this feedback: "split the login task"');
+
+    await decide('approved');
+    const result = await engine.resume(TEST_PROJECT);
+    expect(result.completed).toBe(true);
+    expect(vi.mocked(runner).mock.calls.map(c => c[0])).toEqual(['architect', 'architect', 'builder', 'reviewer']);
+    const state = await readPipelineState(TEST_PROJECT);
+    expect(state!.approval).toBeUndefined();
+    expect(state!.approvals!.map(a => [a.gate, a.decision])).toEqual([['plan', 'rejected'], ['plan', 'approved']]);
+  });
+
+  test('asks before a redesign and keeps the plan when it is rejected', async () => {
+    await writePlan(['Task A']);
+    const verdicts = ['REDESIGN', 'APPROVE'];
+    const runner: PipelineRunnerFn = vi.fn(async (role: string) => ({
+      agentName: role, sandboxed: false, mode: 'standalone' as const, turnCount: 1,
+      ...(role === 'reviewer' && {
+        structuredOutput: { verdict: verdicts.shift(), score: 8, summary: 's', patternsCompliance: true, issues: [{ severity: 'major', description: 'Wrong layering' }] },
+      }),
+    }));
+    const engine = new PipelineEngine({ runner, log: () => {}, approvalGates: () => ['redesign'] });
+
+    const waiting = await engine.run({ stages: stages.slice(1), project: TEST_PROJECT, task: 'add auth' });
+    expect(waiting.finalVerdict).toBe('AWAITING_APPROVAL');
+    expect((await readPipelineState(TEST_PROJECT))!.approval).toMatchObject({ gate: 'redesign', taskTitle: 'Task A' });
+
+    await decide('rejected', 'layering is fine for now');
+    const result = await engine.resume(TEST_PROJECT);
+
+    expect(result.completed).toBe(true);
+    expect(vi.mocked(runner).mock.calls.map(c => c[0])).toEqual(['builder', 'reviewer', 'builder', 'reviewer']);
+    expect(vi.mocked(runner).mock.calls[2]![2]).toContain('Wrong layering');
+    expect(await readFile(join(BRAIN_DIR, 'reviews', 'task-a.md'), 'utf-8')).toContain('A human rejected the redesign, so the plan stays as it is: layering is fine for now');
+  });
+
+  test('a rejected completion adds a task for the feedback and asks again', async () => {
+    await writePlan(['Task A']);
+    const runner = makeRalphRunner([]);
+    const engine = new PipelineEngine({ runner, log: () => {}, approvalGates: () => ['complete'] });
+
+    expect((await engine.run({ stages: stages.slice(1), project: TEST_PROJECT, task: 'add auth' })).finalVerdict).toBe('AWAITING_APPROVAL');
+    await decide('rejected', 'also log failed logins');
+    expect((await engine.resume(TEST_PROJECT)).finalVerdict).toBe('AWAITING_APPROVAL');
+
+    expect(await readFile(join(BRAIN_DIR, 'PLAN.md'), 'utf-8')).toContain('- [x] Address approval feedback (round 1)');
+    expect(vi.mocked(runner).mock.calls[2]![2]).toContain('.brain/reviews/address-approval-feedback-round-1.md');
+
+    await decide('approved');
+    const result = await engine.resume(TEST_PROJECT);
+    expect(result.completed).toBe(true);
+    expect((await readPipelineState(TEST_PROJECT))!.status).toBe('completed');
+  });
+});
+
+describe('PipelineEngine validation commands', () => {
+  beforeEach(async () => {
+    await mkdir(BRAIN_DIR, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(TEST_PROJECT, { recursive: true, force: true });
+  });
+
+  test('a failed required check vetoes APPROVE and its output reaches the Reviewer and the review file', async () => {
+    await writePlan(['Add parser']);
+    await writeFile(join(BRAIN_DIR, 'validation.json'), JSON.stringify({
+      test: 'test -f parser.done || { echo "1 failed: test_parse"; exit 1; }',
+      lint: { command: 'exit 2', required: false },
+    }));
+    let builds = 0;
+    const runner: PipelineRunnerFn = vi.fn(async (role: string) => {
+      if (role === 'builder' && ++builds === 2) await writeFile(join(TEST_PROJECT, 'parser.done'), '');
+      return {
+        agentName: role, sandboxed: false, mode: 'standalone' as const, turnCount: 1,
+        ...(role === 'reviewer' && { structuredOutput: { verdict: 'APPROVE', score: 9, summary: 's', issues: [], patternsCompliance: true } }),
+      };
+    });
+    const engine = new PipelineEngine({ runner, log: () => {} });
+
+    const result = await engine.run({
+      stages: [{ agent: 'builder', teams: false }, { agent: 'reviewer', teams: false }],
+      project: TEST_PROJECT,
+      task: 'add parser',
+    });
+
+    expect(result.completed).toBe(true);
+    const reviewerPrompt = vi.mocked(runner).mock.calls[1]![2];
+    expect(reviewerPrompt).toContain('- FAIL (exit 1) test: `test -f parser.done');
+    expect(reviewerPrompt).toContain('1 failed: test_parse');
+    expect(await readFile(join(BRAIN_DIR, 'reviews', 'add-parser.md'), 'utf-8')).toContain('## Failed Checks');
+
+    const state = await readPipelineState(TEST_PROJECT);
+    expect(state!.tasks[0]!.attempts).toBe(2);
+    expect(state!.tasks[0]!.reviews!.map(r => r.verdict)).toEqual(['REVISE', 'APPROVE']);
+    // The optional lint check failed both times without blocking approval
+    expect(state!.tasks[0]!.checks!.map(c => [c.name, c.passed])).toEqual([['test', true], ['lint', false]]);
+  });
+});
+
+describe('PipelineEngine git integration', () => {
+  const git = (...args: string[]) => execFileSync('git', args, { cwd: TEST_PROJECT, encoding: 'utf-8', stdio: 'pipe' }).trim();
+
+  beforeEach(async () => {
+    await mkdir(BRAIN_DIR, { recursive: true });
+    git('init');
+    git('config', 'user.email', 'test@test.com');
+    git('config', 'user.name', 'Test');
+    await writeFile(join(TEST_PROJECT, '.gitignore'), '.brain/\n');
+    git('add', '.');
+    git('commit', '-m', 'init');
+  });
+
+  afterEach(async () => {
+    await rm(TEST_PROJECT, { recursive: true, force: true });
+  });
+
+  function committingRunner(): PipelineRunnerFn {
+    return vi.fn(async (role: string, cwd: string, task: string) => {
+      if (role === 'builder') {
+        const name = task.includes('Add alpha') ? 'alpha' : 'beta';
+        await writeFile(join(cwd, `${name}.txt`), name);
+      }
+      return {
+        agentName: role, sandboxed: false, mode: 'standalone' as const, turnCount: 1,
+        ...(role === 'reviewer' && { structuredOutput: { verdict: 'APPROVE', score: 9, summary: 'Looks good', issues: [], patternsCompliance: true } }),
+      };
+    });
+  }
+
+  test('works on a pipeline branch, commits each approved task and checks the base branch out again', async () => {
+    await writePlan(['Add alpha', 'Add beta']);
+    const original = git('rev-parse', '--abbrev-ref', 'HEAD');
+
+    const engine = new PipelineEngine({ runner: committingRunner(), log: () => {} });
+    const result = await engine.run({
+      stages: [{ agent: 'builder', teams: false }, { agent: 'reviewer', teams: false }],
+      project: TEST_PROJECT,
+      task: 'Add things',
+    });
+
+    expect(result.completed).toBe(true);
+    const state = await readPipelineState(TEST_PROJECT);
+    expect(state!.branch).toMatch(/^codename\/pipeline-add-things-/);
+    expect(state!.baseBranch).toBe(original);
+    expect(git('rev-parse', '--abbrev-ref', 'HEAD')).toBe(original);
+    expect(git('log', '--format=%s', `${state!.baseCommit}..${state!.branch}`).split('\n')).toEqual(['Add beta', 'Add alpha']);
+    expect(existsSync(join(TEST_PROJECT, 'alpha.txt'))).toBe(false);
+
+    const [alpha, beta] = state!.tasks;
+    expect(alpha!.checkpoint).toBe(state!.baseCommit);
+    expect(alpha!.commits).toHaveLength(1);
+    expect(git('show', '-s', '--format=%B', alpha!.commits![0]!)).toBe('Add alpha\n\nLooks good');
+    expect(git('show', '--name-only', '--format=', alpha!.commits![0]!)).toBe('alpha.txt');
+    // Nothing was left over before the second task, so it starts from the first one's commit
+    expect(beta!.checkpoint).toBe(alpha!.commits![0]);
+  });
+
+  test('refuses to start a pipeline branch over uncommitted changes', async () => {
+    await writePlan(['Add alpha']);
+    await writeFile(join(TEST_PROJECT, 'stray.txt'), 'left over');
+    const runner = committingRunner();
+
+    const engine = new PipelineEngine({ runner, log: () => {} });
+    await expect(engine.run({
+      stages: [{ agent: 'builder', teams: false }, { agent: 'reviewer', teams: false }],
+      project: TEST_PROJECT,
+      task: 'Add things',
+    })).rejects.toThrow('has uncommitted changes — commit or stash them before starting a pipeline');
+
+    expect(runner).not.toHaveBeenCalled();
+    expect(git('branch', '--list', 'codename/*')).toBe('');
+    expect(git('status', '--porcelain')).toBe('?? stray.txt');
+  });
+
+  test('only gives pipelines that build tasks a branch', async () => {
+    const original = git('rev-parse', '--abbrev-ref', 'HEAD');
+    await writeFile(join(TEST_PROJECT, 'stray.txt'), 'left over');
+    const runner: PipelineRunnerFn = vi.fn(async (role: string) => {
+      await mkdir(join(BRAIN_DIR, 'RESEARCH'), { recursive: true });
+      await writeFile(join(BRAIN_DIR, 'RESEARCH', 'findings.md'), '# Research\nSome findings...');
+      return { agentName: role, sandboxed: false, mode: 'standalone' as const, turnCount: 1 };
+    });
+
+    const engine = new PipelineEngine({ runner, log: () => {} });
+    const result = await engine.run({ stages: [{ agent: 'scout', teams: false }], project: TEST_PROJECT, task: 'Look around' });
+
+    expect(result.completed).toBe(true);
+    expect((await readPipelineState(TEST_PROJECT))!.branch).toBeUndefined();
+    expect(git('rev-parse', '--abbrev-ref', 'HEAD')).toBe(original);
+    expect(git('branch', '--list', 'codename/*')).toBe('');
+    expect(git('status', '--porcelain')).toBe('?? stray.txt');
+  });
+
+  test('commits what a failed pipeline left on its branch and checks the base branch out again', async () => {
+    await writePlan(['Add alpha']);
+    const original = git('rev-parse', '--abbrev-ref', 'HEAD');
+    const runner: PipelineRunnerFn = vi.fn(async (role: string, cwd: string) => {
+      if (role === 'builder') await writeFile(join(cwd, 'alpha.txt'), 'alpha');
+      return {
+        agentName: role, sandboxed: false, mode: 'standalone' as const, turnCount: 1,
+        ...(role === 'reviewer' && { structuredOutput: { verdict: 'REVISE', score: 4, summary: 'Not yet', issues: [], patternsCompliance: true } }),
+      };
+    });
+
+    const engine = new PipelineEngine({ runner, log: () => {}, maxRetries: 0 });
+    const result = await engine.run({
+      stages: [{ agent: 'builder', teams: false }, { agent: 'reviewer', teams: false }],
+      project: TEST_PROJECT,
+      task: 'Add things',
+    });
+
+    expect(result.completed).toBe(false);
+    const state = await readPipelineState(TEST_PROJECT);
+    expect(git('rev-parse', '--abbrev-ref', 'HEAD')).toBe(original);
+    expect(git('status', '--porcelain')).toBe('');
+    expect(git('log', '-1', '--format=%s', state!.branch!)).toBe('Unfinished work on "Add things"');
+    expect(git('show', `${state!.branch!}:alpha.txt`)).toBe('alpha');
+  });
+
+  test('commits approved tasks in their worktrees in parallel mode', async () => {
+    await writePlan(['Add alpha', 'Add beta']);
+
+    const engine = new PipelineEngine({ runner: committingRunner(), log: () => {}, maxParallelTasks: 2 });
+    await engine.run({
+      stages: [{ agent: 'builder', teams: false }, { agent: 'reviewer', teams: false }],
+      project: TEST_PROJECT,
+      task: 'Add things',
+    });
+
+    const state = await readPipelineState(TEST_PROJECT);
+    for (const task of state!.tasks) {
+      expect(task.commits).toHaveLength(1);
+      expect(git('show', '-s', '--format=%s', task.commits![0]!)).toBe(task.title);
+      expect(git('merge-base', '--is-ancestor', task.commits![0]!, state!.branch!)).toBe('');
+    }
+  });
+
+  test('returns to the pipeline branch on resume', async () => {
+    await writePlan(['Add alpha', 'Add beta']);
+    const original = git('rev-parse', '--abbrev-ref', 'HEAD');
+    const controller = new AbortController();
+    const pausing: PipelineRunnerFn = vi.fn(async (_role: string, _project: string, _task: string, options) => {
+      controller.abort('pause');
+      return new Promise((_, reject) => {
+        options.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+      });
+    });
+    const engine = new PipelineEngine({ runner: pausing, log: () => {} });
+    await engine.run({
+      stages: [{ agent: 'builder', teams: false }, { agent: 'reviewer', teams: false }],
+      project: TEST_PROJECT,
+      task: 'Add things',
+      signal: controller.signal,
+    });
+    const { branch } = (await readPipelineState(TEST_PROJECT))!;
+    git('checkout', original);
+
+    const resumed = new PipelineEngine({ runner: committingRunner(), log: () => {} });
+    const result = await resumed.resume(TEST_PROJECT);
+
+    expect(result.completed).toBe(true);
+    expect(git('rev-parse', '--abbrev-ref', 'HEAD')).toBe(original);
+    expect(git('log', '-1', '--format=%s', branch!)).toBe('Add beta');
+  });
+
+  test('keeps the checkpoint of a task whose attempt was paused', async () => {
+    await writeFile(join(BRAIN_DIR, 'PLAN.md'), '# Plan\n\n- [ ] Add alpha (scope: alpha.txt)\n');
+    const controller = new AbortController();
+    const pausing: PipelineRunnerFn = vi.fn(async (_role: string, cwd: string, _task: string, options) => {
+      await writeFile(join(cwd, 'junk.txt'), 'half done');
+      controller.abort('pause');
+      return new Promise((_, reject) => {
+        options.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+      });
+    });
+    await new PipelineEngine({ runner: pausing, log: () => {} }).run({
+      stages: [{ agent: 'builder', teams: false }, { agent: 'reviewer', teams: false }],
+      project: TEST_PROJECT,
+      task: 'Add things',
+      signal: controller.signal,
+    });
+    const { checkpoint } = (await readPipelineState(TEST_PROJECT))!.tasks[0]!;
+    expect(checkpoint).toBeDefined();
+
+    const resumed = new PipelineEngine({ runner: committingRunner(), log: () => {}, maxRetries: 0 });
+    const result = await resumed.resume(TEST_PROJECT);
+
+    // The paused attempt's junk.txt is still the task's own change, so the scope check catches it
+    expect(result.completed).toBe(false);
+    const task = (await readPipelineState(TEST_PROJECT))!.tasks[0]!;
+    expect(task.checkpoint).toBe(checkpoint);
+    expect(task.checks).toEqual([expect.objectContaining({ name: 'scope', passed: false, output: expect.stringContaining('junk.txt') })]);
+  });
+
+  test('checks the base branch out again when a paused pipeline is cancelled', async () => {
+    await writePlan(['Add alpha']);
+    const original = git('rev-parse', '--abbrev-ref', 'HEAD');
+    const controller = new AbortController();
+    const pausing: PipelineRunnerFn = vi.fn(async (_role: string, cwd: string, _task: string, options) => {
+      await writeFile(join(cwd, 'alpha.txt'), 'half done');
+      controller.abort('pause');
+      return new Promise((_, reject) => {
+        options.signal?.addEventListener('abort', () => reject(new Error('aborted')));
+      });
+    });
+    const engine = new PipelineEngine({ runner: pausing, log: () => {} });
+    await engine.run({
+      stages: [{ agent: 'builder', teams: false }, { agent: 'reviewer', teams: false }],
+      project: TEST_PROJECT,
+      task: 'Add things',
+      signal: controller.signal,
+    });
+    const { branch } = (await readPipelineState(TEST_PROJECT))!;
+    expect(git('rev-parse', '--abbrev-ref', 'HEAD')).toBe(branch);
+
+    expect(await engine.cancel(TEST_PROJECT)).toBe(true);
+    expect((await readPipelineState(TEST_PROJECT))!.status).toBe('cancelled');
+    expect(git('rev-parse', '--abbrev-ref', 'HEAD')).toBe(original);
+    expect(git('show', `${branch!}:alpha.txt`)).toBe('half done');
+    expect(await engine.cancel(TEST_PROJECT)).toBe(false);
+  });
+
+  test('stays on the current branch when git branches are disabled', async () => {
+    await writePlan(['Add alpha']);
+    const engine = new PipelineEngine({ runner: committingRunner(), log: () => {}, gitBranches: false });
+    await engine.run({
+      stages: [{ agent: 'builder', teams: false }, { agent: 'reviewer', teams: false }],
+      project: TEST_PROJECT,
+      task: 'Add things',
+    });
+
+    const state = await readPipelineState(TEST_PROJECT);
+    expect(state!.branch).toBeUndefined();
+    expect(state!.tasks[0]!.commits).toBeUndefined();
+    expect(git('log', '--format=%s')).toBe('init');
+  });
+
+  function revisingRunner(seen: boolean[]): PipelineRunnerFn {
+    let reviews = 0;
+    return vi.fn(async (role: string, cwd: string) => {
+      if (role === 'builder') {
+        seen.push(existsSync(join(cwd, 'alpha.txt')));
+        await writeFile(join(cwd, 'alpha.txt'), seen.length === 1 ? 'broken' : 'alpha');
+      }
+      const verdict = role === 'reviewer' && ++reviews === 1 ? 'REVISE' : 'APPROVE';
+      return {
+        agentName: role, sandboxed: false, mode: 'standalone' as const, turnCount: 1,
+        ...(role === 'reviewer' && { structuredOutput: { verdict, score: 8, summary: 'ok', issues: [], patternsCompliance: true } }),
+      };
+    });
+  }
+
+  test('rolls a rejected attempt back to the checkpoint and points the retry at its saved patch', async () => {
+    await writePlan(['Add alpha']);
+    const seen: boolean[] = [];
+    const runner = revisingRunner(seen);
+    const engine = new PipelineEngine({ runner, log: () => {}, rollback: () => 'patch' });
+    await engine.run({
+      stages: [{ agent: 'builder', teams: false }, { agent: 'reviewer', teams: false }],
+      project: TEST_PROJECT,
+      task: 'Add things',
+    });
+
+    // The retry started without the first attempt's file
+    expect(seen).toEqual([false, false]);
+    const patch = join('.brain', 'attempts', 'add-alpha-attempt-1.diff');
+    expect(await readFile(join(TEST_PROJECT, patch), 'utf-8')).toContain('+broken');
+    // The Reviewer's diff doubles as the rollback patch
+    expect((await readdir(join(TEST_PROJECT, '.brain', 'attempts'))).sort()).toEqual(['add-alpha-attempt-1.diff', 'add-alpha-attempt-2.diff']);
+    expect(vi.mocked(runner).mock.calls[2]![2]).toContain(`Its diff is saved in ${patch}`);
+
+    const state = await readPipelineState(TEST_PROJECT);
+    expect(state!.tasks[0]!.rolledBack).toBeUndefined();
+    expect(git('show', `${state!.tasks[0]!.commits![0]!}:alpha.txt`)).toBe('alpha');
+  });
+
+  test('keeps a rejected attempt without a pipeline branch to roll back to', async () => {
+    await writePlan(['Add alpha']);
+    const seen: boolean[] = [];
+    const logs: string[] = [];
+    const engine = new PipelineEngine({ runner: revisingRunner(seen), log: m => logs.push(m), gitBranches: false, rollback: () => 'discard' });
+    await engine.run({
+      stages: [{ agent: 'builder', teams: false }, { agent: 'reviewer', teams: false }],
+      project: TEST_PROJECT,
+      task: 'Add things',
+    });
+
+    expect(seen).toEqual([false, true]);
+    expect(logs).toContain('[pipeline] Cannot roll back "Add alpha" without a pipeline branch — keeping the attempt\'s changes');
+  });
+
+  test('hands the Reviewer the files and diff of the attempt and saves the diff', async () => {
+    await writePlan(['Add alpha']);
+    await writeFile(join(TEST_PROJECT, 'stray.txt'), 'left over');
+    const events: PipelineEvent[] = [];
+    const eventBus = new EventBus();
+    eventBus.on('session.completed', e => events.push(e));
+    const runner = committingRunner();
+
+    const engine = new PipelineEngine({ runner, log: () => {}, eventBus, gitBranches: false });
+    await engine.run({
+      stages: [{ agent: 'builder', teams: false }, { agent: 'reviewer', teams: false }],
+      project: TEST_PROJECT,
+      task: 'Add things',
+    });
+
+    const reviewerPrompt = vi.mocked(runner).mock.calls[1]![2];
+    expect(reviewerPrompt).toContain('This attempt made these changes');
+    expect(reviewerPrompt).toContain('- added alpha.txt (+1 -0)');
+    expect(reviewerPrompt).toContain('+alpha');
+    // Uncommitted work from before the task is not part of its diff
+    expect(reviewerPrompt).not.toContain('stray.txt');
+    expect(events.find(e => e.type === 'session.completed' && e.agent === 'builder')).toMatchObject({
+      diff: { files: ['alpha.txt'], additions: 1, deletions: 0 },
+    });
+
+    const state = await readPipelineState(TEST_PROJECT);
+    const diff = state!.tasks[0]!.diff!;
+    expect(diff.path).toBe(join('.brain', 'attempts', 'add-alpha-attempt-1.diff'));
+    expect(await readFile(join(TEST_PROJECT, diff.path!), 'utf-8')).toContain('+++ b/alpha.txt');
+  });
+
+  test('fails attempts while the task has changed files outside its scope and says which', async () => {
+    await writeFile(join(BRAIN_DIR, 'PLAN.md'), '# Plan\n\n- [ ] Add alpha (scope: src/**)\n');
+    await mkdir(join(TEST_PROJECT, 'src'));
+    let builds = 0;
+    const runner: PipelineRunnerFn = vi.fn(async (role: string, cwd: string) => {
+      if (role === 'builder') {
+        await writeFile(join(cwd, 'src', 'alpha.ts'), `export const v = ${++builds};\n`);
+        // The second attempt leaves package.json alone but still modified; the third reverts it
+        if (builds === 1) await writeFile(join(cwd, 'package.json'), '{}');
+        if (builds === 3) await rm(join(cwd, 'package.json'));
+      }
+      return {
+        agentName: role, sandboxed: false, mode: 'standalone' as const, turnCount: 1,
+        ...(role === 'reviewer' && { structuredOutput: { verdict: 'APPROVE', score: 9, summary: 'ok', issues: [], patternsCompliance: true } }),
+      };
+    });
+
+    const engine = new PipelineEngine({ runner, log: () => {}, gitBranches: false, blockOutOfScopeWrites: true });
+    const result = await engine.run({
+      stages: [{ agent: 'builder', teams: false }, { agent: 'reviewer', teams: false }],
+      project: TEST_PROJECT,
+      task: 'Add things',
+    });
+
+    expect(result.completed).toBe(true);
+    const [builder, reviewer] = vi.mocked(runner).mock.calls;
+    expect(builder![2]).toContain('This task may only change files matching: src/**.');
+    expect(builder![3].scope).toEqual(['src/**']);
+    expect(reviewer![3].scope).toBeUndefined();
+    expect(reviewer![2]).toContain('- FAIL (exit 1) scope: `src/**`');
+    expect(await readFile(join(BRAIN_DIR, 'reviews', 'add-alpha.md'), 'utf-8')).toContain("Changed files outside the task's scope — revert them or move the work into the right task:\n- package.json");
+
+    expect(vi.mocked(runner).mock.calls[3]![2]).toContain('- FAIL (exit 1) scope: `src/**`');
+
+    const state = await readPipelineState(TEST_PROJECT);
+    expect(state!.tasks[0]!.reviews!.map(r => r.verdict)).toEqual(['REVISE', 'REVISE', 'APPROVE']);
+    expect(state!.tasks[0]!.checks).toEqual([expect.objectContaining({ name: 'scope', passed: true })]);
+  });
+
+  test('checks the scope against the task checkpoint on a pipeline branch', async () => {
+    await writeFile(join(BRAIN_DIR, 'PLAN.md'), '# Plan\n\n- [ ] Add alpha (scope: src/**)\n');
+    await mkdir(join(TEST_PROJECT, 'src'));
+    let builds = 0;
+    const runner: PipelineRunnerFn = vi.fn(async (role: string, cwd: string) => {
+      if (role === 'builder') {
+        await writeFile(join(cwd, 'src', 'alpha.ts'), `export const v = ${++builds};\n`);
+        if (builds === 1) await writeFile(join(cwd, 'package.json'), '{}');
+      }
+      return {
+        agentName: role, sandboxed: false, mode: 'standalone' as const, turnCount: 1,
+        ...(role === 'reviewer' && { structuredOutput: { verdict: 'APPROVE', score: 9, summary: 'ok', issues: [], patternsCompliance: true } }),
+      };
+    });
+
+    const engine = new PipelineEngine({ runner, log: () => {}, maxRetries: 1 });
+    const result = await engine.run({
+      stages: [{ agent: 'builder', teams: false }, { agent: 'reviewer', teams: false }],
+      project: TEST_PROJECT,
+      task: 'Add things',
+    });
+
+    // package.json never went back to what the checkpoint has, so no attempt passes
+    expect(result.completed).toBe(false);
+    const state = await readPipelineState(TEST_PROJECT);
+    expect(state!.tasks[0]!.status).toBe('failed');
+    expect(state!.tasks[0]!.reviews!.map(r => r.verdict)).toEqual(['REVISE', 'REVISE']);
+    expect(state!.tasks[0]!.checks).toEqual([expect.objectContaining({ name: 'scope', passed: false, output: expect.stringContaining('package.json') })]);
+    expect(state!.tasks[0]!.commits).toBeUndefined();
+  });
+
+  test('leaves a tracked .brain/ out of the scope check', async () => {
+    await writeFile(join(TEST_PROJECT, '.gitignore'), '');
+    await writeFile(join(BRAIN_DIR, 'PLAN.md'), '# Plan\n\n- [ ] Add alpha (scope: src/**)\n');
+    await mkdir(join(TEST_PROJECT, 'src'));
+    git('add', '.');
+    git('commit', '-m', 'Track .brain');
+    const runner: PipelineRunnerFn = vi.fn(async (role: string, cwd: string) => {
+      if (role === 'builder') await writeFile(join(cwd, 'src', 'alpha.ts'), 'export const v = 1;\n');
+      return {
+        agentName: role, sandboxed: false, mode: 'standalone' as const, turnCount: 1,
+        ...(role === 'reviewer' && { structuredOutput: { verdict: 'APPROVE', score: 9, summary: 'ok', issues: [], patternsCompliance: true } }),
+      };
+    });
+
+    const engine = new PipelineEngine({ runner, log: () => {}, maxRetries: 0 });
+    const result = await engine.run({
+      stages: [{ agent: 'builder', teams: false }, { agent: 'reviewer', teams: false }],
+      project: TEST_PROJECT,
+      task: 'Add things',
+    });
+
+    expect(result.completed).toBe(true);
+    const state = await readPipelineState(TEST_PROJECT);
+    expect(state!.tasks[0]!.checks).toEqual([expect.objectContaining({ name: 'scope', passed: true })]);
+  });
+});
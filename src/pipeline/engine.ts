@@ -1,9 +1,58 @@
-import { readFile, writeFile, mkdir, readdir, unlink } from 'node:fs/promises';
-import { join } from 'node:path';
-import type { PipelineStage } from './router.js';
-import { writePipelineState, type PipelineState, type TaskProgress, type ReviewOutput } from './state.js';
-import { findNextTask, markTaskComplete, parseCheckboxTasks } from './orchestrator.js';
+import { readFile, writeFile, mkdir, readdir, unlink, access } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import type { PipelineStage, StageOverrides } from './router.js';
+import {
+  readPipelineState,
+  writePipelineState,
+  type PipelineState,
+  type PipelineStopReason,
+  type TaskProgress,
+  type ReviewOutput,
+  type ReviewIssue,
+  type CheckResult,
+  type TaskDiff,
+  type TaskReview,
+  type ApprovalGate,
+  type ApprovalRecord,
+  type AttemptRollback,
+  type IntegrationReviewOutput,
+  REVIEW_JSON_SCHEMA,
+  INTEGRATION_REVIEW_JSON_SCHEMA,
+} from './state.js';
+import {
+  findBlockedTasks,
+  findReadyTasks,
+  markTaskComplete,
+  markTaskIncomplete,
+  parseCheckboxTasks,
+  validateTaskGraph,
+} from './orchestrator.js';
+import {
+  checkoutBranch,
+  commitChanges,
+  commitWorktree,
+  createPipelineBranch,
+  createTaskWorktree,
+  currentBranch,
+  diffSince,
+  hasUncommittedChanges,
+  headCommit,
+  isGitRepo,
+  leavePipelineBranch,
+  mergeWorktree,
+  removeTaskWorktree,
+  restoreCommit,
+  slugify,
+  taskWorktreeForBranch,
+  type TaskWorktree,
+} from './worktree.js';
+import { checkReviewPolicy, combineReviews, type ConsensusConfig, type ReviewPolicy } from './policy.js';
+import { describeStage, validateStageOutput, type StageDescriptor, type StageRole } from './stages.js';
+import { formatCheckResults, loadValidationCommands, runValidationCommands } from './validation.js';
+import { diffTrees, formatTaskDiff, snapshotTree } from './diff.js';
+import { checkScope } from './scope.js';
 import type { RunResult } from '../agents/runner.js';
+import { addUsage, type AgentUsage, type ModelUsageMap } from '../state/budget.js';
 import type { EventBus } from '../notifications/events.js';
 
 /** Tracks agent activity — touched on every SDK message to signal liveness. */
@@ -18,6 +67,15 @@ export interface RunnerOptions {
   log?: (message: string) => void;
   /** If provided, the runner touches this on every SDK message to signal liveness. */
   activityTracker?: ActivityTracker;
+  /** Aborted when the pipeline is cancelled or paused — the runner should stop its SDK session. */
+  signal?: AbortSignal;
+  /** Overrides the agent definition's model for this stage. */
+  model?: string;
+  maxTurns?: number;
+  /** JSON schema the session's final answer must follow, from the stage descriptor. */
+  outputSchema?: Record<string, unknown>;
+  /** Path globs the session may write to — the runner denies Write/Edit calls outside them. */
+  scope?: string[];
 }
 
 export type PipelineRunnerFn = (
@@ -36,12 +94,28 @@ export interface PipelineEngineConfig {
   idleTimeoutMs?: number;
   /** Optional event bus for notifications and session tracking. */
   eventBus?: EventBus;
+  /** Max PLAN.md tasks built concurrently, each in its own git worktree. Default: 1 (sequential). */
+  maxParallelTasks?: number;
+  /** Stage descriptors keyed by agent name, for agents beyond scout/architect/builder/reviewer. */
+  stageDescriptors?: Record<string, StageDescriptor>;
+  /** The review policy for a project. A structured APPROVE that breaks it is treated as REVISE. */
+  reviewPolicy?: (project: string) => ReviewPolicy | undefined;
+  /** The gates a project's pipelines stop at until a human approves or rejects. */
+  approvalGates?: (project: string) => ApprovalGate[] | undefined;
+  /** In git repos, run each pipeline on its own branch and commit every approved task. Default: true. */
+  gitBranches?: boolean;
+  /** Roll back a project's rejected attempts before the retry. Default: keep them. */
+  rollback?: (project: string) => AttemptRollback | undefined;
+  /** Deny workers' writes outside their task's scope as they happen, not just after the build. */
+  blockOutOfScopeWrites?: boolean;
 }
 
 export interface PipelineRunOptions {
   stages: PipelineStage[];
   project: string;
   task: string;
+  /** Stops the pipeline when aborted. Pass a PipelineStopReason as the abort reason. */
+  signal?: AbortSignal;
 }
 
 export interface PipelineResult {
@@ -49,20 +123,78 @@ export interface PipelineResult {
   stagesRun: number;
   retries: number;
   totalTurnCount: number;
+  /** Token and cost usage per model, summed over every session the run started. */
+  usage?: ModelUsageMap;
+  /** The same usage, plus turn counts, split by agent role. */
+  usageByAgent?: Record<string, AgentUsage>;
   finalVerdict?: string;
   sessionIds?: string[];
   review?: ReviewOutput;
 }
 
+/** Mutable bookkeeping shared by the pre-loop phase and the Ralph loop. */
+interface RunContext {
+  project: string;
+  task: string;
+  stages: PipelineStage[];
+  state: PipelineState;
+  sessionIds: string[];
+  stagesRun: number;
+  totalTurnCount: number;
+  usage: ModelUsageMap;
+  usageByAgent: Record<string, AgentUsage>;
+  redesignCount: number;
+  lastReviewOutput?: ReviewOutput;
+  lastIntegrationReview?: IntegrationReviewOutput;
+  signal?: AbortSignal;
+  stageOptions: Record<string, StageOverrides>;
+  /** Why a human rejected the last output — told to the stages that redo it. */
+  rejection?: string;
+}
+
+/** Outcome of one Builder → Reviewer attempt on a single PLAN.md task. */
+interface TaskAttempt {
+  verdict: string;
+  review?: ReviewOutput;
+  reviewerError?: string;
+  /** Why the review policy turned the reviewer's APPROVE into REVISE. */
+  overrideReason?: string;
+  /** Set when several reviewers reviewed the task. */
+  consensus?: TaskReview['consensus'];
+  /** The validation commands' results, run before the review. */
+  checks?: CheckResult[];
+  /** The task's commit in its worktree (parallel mode). */
+  commit?: string;
+  /** Set when the attempt ran in an isolated worktree (parallel mode). */
+  worktree?: TaskWorktree;
+}
+
+/** What the Reviewer is told about an attempt besides the task itself. */
+interface ReviewInputs {
+  /** Issues the last review raised, to check they're gone. */
+  previousIssues: ReviewIssue[];
+  checks: CheckResult[];
+  /** The attempt's changed files and diff, formatted for the prompt. */
+  diff?: string;
+}
+
 export class PipelineEngine {
   private config: PipelineEngineConfig;
   private maxRetries: number;
   private idleTimeoutMs: number;
+  private maxParallelTasks: number;
+  private stageDescriptors: Record<string, StageDescriptor>;
 
   constructor(config: PipelineEngineConfig) {
     this.config = config;
     this.maxRetries = config.maxRetries ?? 2;
     this.idleTimeoutMs = config.idleTimeoutMs ?? 5 * 60_000;
+    this.maxParallelTasks = Math.max(1, config.maxParallelTasks ?? 1);
+    this.stageDescriptors = config.stageDescriptors ?? {};
+  }
+
+  private describe(agent: string): StageDescriptor {
+    return describeStage(agent, this.stageDescriptors);
   }
 
   async run(options: PipelineRunOptions): Promise<PipelineResult> {
@@ -73,6 +205,14 @@ export class PipelineEngine {
       throw new Error('Pipeline received empty stages array — router returned no stages');
     }
 
+    // Only pipelines that build tasks get a branch, and it must not pick up the user's own changes
+    const baseCommit = headCommit(project);
+    const branching = Boolean(baseCommit) && this.config.gitBranches !== false
+      && stages.some(s => this.describe(s.agent).kind === 'per-task');
+    if (branching && hasUncommittedChanges(project)) {
+      throw new Error(`${project} has uncommitted changes — commit or stash them before starting a pipeline, or set pipeline.gitBranches to false`);
+    }
+
     // Ensure .brain/PROJECT.md exists for first-run bootstrap
     await this.ensureProjectContext(project, task);
 
@@ -81,6 +221,8 @@ export class PipelineEngine {
 
     // Initialize pipeline state
     const now = Date.now();
+    const baseBranch = baseCommit ? currentBranch(project) ?? undefined : undefined;
+    const branch = branching ? this.startBranch(project, task) : undefined;
     const pipelineState: PipelineState = {
       project,
       task,
@@ -93,6 +235,11 @@ export class PipelineEngine {
       currentTaskIndex: -1,
       totalIterations: 0,
       retries: 0,
+      completedStages: [],
+      redesignCount: 0,
+      ...(baseCommit && { baseCommit }),
+      ...(branch && { branch, ...(baseBranch && { baseBranch }) }),
+      stageOptions: stageOverrides(stages),
     };
     await writePipelineState(project, pipelineState);
 
@@ -101,85 +248,562 @@ export class PipelineEngine {
       stages: stages.map(s => s.agent), timestamp: Date.now(),
     });
 
-    const sessionIds: string[] = [];
-    let lastReviewOutput: ReviewOutput | undefined;
-    let stagesRun = 0;
-    let totalTurnCount = 0;
+    const ctx: RunContext = {
+      project,
+      task,
+      stages,
+      state: pipelineState,
+      sessionIds: [],
+      stagesRun: 0,
+      totalTurnCount: 0,
+      usage: {},
+      usageByAgent: {},
+      redesignCount: 0,
+      signal: options.signal,
+      stageOptions: pipelineState.stageOptions!,
+    };
 
-    // ── Phase 1: Run pre-loop agents (scout, architect) sequentially ──
-    for (const stage of stages) {
-      const isBuilder = stage.agent === 'builder' || stage.agent.includes('build');
-      const isReviewer = stage.agent === 'reviewer' || stage.agent.includes('review');
-      if (isBuilder || isReviewer) break; // Enter Ralph loop for builder/reviewer
+    return this.execute(ctx);
+  }
 
-      const mode = stage.teams ? 'team' : 'standalone';
-      const phaseLabel = (stage.agent === 'scout' || stage.agent.includes('scout')) ? 'scouting' : 'planning';
-      pipelineState.phase = phaseLabel;
-      pipelineState.updatedAt = Date.now();
-      await writePipelineState(project, pipelineState);
+  /**
+   * Resumes an interrupted pipeline from .brain/pipeline-state.json: pre-loop
+   * stages that already passed validation are skipped and the Ralph loop picks
+   * up where it stopped, keeping per-task attempts and session IDs.
+   */
+  async resume(project: string, options: { signal?: AbortSignal } = {}): Promise<PipelineResult> {
+    const pipelineState = await readPipelineState(project);
+    if (!pipelineState) {
+      throw new Error(`No pipeline state found in ${project} — nothing to resume`);
+    }
+    if (pipelineState.status === 'completed' || pipelineState.status === 'cancelled') {
+      throw new Error(`Pipeline for "${pipelineState.task}" was ${pipelineState.status} — nothing to resume`);
+    }
+    // Checking the pipeline branch out again would carry the user's changes onto it
+    if (pipelineState.branch && currentBranch(project) !== pipelineState.branch && hasUncommittedChanges(project)) {
+      throw new Error(`${project} has uncommitted changes — commit or stash them before resuming the pipeline on ${pipelineState.branch}`);
+    }
 
-      this.config.log(`[pipeline] Phase 1: Running ${stage.agent} (${mode})`);
+    // Team flags aren't persisted — resumed stages run standalone
+    const stageOptions = pipelineState.stageOptions ?? {};
+    const stages: PipelineStage[] = pipelineState.agentPipeline.map(agent => ({ agent, teams: false, ...stageOptions[agent] }));
+    if (stages.length === 0) {
+      throw new Error('Pipeline state has no stages — cannot resume');
+    }
 
-      const stageTask = this.buildStageTask(stage.agent, task, { retries: 0 });
+    this.config.log(`[pipeline] Resuming ${pipelineState.status} pipeline: ${stages.map(s => s.agent).join(' → ')}`);
+    this.config.log(`[pipeline] Task: "${pipelineState.task}" (phase: ${pipelineState.phase})`);
 
-      this.config.eventBus?.emit({
-        type: 'session.started', project, agent: stage.agent,
-        task: stageTask, timestamp: Date.now(),
-      });
+    // Worktrees of tasks that were in flight are stale — their attempts rerun from scratch
+    for (const taskProgress of pipelineState.tasks) {
+      if (taskProgress.branch) {
+        await removeTaskWorktree(project, taskWorktreeForBranch(project, taskProgress.branch));
+        delete taskProgress.branch;
+      }
+    }
 
-      const result = await this.runWithIdleTimeout(stage.agent, project, stageTask, mode);
-      stagesRun++;
-      totalTurnCount += result.turnCount ?? 0;
-      if (result.sessionId) sessionIds.push(result.sessionId);
+    if (pipelineState.branch) this.returnToBranch(project, pipelineState.branch);
 
-      this.config.eventBus?.emit({
-        type: 'session.completed', project, agent: stage.agent,
-        sessionId: result.sessionId, timestamp: Date.now(),
-      });
+    pipelineState.status = 'running';
+    pipelineState.inFlightTaskIndexes = [];
+    delete pipelineState.finalVerdict;
+    delete pipelineState.error;
+    pipelineState.updatedAt = Date.now();
+    await writePipelineState(project, pipelineState);
 
-      // Pre-validation cleanup for architect
-      if (stage.agent === 'architect' || stage.agent.includes('architect')) {
-        await this.cleanupPlanPartFiles(project);
-      }
+    this.config.eventBus?.emit({
+      type: 'pipeline.started', project, task: pipelineState.task,
+      stages: stages.map(s => s.agent), timestamp: Date.now(),
+    });
 
-      // Validate
-      const validationError = await this.validateStage(stage.agent, project, result.structuredOutput);
-      if (validationError) {
-        this.config.log(`[pipeline] VALIDATION FAILED for ${stage.agent}: ${validationError}`);
-        pipelineState.status = 'failed';
-        pipelineState.phase = 'failed';
-        pipelineState.error = validationError;
-        pipelineState.updatedAt = Date.now();
-        await writePipelineState(project, pipelineState);
-        this.config.eventBus?.emit({
-          type: 'pipeline.completed', project, task, success: false, timestamp: Date.now(),
-        });
-        return { completed: false, stagesRun, retries: 0, totalTurnCount, finalVerdict: `VALIDATION_FAILED: ${validationError}`, sessionIds };
-      }
+    return this.execute({
+      project,
+      task: pipelineState.task,
+      stages,
+      state: pipelineState,
+      sessionIds: [],
+      stagesRun: 0,
+      totalTurnCount: 0,
+      usage: {},
+      usageByAgent: {},
+      redesignCount: pipelineState.redesignCount ?? 0,
+      signal: options.signal,
+      stageOptions,
+    });
+  }
+
+  /**
+   * Cancels a pipeline that is not running — paused or waiting for approval —
+   * for good. Returns false when there is no such pipeline.
+   */
+  async cancel(project: string): Promise<boolean> {
+    const pipelineState = await readPipelineState(project);
+    if (pipelineState?.status !== 'paused' && pipelineState?.status !== 'awaiting_approval') return false;
+    pipelineState.status = 'cancelled';
+    pipelineState.finalVerdict = 'CANCELLED';
+    pipelineState.updatedAt = Date.now();
+    this.leaveBranch(project, pipelineState);
+    await writePipelineState(project, pipelineState);
+    return true;
+  }
+
+  /** Runs the pipeline, turning an abort of ctx.signal into a cancelled/paused pipeline. */
+  private async execute(ctx: RunContext): Promise<PipelineResult> {
+    try {
+      return await this.executeStages(ctx);
+    } catch (err) {
+      if (ctx.signal?.aborted) return this.haltPipeline(ctx);
+      throw err;
+    }
+  }
 
-      this.config.log(`[pipeline] ${stage.agent} passed validation`);
+  /** Runs the pre-loop stages not yet completed, then the Ralph loop, then the post-loop stages. */
+  private async executeStages(ctx: RunContext): Promise<PipelineResult> {
+    const { project, stages } = ctx;
+    const pipelineState = ctx.state;
+
+    // ── Phase 1: Run pre-loop agents (scout, architect, ...) sequentially ──
+    for (const stage of stages.filter(s => this.describe(s.agent).kind === 'pre-loop')) {
+      const failure = await this.runOnceStage(ctx, stage, 'Phase 1');
+      if (failure) return failure;
     }
+    const planApproval = await this.planApproval(ctx);
+    if (planApproval) return planApproval;
 
     // ── Phase 2: Ralph loop — one task at a time ──
-    // Only enter if pipeline includes builder/reviewer stages
-    const hasBuilderReviewer = stages.some(s =>
-      s.agent === 'builder' || s.agent.includes('build') ||
-      s.agent === 'reviewer' || s.agent.includes('review')
-    );
-
-    if (!hasBuilderReviewer) {
-      // Pure pre-loop pipeline (e.g. scout-only, architect-only)
-      pipelineState.status = 'completed';
-      pipelineState.phase = 'completed';
-      pipelineState.finalVerdict = 'APPROVE';
-      pipelineState.updatedAt = Date.now();
-      await writePipelineState(project, pipelineState);
-      return { completed: true, stagesRun, retries: 0, totalTurnCount, finalVerdict: 'APPROVE', sessionIds };
+    // Only enter if the pipeline has per-task stages (builder, reviewer, ...)
+    if (stages.some(s => this.describe(s.agent).kind === 'per-task')) {
+      return this.runRalphLoop(ctx);
+    }
+
+    // Pure pre-loop pipeline (e.g. scout-only, architect-only)
+    const outcome = await this.runPostLoopStages(ctx);
+    if (outcome === 'reopen') return this.runRalphLoop(ctx);
+    if (outcome) return outcome;
+
+    const approval = await this.approvalGate(ctx, 'complete');
+    if (approval && !('gate' in approval)) return approval;
+    if (approval?.decision === 'rejected') {
+      // Without a Ralph loop the stages themselves redo the work
+      pipelineState.completedStages = [];
+      ctx.rejection = approval.reason;
+      return this.executeStages(ctx);
+    }
+    pipelineState.status = 'completed';
+    pipelineState.phase = 'completed';
+    pipelineState.finalVerdict = 'APPROVE';
+    pipelineState.updatedAt = Date.now();
+    this.leaveBranch(project, pipelineState);
+    await writePipelineState(project, pipelineState);
+    return { completed: true, stagesRun: ctx.stagesRun, retries: 0, totalTurnCount: ctx.totalTurnCount, usage: ctx.usage, usageByAgent: ctx.usageByAgent, finalVerdict: 'APPROVE', sessionIds: ctx.sessionIds };
+  }
+
+  /**
+   * Runs a stage that executes once — before or after the Ralph loop — unless
+   * it already completed. Returns a failed result when validation fails.
+   */
+  private async runOnceStage(ctx: RunContext, stage: PipelineStage, label: string): Promise<PipelineResult | null> {
+    const { project, task } = ctx;
+    const pipelineState = ctx.state;
+    const completedStages = pipelineState.completedStages ??= [];
+    const descriptor = this.describe(stage.agent);
+
+    if (completedStages.includes(stage.agent)) {
+      this.config.log(`[pipeline] ${label}: Skipping ${stage.agent} (already completed)`);
+      return null;
+    }
+    this.throwIfStopped(ctx);
+
+    const mode = stage.teams ? 'team' : 'standalone';
+    pipelineState.phase = descriptor.kind === 'post-loop' ? 'finishing' : descriptor.role === 'scout' ? 'scouting' : 'planning';
+    pipelineState.updatedAt = Date.now();
+    await writePipelineState(project, pipelineState);
+
+    this.config.log(`[pipeline] ${label}: Running ${stage.agent} (${mode})`);
+
+    const stageTask = this.buildStageTask(stage.agent, task, {
+      retries: 0,
+      artifacts: this.handoffBefore(ctx.stages, stage.agent),
+      baseCommit: pipelineState.baseCommit,
+      rejection: ctx.rejection,
+    });
+
+    this.config.eventBus?.emit({
+      type: 'session.started', project, agent: stage.agent,
+      task: stageTask, timestamp: Date.now(),
+    });
+
+    const result = await this.runWithIdleTimeout(stage.agent, project, stageTask, mode, ctx);
+    ctx.stagesRun++;
+    this.trackUsage(ctx, stage.agent, result);
+    if (result.sessionId) ctx.sessionIds.push(result.sessionId);
+
+    this.config.eventBus?.emit({
+      type: 'session.completed', project, agent: stage.agent,
+      sessionId: result.sessionId, timestamp: Date.now(),
+    });
+
+    // Pre-validation cleanup for architect
+    if (descriptor.role === 'architect') {
+      await this.cleanupPlanPartFiles(project);
+    }
+
+    // Validate
+    const validationError = await this.validateStage(ctx, stage.agent, project, result.structuredOutput);
+    if (validationError) {
+      this.config.log(`[pipeline] VALIDATION FAILED for ${stage.agent}: ${validationError}`);
+      return this.failPipeline(ctx, `VALIDATION_FAILED: ${validationError}`, validationError);
+    }
+
+    this.config.log(`[pipeline] ${stage.agent} passed validation`);
+    if (descriptor.role === 'integration-reviewer') {
+      ctx.lastIntegrationReview = result.structuredOutput as IntegrationReviewOutput;
+    }
+    completedStages.push(stage.agent);
+    pipelineState.updatedAt = Date.now();
+    await writePipelineState(project, pipelineState);
+    return null;
+  }
+
+  /**
+   * Phase 3: stages that run once over the whole change set after every task
+   * is done. An integration review that asks for changes stops the phase and
+   * returns 'reopen' — the Ralph loop rebuilds the tasks it sent back, and the
+   * post-loop stages run again after that.
+   */
+  private async runPostLoopStages(ctx: RunContext): Promise<PipelineResult | 'reopen' | null> {
+    for (const stage of ctx.stages.filter(s => this.describe(s.agent).kind === 'post-loop')) {
+      const failure = await this.runOnceStage(ctx, stage, 'Phase 3');
+      if (failure) return failure;
+
+      const review = ctx.lastIntegrationReview;
+      if (this.describe(stage.agent).role === 'integration-reviewer' && review?.verdict === 'REVISE') {
+        ctx.lastIntegrationReview = undefined;
+        return this.reopenTasks(ctx, review);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Unchecks the PLAN.md tasks an integration review sent back, or adds a
+   * task for its fixes when it named none that can be reopened.
+   */
+  private async reopenTasks(ctx: RunContext, review: IntegrationReviewOutput): Promise<PipelineResult | 'reopen'> {
+    const { project } = ctx;
+    const pipelineState = ctx.state;
+    const rounds = pipelineState.integrationRounds = (pipelineState.integrationRounds ?? 0) + 1;
+    pipelineState.retries++;
+
+    if (rounds > this.maxRetries) {
+      pipelineState.error = `Integration review still requested changes after ${this.maxRetries} round(s): ${review.summary}`;
+      this.config.log(`[pipeline] ${pipelineState.error}`);
+      return this.failPipeline(ctx, 'REVISE');
+    }
+
+    const planPath = join(project, '.brain', 'PLAN.md');
+    let planContent: string;
+    try {
+      planContent = await readFile(planPath, 'utf-8');
+    } catch {
+      return this.failPipeline(ctx, 'PLAN_LOST', 'Integration review requested changes but there is no PLAN.md to reopen tasks in');
+    }
+
+    const done = new Set(parseCheckboxTasks(planContent).filter(t => t.checked).map(t => t.title));
+    const titles = review.reopenTasks.filter(title => done.has(title));
+    if (titles.length > 0) {
+      for (const title of titles) planContent = markTaskIncomplete(planContent, title);
+    } else {
+      const title = `Address integration review (round ${rounds})`;
+      planContent = `${planContent.trimEnd()}
+- [ ] ${title}
+`;
+      pipelineState.tasks.push({ title, status: 'pending', attempts: 0 });
+      titles.push(title);
+    }
+    await writeFile(planPath, planContent);
+
+    for (const progress of pipelineState.tasks.filter(t => titles.includes(t.title))) {
+      progress.status = 'pending';
+      progress.attempts = 0;
+      progress.reopened = true;
+      delete progress.completedAt;
+      // The task's approved commit is history now — its fixes start from a new checkpoint
+      delete progress.checkpoint;
+      delete progress.scopeBase;
+      (progress.reviews ??= []).push({ attempt: 0, verdict: 'REVISE', summary: review.summary, issues: review.issues });
+    }
+    // The post-loop stages look at the change set again once the fixes are in
+    pipelineState.completedStages = (pipelineState.completedStages ?? []).filter(agent => this.describe(agent).kind !== 'post-loop');
+    pipelineState.phase = 'building';
+    pipelineState.updatedAt = Date.now();
+    await writePipelineState(project, pipelineState);
+
+    for (const title of titles) {
+      await this.writeReviewFeedback(project, { verdict: review.verdict, summary: review.summary, issues: review.issues }, title);
+    }
+    this.config.eventBus?.emit({
+      type: 'review.escalated', project, taskTitle: titles.join(', '),
+      verdict: 'REVISE', issueCount: review.issues.length, timestamp: Date.now(),
+    });
+    this.config.log(`[pipeline] Integration review: REVISE — reopening ${titles.map(t => `"${t}"`).join(', ')} (round ${rounds})`);
+    return 'reopen';
+  }
+
+  /** Checks out a fresh branch for the pipeline. Without one the pipeline works on the current branch. */
+  private startBranch(project: string, task: string): string | undefined {
+    try {
+      const branch = createPipelineBranch(project, task);
+      this.config.log(`[pipeline] Working on branch ${branch}`);
+      return branch;
+    } catch (err) {
+      this.config.log(`[pipeline] Could not create a pipeline branch — working on the current branch: ${err instanceof Error ? err.message : err}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Checks out the branch a finished, failed or cancelled pipeline started
+   * from, so the next one starts there too. What the pipeline left uncommitted
+   * is committed to its own branch first.
+   */
+  private leaveBranch(project: string, state: PipelineState): void {
+    const base = state.baseBranch ?? state.baseCommit;
+    if (!state.branch || !base) return;
+    try {
+      if (currentBranch(project) !== state.branch) return;
+      const verb = state.status === 'completed' ? 'Finish' : 'Unfinished work on';
+      const commit = leavePipelineBranch(project, state.branch, base, taskCommitMessage(`${verb} "${state.task.split('\n')[0]!.trim()}"`));
+      if (commit) this.config.log(`[pipeline] Committed what was left on ${state.branch} as ${commit.slice(0, 8)}`);
+      this.config.log(`[pipeline] Back on ${base}`);
+    } catch (err) {
+      this.config.log(`[pipeline] Could not check out ${base} again: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  private returnToBranch(project: string, branch: string): void {
+    try {
+      if (currentBranch(project) !== branch) checkoutBranch(project, branch);
+    } catch (err) {
+      this.config.log(`[pipeline] Could not check out ${branch}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  /**
+   * Commits whatever is uncommitted before a task starts, so its own commit
+   * holds only its work. Returns the commit the task starts from.
+   */
+  private checkpoint(project: string, taskTitle: string): string | undefined {
+    try {
+      commitChanges(project, `Checkpoint before "${taskTitle}"`);
+      return headCommit(project) ?? undefined;
+    } catch (err) {
+      this.config.log(`[pipeline] Could not checkpoint before "${taskTitle}": ${err instanceof Error ? err.message : err}`);
+      return undefined;
+    }
+  }
+
+  /** Commits an approved task. Returns the SHA, or undefined when there was nothing to commit. */
+  private commitTask(project: string, taskTitle: string, review?: ReviewOutput): string | undefined {
+    try {
+      const commit = commitChanges(project, taskCommitMessage(taskTitle, review)) ?? undefined;
+      if (commit) this.config.log(`[pipeline] Committed "${taskTitle}" as ${commit.slice(0, 8)}`);
+      return commit;
+    } catch (err) {
+      this.config.log(`[pipeline] Could not commit "${taskTitle}": ${err instanceof Error ? err.message : err}`);
+      return undefined;
+    }
+  }
+
+  /** Saves an attempt's full diff under .brain/attempts/ and records what it changed on the task. */
+  private async saveTaskDiff(
+    project: string,
+    taskProgress: TaskProgress | undefined,
+    taskTitle: string,
+    changes: ReturnType<typeof diffTrees>,
+  ): Promise<TaskDiff> {
+    const diff: TaskDiff = { ...changes.diff };
+    if (changes.patch) {
+      diff.path = attemptDiffPath(taskTitle, taskProgress?.attempts ?? 1);
+      await mkdir(join(project, '.brain', 'attempts'), { recursive: true });
+      await writeFile(join(project, diff.path), changes.patch);
+    }
+    if (taskProgress) taskProgress.diff = diff;
+    return diff;
+  }
+
+  /**
+   * Under a rollback policy, puts the tree back at the task's checkpoint so the
+   * retry starts clean, saving the attempt's diff first in 'patch' mode. A
+   * worktree attempt's changes go away with the worktree — only its diff is saved.
+   */
+  private async rollbackAttempt(project: string, taskProgress: TaskProgress, attempt: TaskAttempt): Promise<void> {
+    const mode = this.config.rollback?.(project);
+    if (!mode) return;
+
+    const { title, attempts } = taskProgress;
+    const worktree = attempt.worktree;
+    // An approved worktree attempt that failed to merge is already committed
+    const since = worktree ? (attempt.commit ? `${attempt.commit}^` : 'HEAD') : taskProgress.checkpoint;
+    if (!since) {
+      this.config.log(`[pipeline] Cannot roll back "${title}" without a pipeline branch — keeping the attempt's changes`);
+      return;
+    }
+
+    try {
+      let patch: string | undefined;
+      if (mode === 'patch') {
+        // The attempt started at the checkpoint, so the diff saved for the Reviewer is this same change
+        const saved = attemptDiffPath(title, attempts);
+        const diff = taskProgress.diff?.path === saved ? undefined : diffSince(worktree?.path ?? project, since);
+        if (diff) {
+          await mkdir(join(project, '.brain', 'attempts'), { recursive: true });
+          await writeFile(join(project, saved), diff);
+        }
+        if (diff || taskProgress.diff?.path === saved) patch = saved;
+      }
+      if (!worktree) restoreCommit(project, since);
+      taskProgress.rolledBack = { attempt: attempts, ...(patch && { patch }) };
+      this.config.log(`[pipeline] Rolled back attempt ${attempts} of "${title}"${patch ? ` — diff saved to ${patch}` : ''}`);
+    } catch (err) {
+      this.config.log(`[pipeline] Could not roll back "${title}": ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  private gateEnabled(project: string, gate: ApprovalGate): boolean {
+    return this.config.approvalGates?.(project)?.includes(gate) ?? false;
+  }
+
+  /** Takes the decision on a gate the pipeline stopped at, moving it to the approval history. */
+  private takeDecision(ctx: RunContext, gate: ApprovalGate): ApprovalRecord | undefined {
+    const approval = ctx.state.approval;
+    if (approval?.gate !== gate || !approval.decision) return undefined;
+    delete ctx.state.approval;
+    (ctx.state.approvals ??= []).push(approval);
+    this.config.log(`[pipeline] ${gate} gate ${approval.decision}${approval.reason ? `: ${approval.reason}` : ''}`);
+    return approval;
+  }
+
+  /**
+   * Stops the pipeline at a gate. `codename approve` or `codename reject`
+   * records the decision and queues a resume, which picks it up.
+   */
+  private async requestApproval(ctx: RunContext, gate: ApprovalGate, taskTitle?: string): Promise<PipelineResult> {
+    const { project, task } = ctx;
+    const pipelineState = ctx.state;
+    for (const taskProgress of pipelineState.tasks) {
+      if (taskProgress.status === 'in_progress') taskProgress.status = 'pending';
     }
+    pipelineState.status = 'awaiting_approval';
+    pipelineState.approval = { gate, requestedAt: Date.now(), ...(taskTitle && { taskTitle }) };
+    pipelineState.updatedAt = Date.now();
+    await writePipelineState(project, pipelineState);
+
+    this.config.log(`[pipeline] Waiting for approval at the ${gate} gate`);
+    this.config.eventBus?.emit({
+      type: 'approval.requested', project, task, gate, ...(taskTitle && { taskTitle }), timestamp: Date.now(),
+    });
+    return this.buildResult(ctx, false, 'AWAITING_APPROVAL');
+  }
+
+  /**
+   * Passes a gate: null when it is off, the decision when a resumed run
+   * arrives with one, otherwise the result of stopping to wait.
+   */
+  private async approvalGate(ctx: RunContext, gate: ApprovalGate): Promise<PipelineResult | ApprovalRecord | null> {
+    if (!this.gateEnabled(ctx.project, gate)) return null;
+    return this.takeDecision(ctx, gate) ?? this.requestApproval(ctx, gate);
+  }
+
+  /**
+   * The plan gate, once the architect has written PLAN.md. A rejection
+   * re-runs the architect with the reason and asks again.
+   */
+  private async planApproval(ctx: RunContext): Promise<PipelineResult | null> {
+    const architect = ctx.stages.find(s => {
+      const descriptor = this.describe(s.agent);
+      return descriptor.kind === 'pre-loop' && descriptor.role === 'architect';
+    });
+    if (!architect || ctx.state.approvals?.some(a => a.gate === 'plan' && a.decision === 'approved')) return null;
+
+    const approval = await this.approvalGate(ctx, 'plan');
+    if (!approval || !('gate' in approval)) return approval;
+    if (approval.decision === 'approved') return null;
+
+    ctx.state.completedStages = (ctx.state.completedStages ?? []).filter(agent => agent !== architect.agent);
+    ctx.rejection = approval.reason;
+    const failure = await this.runOnceStage(ctx, architect, 'Phase 1');
+    ctx.rejection = undefined;
+    return failure ?? this.planApproval(ctx);
+  }
+
+  /** Keeps the current plan after a redesign was rejected. The Builder retries the task with the reason. */
+  private async rejectRedesign(ctx: RunContext, approval: ApprovalRecord): Promise<void> {
+    const taskProgress = ctx.state.tasks.find(t => t.title === approval.taskTitle);
+    const issues = openIssues(taskProgress);
+    const summary = `A human rejected the redesign, so the plan stays as it is: ${approval.reason}`;
+    if (taskProgress) (taskProgress.reviews ??= []).push({ attempt: taskProgress.attempts, verdict: 'REVISE', summary, issues });
+    ctx.state.updatedAt = Date.now();
+    await writePipelineState(ctx.project, ctx.state);
+    await this.writeReviewFeedback(ctx.project, { verdict: 'REVISE', summary, issues }, approval.taskTitle);
+  }
+
+  /** Adds a PLAN.md task for the changes a human asked for when rejecting the finished work. */
+  private async addApprovalFeedbackTask(ctx: RunContext, reason: string): Promise<void> {
+    const { project } = ctx;
+    const pipelineState = ctx.state;
+    const round = (pipelineState.approvals ?? []).filter(a => a.gate === 'complete' && a.decision === 'rejected').length;
+    const title = `Address approval feedback (round ${round})`;
+    const summary = `A human rejected the finished work: ${reason}`;
 
+    const planPath = join(project, '.brain', 'PLAN.md');
+    const planContent = await readFile(planPath, 'utf-8').catch(() => '');
+    await writeFile(planPath, `${planContent.trimEnd()}\n- [ ] ${title}\n`);
+    pipelineState.tasks.push({
+      title, status: 'pending', attempts: 0, reopened: true,
+      reviews: [{ attempt: 0, verdict: 'REVISE', summary, issues: [] }],
+    });
+    // The post-loop stages look at the change set again once the fixes are in
+    pipelineState.completedStages = (pipelineState.completedStages ?? []).filter(agent => this.describe(agent).kind !== 'post-loop');
+    pipelineState.phase = 'building';
+    pipelineState.updatedAt = Date.now();
+    await writePipelineState(project, pipelineState);
+
+    await this.writeReviewFeedback(project, { verdict: 'REVISE', summary, issues: [] }, title);
+    this.config.log(`[pipeline] Completion rejected — added "${title}" to PLAN.md`);
+  }
+
+  /**
+   * The per-task stages in the order they run on each PLAN.md task. The loop
+   * always has a builder first and ends with exactly one reviewer, whose
+   * verdict decides the task; the built-in agents fill in when none is listed.
+   */
+  private taskStages(stages: PipelineStage[]): { workers: string[]; reviewer: string } {
+    const perTask = stages.map(s => s.agent).filter(agent => this.describe(agent).kind === 'per-task');
+    const workers = perTask.filter(agent => this.describe(agent).role !== 'reviewer');
+    if (!workers.some(agent => this.describe(agent).role === 'builder')) workers.unshift('builder');
+    const reviewer = perTask.find(agent => this.describe(agent).role === 'reviewer') ?? 'reviewer';
+    return { workers, reviewer };
+  }
+
+  /** Handoff artifacts of the stages listed before `agent` in the pipeline. */
+  private handoffBefore(stages: PipelineStage[], agent: string): string[] {
+    // A builder or reviewer the loop filled in comes right after the pre-loop stages
+    const index = stages.findIndex(s => s.agent === agent);
+    const earlier = index < 0 ? stages.filter(s => this.describe(s.agent).kind === 'pre-loop') : stages.slice(0, index);
+    return [...new Set(earlier.flatMap(s => this.describe(s.agent).handoff ?? []))];
+  }
+
+  /**
+   * Phase 2: the Ralph loop. Picks the next unchecked PLAN.md task(s), runs a
+   * fresh Builder → Reviewer pair for each and applies the verdicts. With
+   * maxParallelTasks > 1, tasks whose dependencies are met run concurrently,
+   * each in its own git worktree, and approved work is merged back.
+   */
+  private async runRalphLoop(ctx: RunContext): Promise<PipelineResult> {
+    const { project } = ctx;
+    const pipelineState = ctx.state;
     pipelineState.phase = 'building';
-    let redesignCount = 0;
-    const MAX_REDESIGNS = this.maxRetries;
 
     // Read initial task list from PLAN.md
     const planPath = join(project, '.brain', 'PLAN.md');
@@ -187,303 +811,747 @@ export class PipelineEngine {
     try {
       planContent = await readFile(planPath, 'utf-8');
     } catch {
-      pipelineState.status = 'failed';
-      pipelineState.phase = 'failed';
-      pipelineState.error = 'PLAN.md not found — architect must produce .brain/PLAN.md before Ralph loop';
-      pipelineState.updatedAt = Date.now();
-      await writePipelineState(project, pipelineState);
-      this.config.eventBus?.emit({
-        type: 'pipeline.completed', project, task, success: false, timestamp: Date.now(),
-      });
-      return { completed: false, stagesRun, retries: 0, totalTurnCount, finalVerdict: 'VALIDATION_FAILED: PLAN.md not found', sessionIds };
+      return this.failPipeline(ctx, 'VALIDATION_FAILED: PLAN.md not found', 'PLAN.md not found — architect must produce .brain/PLAN.md before Ralph loop');
     }
 
-    // Initialize task progress from checkboxes
+    // Initialize task progress from checkboxes, keeping progress from an interrupted run
     const checkboxTasks = parseCheckboxTasks(planContent);
-    pipelineState.tasks = checkboxTasks.map(t => ({
-      title: t.title,
-      status: t.checked ? 'completed' as const : 'pending' as const,
-      attempts: 0,
-      completedAt: t.checked ? Date.now() : undefined,
-    }));
+    const graphError = validateTaskGraph(checkboxTasks);
+    if (graphError) {
+      return this.failPipeline(ctx, `VALIDATION_FAILED: ${graphError}`, graphError);
+    }
+    const previous = new Map(pipelineState.tasks.map(t => [t.title, t]));
+    pipelineState.tasks = checkboxTasks.map((t): TaskProgress => {
+      const prev = previous.get(t.title);
+      if (t.checked) {
+        return { ...prev, title: t.title, status: 'completed', attempts: prev?.attempts ?? 0, completedAt: prev?.completedAt ?? Date.now() };
+      }
+      if (!prev) return { title: t.title, status: 'pending', attempts: 0 };
+      if (prev.status !== 'failed') return { ...prev, status: 'pending' };
+      // A failed task gets a fresh retry budget, and a fresh checkpoint, when its pipeline is resumed
+      const fresh: TaskProgress = { ...prev, status: 'pending', attempts: 0 };
+      delete fresh.checkpoint;
+      delete fresh.scopeBase;
+      return fresh;
+    });
     pipelineState.updatedAt = Date.now();
     await writePipelineState(project, pipelineState);
 
     this.config.log(`[pipeline] Ralph loop: ${checkboxTasks.length} tasks found in PLAN.md`);
 
+    // The pipeline stopped to ask before a redesign — act on the answer
+    const redesignDecision = this.takeDecision(ctx, 'redesign');
+    if (redesignDecision?.decision === 'approved') {
+      const failure = await this.redesign(ctx);
+      if (failure) return failure;
+    } else if (redesignDecision) {
+      await this.rejectRedesign(ctx, redesignDecision);
+    }
+
+    const parallel = this.maxParallelTasks > 1 && isGitRepo(project);
+    if (this.maxParallelTasks > 1 && !parallel) {
+      this.config.log(`[pipeline] Parallel tasks need a git repo with at least one commit — running sequentially`);
+    }
+
     // Main Ralph loop
     while (true) {
+      // Stop only between batches — verdicts of finished attempts are always applied
+      this.throwIfStopped(ctx);
+
       // Re-read PLAN.md to get current checkbox state
       try {
         planContent = await readFile(planPath, 'utf-8');
       } catch {
-        pipelineState.status = 'failed';
-        pipelineState.phase = 'failed';
-        pipelineState.error = 'PLAN.md disappeared during Ralph loop';
-        pipelineState.updatedAt = Date.now();
-        await writePipelineState(project, pipelineState);
-        this.config.eventBus?.emit({
-          type: 'pipeline.completed', project, task, success: false, timestamp: Date.now(),
-        });
-        return { completed: false, stagesRun, retries: pipelineState.retries, totalTurnCount, finalVerdict: 'PLAN_LOST', sessionIds };
+        return this.failPipeline(ctx, 'PLAN_LOST', 'PLAN.md disappeared during Ralph loop');
       }
 
-      const nextTaskTitle = findNextTask(planContent);
-      if (!nextTaskTitle) {
+      // Failed tasks are skipped; only their dependents are held back
+      const failedTitles = new Set(pipelineState.tasks.filter(t => t.status === 'failed').map(t => t.title));
+      const batch = findReadyTasks(planContent, parallel ? this.maxParallelTasks : 1, failedTitles).map(t => t.title);
+      if (batch.length === 0) {
+        if (failedTitles.size > 0) {
+          return this.failWithBlockedTasks(ctx, planContent, failedTitles);
+        }
+        if (parseCheckboxTasks(planContent).some(t => !t.checked)) {
+          return this.failPipeline(ctx, 'BLOCKED', 'Remaining PLAN.md tasks have unmet dependencies — no task can be started');
+        }
         // All checkboxes checked — pipeline complete
         break;
       }
 
-      // Find the corresponding TaskProgress entry
-      const taskIdx = pipelineState.tasks.findIndex(t => t.title === nextTaskTitle);
-      if (taskIdx >= 0) {
+      // Find the corresponding TaskProgress entries
+      const taskIdxs = batch.map(title => pipelineState.tasks.findIndex(t => t.title === title));
+      for (const taskIdx of taskIdxs) {
+        if (taskIdx < 0) continue;
+        const taskProgress = pipelineState.tasks[taskIdx]!;
         pipelineState.currentTaskIndex = taskIdx;
-        pipelineState.tasks[taskIdx]!.status = 'in_progress';
-        pipelineState.tasks[taskIdx]!.attempts++;
+        taskProgress.status = 'in_progress';
+        taskProgress.attempts++;
+        // Only once per task: an attempt interrupted by a pause must not end up in its checkpoint
+        if (pipelineState.branch && !taskProgress.checkpoint) {
+          taskProgress.checkpoint = this.checkpoint(project, taskProgress.title);
+        }
       }
-      pipelineState.totalIterations++;
+      pipelineState.inFlightTaskIndexes = taskIdxs.filter(i => i >= 0);
+      pipelineState.totalIterations += batch.length;
       pipelineState.updatedAt = Date.now();
       await writePipelineState(project, pipelineState);
 
-      this.config.log(`[pipeline] Ralph: Building task "${nextTaskTitle}" (attempt ${pipelineState.tasks[taskIdx]?.attempts ?? 1})`);
+      let attempts: TaskAttempt[];
+      if (parallel) {
+        this.config.log(`[pipeline] Ralph: Building ${batch.length} task(s) in parallel: ${batch.map(t => `"${t}"`).join(', ')}`);
+        attempts = await this.runParallelAttempts(ctx, batch, taskIdxs);
+      } else {
+        this.config.log(`[pipeline] Ralph: Building task "${batch[0]}" (attempt ${pipelineState.tasks[taskIdxs[0]!]?.attempts ?? 1})`);
+        attempts = [await this.runTaskAttempt(ctx, taskIdxs[0]!, batch[0]!, project)];
+      }
+      pipelineState.inFlightTaskIndexes = [];
+
+      let redesignTask: string | undefined;
+      try {
+        for (const [i, attempt] of attempts.entries()) {
+          const outcome = await this.applyVerdict(ctx, taskIdxs[i]!, batch[i]!, attempt, planPath);
+          if (outcome === 'redesign') {
+            redesignTask = batch[i]!;
+          } else if (outcome) {
+            return outcome;
+          }
+        }
+      } finally {
+        for (const attempt of attempts) {
+          if (attempt.worktree) await removeTaskWorktree(project, attempt.worktree);
+        }
+      }
+
+      if (redesignTask) {
+        // No point asking about a redesign the limit would refuse anyway
+        if (this.gateEnabled(project, 'redesign') && ctx.redesignCount < this.maxRetries) {
+          return this.requestApproval(ctx, 'redesign', redesignTask);
+        }
+        const failure = await this.redesign(ctx);
+        if (failure) return failure;
+      }
+    }
+
+    const outcome = await this.runPostLoopStages(ctx);
+    if (outcome === 'reopen') return this.runRalphLoop(ctx);
+    if (outcome) return outcome;
+
+    const approval = await this.approvalGate(ctx, 'complete');
+    if (approval && !('gate' in approval)) return approval;
+    if (approval?.decision === 'rejected') {
+      await this.addApprovalFeedbackTask(ctx, approval.reason ?? '');
+      return this.runRalphLoop(ctx);
+    }
+
+    // All tasks complete
+    this.config.log(`[pipeline] Pipeline complete (${ctx.stagesRun} stages, ${pipelineState.retries} retries)`);
+    pipelineState.status = 'completed';
+    pipelineState.phase = 'completed';
+    pipelineState.finalVerdict = 'APPROVE';
+    pipelineState.updatedAt = Date.now();
+    this.leaveBranch(project, pipelineState);
+    await writePipelineState(project, pipelineState);
 
-      // ── Run Builder ──
-      const builderTask = this.buildStageTask('builder', task, {
-        retries: (pipelineState.tasks[taskIdx]?.attempts ?? 1) - 1,
-        currentTaskTitle: nextTaskTitle,
+    this.config.eventBus?.emit({
+      type: 'pipeline.completed', project, task: ctx.task, success: true, timestamp: Date.now(),
+    });
+
+    return this.buildResult(ctx, true, 'APPROVE');
+  }
+
+  /**
+   * Runs the per-task stages for a PLAN.md task in the given working directory:
+   * the Builder (and any other per-task workers), the project's validation
+   * commands, then the Reviewer. A failed required check vetoes APPROVE.
+   */
+  private async runTaskAttempt(ctx: RunContext, taskIdx: number, taskTitle: string, cwd: string): Promise<TaskAttempt> {
+    const { project, task } = ctx;
+    const taskProgress = taskIdx >= 0 ? ctx.state.tasks[taskIdx] : undefined;
+    const { workers } = this.taskStages(ctx.stages);
+    // Issues the last review raised — the Builder fixes them, the Reviewer checks they're gone
+    const previousIssues = openIssues(taskProgress);
+    // Path globs PLAN.md allows the task to change, if it declares any
+    const planContent = await readFile(join(project, '.brain', 'PLAN.md'), 'utf-8').catch(() => '');
+    const scope = parseCheckboxTasks(planContent).find(t => t.title === taskTitle)?.scope;
+    // The tree before the workers run, so the Reviewer sees exactly what this attempt changed
+    const before = snapshotTree(cwd);
+    let after = before;
+    let changes: ReturnType<typeof diffTrees> | undefined;
+    // The scope covers everything the task changed, earlier attempts included. A
+    // worktree starts from HEAD every attempt, so there the attempt is the whole task
+    if (scope && taskProgress && cwd === project && !taskProgress.checkpoint && !taskProgress.scopeBase && before) {
+      taskProgress.scopeBase = before;
+    }
+    const scopeBase = cwd === project ? taskProgress?.checkpoint ?? taskProgress?.scopeBase : undefined;
+
+    // ── Run Builder and other workers ──
+    for (const agent of workers) {
+      const isBuilder = this.describe(agent).role === 'builder';
+      const workerTask = this.buildStageTask(agent, task, {
+        // A reopened task starts a fresh retry budget but still has feedback to read
+        retries: Math.max((taskProgress?.attempts ?? 1) - 1, taskProgress?.reopened ? 1 : 0),
+        currentTaskTitle: taskTitle,
+        artifacts: this.handoffBefore(ctx.stages, agent),
+        previousIssues,
+        rolledBack: taskProgress?.rolledBack,
+        scope,
       });
 
       this.config.eventBus?.emit({
-        type: 'session.started', project, agent: 'builder',
-        task: builderTask, timestamp: Date.now(),
+        type: 'session.started', project, agent,
+        task: workerTask, timestamp: Date.now(),
       });
 
-      const builderResult = await this.runWithIdleTimeout('builder', project, builderTask, 'standalone');
-      stagesRun++;
-      totalTurnCount += builderResult.turnCount ?? 0;
-      if (builderResult.sessionId) {
-        sessionIds.push(builderResult.sessionId);
-        if (taskIdx >= 0) pipelineState.tasks[taskIdx]!.lastSessionId = builderResult.sessionId;
+      const workerResult = await this.runWithIdleTimeout(
+        agent, cwd, workerTask, 'standalone', ctx,
+        scope && this.config.blockOutOfScopeWrites ? { scope } : undefined,
+      );
+      ctx.stagesRun++;
+      this.trackUsage(ctx, agent, workerResult);
+      if (workerResult.sessionId) {
+        ctx.sessionIds.push(workerResult.sessionId);
+        if (taskProgress && isBuilder) taskProgress.lastSessionId = workerResult.sessionId;
       }
 
+      after = before && snapshotTree(cwd);
+      if (before && after) changes = diffTrees(cwd, before, after);
+
       this.config.eventBus?.emit({
-        type: 'session.completed', project, agent: 'builder',
-        sessionId: builderResult.sessionId, timestamp: Date.now(),
+        type: 'session.completed', project, agent,
+        sessionId: workerResult.sessionId,
+        ...(changes && {
+          diff: { files: changes.diff.files.map(f => f.path), additions: changes.diff.additions, deletions: changes.diff.deletions },
+        }),
+        timestamp: Date.now(),
       });
 
-      // Validate builder
-      const builderError = await this.validateStage('builder', project, builderResult.structuredOutput);
-      if (builderError) {
-        this.config.log(`[pipeline] Builder validation failed: ${builderError}`);
+      const workerError = await this.validateStage(ctx, agent, cwd, workerResult.structuredOutput);
+      if (workerError) {
+        this.config.log(`[pipeline] ${isBuilder ? 'Builder' : agent} validation failed: ${workerError}`);
         // Non-fatal for individual task — reviewer will catch it
       }
+    }
 
-      // ── Run Reviewer ──
-      const reviewerTask = this.buildStageTask('reviewer', task, {
-        currentTaskTitle: nextTaskTitle,
-      });
+    // ── Run the project's checks ──
+    const checks = await runValidationCommands(await loadValidationCommands(project, this.config.log), cwd, ctx.signal);
+    this.throwIfStopped(ctx);
+    if (scope && changes) {
+      const files = scopeBase && after ? diffTrees(cwd, scopeBase, after).diff.files : changes.diff.files;
+      checks.unshift(checkScope(files.map(f => f.path), scope));
+    } else if (scope) {
+      this.config.log(`[pipeline] Cannot check the scope of "${taskTitle}" outside a git repo`);
+    }
+    if (taskProgress) taskProgress.checks = checks;
+    const failedChecks = checks.filter(c => !c.passed);
+    if (failedChecks.length > 0) {
+      this.config.log(`[pipeline] Builder validation failed: ${failedChecks.map(c => `${c.name} ${c.timedOut ? 'timed out' : `exited ${c.exitCode}`}`).join(', ')}`);
+    }
+
+    const diff = changes && await this.saveTaskDiff(project, taskProgress, taskTitle, changes);
+    const attempt = await this.runReview(ctx, taskTitle, cwd, {
+      previousIssues, checks, ...(diff && changes && { diff: formatTaskDiff(diff, changes.patch) }),
+    });
+    const failedRequired = failedChecks.filter(c => c.required);
+    if (attempt.verdict === 'APPROVE' && failedRequired.length > 0) {
+      this.config.log(`[pipeline] Required checks failed (${failedRequired.map(c => c.name).join(', ')}) — APPROVE → REVISE`);
+      return { ...attempt, verdict: 'REVISE', checks };
+    }
+    return { ...attempt, checks };
+  }
+
+  /** Runs the Reviewer — or, in consensus mode, every configured reviewer — on a built task. */
+  private async runReview(ctx: RunContext, taskTitle: string, cwd: string, inputs: ReviewInputs): Promise<TaskAttempt> {
+    const { project, task } = ctx;
+    const { reviewer } = this.taskStages(ctx.stages);
+
+    const policy = this.config.reviewPolicy?.(project);
+    if (policy?.consensus && policy.consensus.reviewers.length >= 2) {
+      return this.runConsensusReview(ctx, policy, policy.consensus, taskTitle, cwd, inputs);
+    }
+
+    // ── Run Reviewer ──
+    const reviewerTask = this.buildStageTask(reviewer, task, {
+      currentTaskTitle: taskTitle,
+      artifacts: this.handoffBefore(ctx.stages, reviewer),
+      ...inputs,
+    });
+
+    this.config.eventBus?.emit({
+      type: 'session.started', project, agent: reviewer,
+      task: reviewerTask, timestamp: Date.now(),
+    });
+
+    const reviewerResult = await this.runWithIdleTimeout(reviewer, cwd, reviewerTask, 'standalone', ctx);
+    ctx.stagesRun++;
+    this.trackUsage(ctx, reviewer, reviewerResult);
+    if (reviewerResult.sessionId) ctx.sessionIds.push(reviewerResult.sessionId);
+
+    // Validate reviewer
+    const reviewerError = await this.validateStage(ctx, reviewer, cwd, reviewerResult.structuredOutput);
+    if (reviewerError) {
+      this.config.log(`[pipeline] Reviewer validation failed: ${reviewerError}`);
+      return { verdict: 'INVALID', reviewerError };
+    }
+
+    // ── Parse verdict ──
+    let verdict: string;
+    let review: ReviewOutput | undefined;
+    let overrideReason: string | undefined;
+    if (reviewerResult.structuredOutput && typeof reviewerResult.structuredOutput === 'object') {
+      review = reviewerResult.structuredOutput as ReviewOutput;
+      ctx.lastReviewOutput = review;
+      verdict = review.verdict;
+      this.config.log(`[pipeline] Reviewer verdict: ${verdict} (${review.score}/10, ${review.issues.length} issues)`);
+
+      if (verdict === 'APPROVE' && policy) {
+        overrideReason = checkReviewPolicy(review, policy) ?? undefined;
+        if (overrideReason) {
+          verdict = 'REVISE';
+          this.config.log(`[pipeline] Review policy overrides APPROVE → REVISE: ${overrideReason}`);
+        }
+      }
+    } else {
+      verdict = await this.parseReviewVerdict(cwd);
+      this.config.log(`[pipeline] Reviewer verdict: ${verdict} (from REVIEW.md fallback)`);
+    }
+
+    this.config.eventBus?.emit({
+      type: 'session.completed', project, agent: reviewer,
+      sessionId: reviewerResult.sessionId, verdict, score: review?.score,
+      timestamp: Date.now(),
+    });
 
+    return { verdict, review, overrideReason };
+  }
+
+  /**
+   * Consensus mode: each configured reviewer reviews the task in turn, then
+   * their structured reviews are combined under the policy's rule and the
+   * policy's thresholds are applied to the result.
+   */
+  private async runConsensusReview(
+    ctx: RunContext,
+    policy: ReviewPolicy,
+    consensus: ConsensusConfig,
+    taskTitle: string,
+    cwd: string,
+    inputs: ReviewInputs,
+  ): Promise<TaskAttempt> {
+    const { project, task } = ctx;
+    // Every consensus reviewer gets the task the pipeline's own reviewer would
+    const { reviewer: position } = this.taskStages(ctx.stages);
+    const reviewerTask = this.buildStageTask(position, task, {
+      currentTaskTitle: taskTitle,
+      artifacts: this.handoffBefore(ctx.stages, position),
+      ...inputs,
+    });
+    const reviews: Array<{ reviewer: string; review: ReviewOutput }> = [];
+
+    for (const { agent, model } of consensus.reviewers) {
       this.config.eventBus?.emit({
-        type: 'session.started', project, agent: 'reviewer',
+        type: 'session.started', project, agent,
         task: reviewerTask, timestamp: Date.now(),
       });
 
-      const reviewerResult = await this.runWithIdleTimeout('reviewer', project, reviewerTask, 'standalone');
-      stagesRun++;
-      totalTurnCount += reviewerResult.turnCount ?? 0;
-      if (reviewerResult.sessionId) sessionIds.push(reviewerResult.sessionId);
-
-      // Validate reviewer
-      const reviewerError = await this.validateStage('reviewer', project, reviewerResult.structuredOutput);
-      if (reviewerError) {
-        this.config.log(`[pipeline] Reviewer validation failed: ${reviewerError}`);
-        pipelineState.status = 'failed';
-        pipelineState.phase = 'failed';
-        pipelineState.error = reviewerError;
-        pipelineState.updatedAt = Date.now();
-        await writePipelineState(project, pipelineState);
-        this.config.eventBus?.emit({
-          type: 'pipeline.completed', project, task, success: false, timestamp: Date.now(),
-        });
-        return { completed: false, stagesRun, retries: pipelineState.retries, totalTurnCount, finalVerdict: `VALIDATION_FAILED: ${reviewerError}`, sessionIds };
-      }
+      const result = await this.runWithIdleTimeout(agent, cwd, reviewerTask, 'standalone', ctx, {
+        ...(model && { model }),
+        outputSchema: REVIEW_JSON_SCHEMA,
+      });
+      ctx.stagesRun++;
+      this.trackUsage(ctx, agent, result);
+      if (result.sessionId) ctx.sessionIds.push(result.sessionId);
 
-      // ── Parse verdict ──
-      let verdict: string;
-      if (reviewerResult.structuredOutput && typeof reviewerResult.structuredOutput === 'object') {
-        const review = reviewerResult.structuredOutput as ReviewOutput;
-        lastReviewOutput = review;
-        verdict = review.verdict;
-        this.config.log(`[pipeline] Reviewer verdict: ${verdict} (${review.score}/10, ${review.issues.length} issues)`);
-      } else {
-        verdict = await this.parseReviewVerdict(project);
-        this.config.log(`[pipeline] Reviewer verdict: ${verdict} (from REVIEW.md fallback)`);
-      }
+      // REVIEW.md can't be told apart between reviewers, so each must answer with structured output
+      const structured = result.structuredOutput;
+      const reviewerError = structured && typeof structured === 'object'
+        ? await this.validateReviewer(cwd, structured)
+        : `${agent} returned no structured review (consensus mode needs one from every reviewer)`;
+      const review = reviewerError ? undefined : structured as ReviewOutput;
 
       this.config.eventBus?.emit({
-        type: 'session.completed', project, agent: 'reviewer',
-        sessionId: reviewerResult.sessionId, verdict, score: lastReviewOutput?.score,
+        type: 'session.completed', project, agent,
+        sessionId: result.sessionId, verdict: review?.verdict, score: review?.score,
         timestamp: Date.now(),
       });
 
-      if (taskIdx >= 0) {
-        pipelineState.tasks[taskIdx]!.lastVerdict = verdict;
+      if (!review) {
+        this.config.log(`[pipeline] ${agent} validation failed: ${reviewerError}`);
+        return { verdict: 'INVALID', reviewerError: `${agent}: ${reviewerError}` };
       }
+      this.config.log(`[pipeline] ${agent} verdict: ${review.verdict} (${review.score}/10, ${review.issues.length} issues)`);
+      reviews.push({ reviewer: agent, review });
+    }
 
-      // ── Handle verdict ──
-      if (verdict === 'APPROVE') {
-        // Mark checkbox in PLAN.md
-        const updatedPlan = markTaskComplete(planContent, nextTaskTitle);
-        await writeFile(planPath, updatedPlan);
+    const combined = combineReviews(reviews, consensus.rule);
+    const review = combined.review;
+    ctx.lastReviewOutput = review;
+    let verdict: string = review.verdict;
+    this.config.log(`[pipeline] Consensus (${combined.rule}): ${verdict} (${review.score}/10, ${review.issues.length} issues)${combined.disagreement ? ' — reviewers disagreed' : ''}`);
 
-        if (taskIdx >= 0) {
-          pipelineState.tasks[taskIdx]!.status = 'completed';
-          pipelineState.tasks[taskIdx]!.completedAt = Date.now();
-        }
-        pipelineState.updatedAt = Date.now();
-        await writePipelineState(project, pipelineState);
-        this.config.log(`[pipeline] Ralph: Task "${nextTaskTitle}" APPROVED — checkbox marked`);
-        continue;
+    if (combined.disagreement) {
+      this.config.eventBus?.emit({
+        type: 'review.disagreement', project, taskTitle,
+        rule: combined.rule, verdict, votes: combined.votes, timestamp: Date.now(),
+      });
+    }
+
+    let overrideReason: string | undefined;
+    if (verdict === 'APPROVE') {
+      overrideReason = checkReviewPolicy(review, policy) ?? undefined;
+      if (overrideReason) {
+        verdict = 'REVISE';
+        this.config.log(`[pipeline] Review policy overrides APPROVE → REVISE: ${overrideReason}`);
       }
+    }
 
-      // Write review feedback for retry
-      if (lastReviewOutput) {
-        const reviewMd = [
-          `# Review Feedback`,
-          '',
-          `**Verdict:** ${lastReviewOutput.verdict}`,
-          `**Score:** ${lastReviewOutput.score}/10`,
-          `**Summary:** ${lastReviewOutput.summary}`,
-          '',
-          '## Issues to Fix',
-          '',
-          ...lastReviewOutput.issues.map(
-            (issue, idx) => `${idx + 1}. **[${issue.severity}]** ${issue.description}${issue.file ? ` (${issue.file})` : ''}`
-          ),
-        ].join('\n');
-        await mkdir(join(project, '.brain'), { recursive: true });
-        await writeFile(join(project, '.brain', 'REVIEW.md'), reviewMd);
-        this.config.log(`[pipeline] Wrote review feedback to .brain/REVIEW.md for retry`);
+    return {
+      verdict, review, overrideReason,
+      consensus: { rule: combined.rule, votes: combined.votes, disagreement: combined.disagreement },
+    };
+  }
+
+  /**
+   * Runs a batch of independent tasks concurrently, each in its own worktree.
+   * Approved work is committed on the worktree branch; merging happens later
+   * in applyVerdict so merges into the project tree are never concurrent.
+   */
+  private async runParallelAttempts(ctx: RunContext, titles: string[], taskIdxs: number[]): Promise<TaskAttempt[]> {
+    const settled = await Promise.allSettled(titles.map(async (title, i): Promise<TaskAttempt> => {
+      const taskIdx = taskIdxs[i]!;
+      const worktree = await createTaskWorktree(ctx.project, title);
+      if (taskIdx >= 0) ctx.state.tasks[taskIdx]!.branch = worktree.branch;
+      this.config.log(`[pipeline] Ralph: "${title}" running in worktree ${worktree.branch}`);
+
+      try {
+        const attempt = await this.runTaskAttempt(ctx, taskIdx, title, worktree.path);
+        const commit = attempt.verdict === 'APPROVE' ? commitWorktree(worktree, taskCommitMessage(title, attempt.review)) : null;
+        return { ...attempt, worktree, ...(commit && { commit }) };
+      } catch (err) {
+        await removeTaskWorktree(ctx.project, worktree);
+        throw err;
       }
+    }));
 
-      if (verdict === 'REVISE') {
-        this.config.eventBus?.emit({
-          type: 'review.escalated', project, taskTitle: nextTaskTitle,
-          verdict: 'REVISE', score: lastReviewOutput?.score,
-          issueCount: lastReviewOutput?.issues.length, timestamp: Date.now(),
-        });
+    const rejected = settled.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+    if (rejected) {
+      for (const r of settled) {
+        if (r.status === 'fulfilled' && r.value.worktree) await removeTaskWorktree(ctx.project, r.value.worktree);
+      }
+      throw rejected.reason;
+    }
+    return settled.map(r => (r as PromiseFulfilledResult<TaskAttempt>).value);
+  }
 
-        // Check per-task retry limit
-        const attempts = pipelineState.tasks[taskIdx]?.attempts ?? 1;
-        if (attempts >= this.maxRetries + 1) {
-          this.config.log(`[pipeline] Max retries (${this.maxRetries}) reached for "${nextTaskTitle}". Stopping.`);
-          if (taskIdx >= 0) pipelineState.tasks[taskIdx]!.status = 'failed';
-          pipelineState.status = 'failed';
-          pipelineState.phase = 'failed';
-          pipelineState.finalVerdict = 'REVISE';
-          pipelineState.retries++;
-          pipelineState.updatedAt = Date.now();
-          await writePipelineState(project, pipelineState);
-          this.config.eventBus?.emit({
-            type: 'pipeline.completed', project, task, success: false, timestamp: Date.now(),
-          });
-          return { completed: false, stagesRun, retries: pipelineState.retries, totalTurnCount, finalVerdict: 'REVISE', sessionIds, review: lastReviewOutput };
-        }
+  /**
+   * Applies a reviewer verdict to PLAN.md and pipeline state.
+   * Returns a PipelineResult when the pipeline must stop, 'redesign' when the
+   * architect must re-plan, or null to keep looping.
+   */
+  private async applyVerdict(
+    ctx: RunContext,
+    taskIdx: number,
+    taskTitle: string,
+    attempt: TaskAttempt,
+    planPath: string,
+  ): Promise<PipelineResult | 'redesign' | null> {
+    const { project } = ctx;
+    const pipelineState = ctx.state;
+    const taskProgress = taskIdx >= 0 ? pipelineState.tasks[taskIdx] : undefined;
+
+    if (attempt.reviewerError) {
+      return this.failPipeline(ctx, `VALIDATION_FAILED: ${attempt.reviewerError}`, attempt.reviewerError);
+    }
 
-        pipelineState.retries++;
-        pipelineState.updatedAt = Date.now();
-        await writePipelineState(project, pipelineState);
-        this.config.log(`[pipeline] Ralph: REVISE — retrying "${nextTaskTitle}" (attempt ${attempts + 1})`);
-        continue; // Loop picks up the same unchecked task
+    let { verdict } = attempt;
+    const review = attempt.review;
+
+    if (verdict === 'APPROVE' && attempt.worktree) {
+      const merge = mergeWorktree(project, attempt.worktree);
+      if (!merge.merged) {
+        this.config.log(`[pipeline] Ralph: Could not merge ${attempt.worktree.branch} for "${taskTitle}" (${merge.error}) — retrying task`);
+        verdict = 'REVISE';
       }
+    }
 
-      if (verdict === 'REDESIGN') {
-        this.config.eventBus?.emit({
-          type: 'review.escalated', project, taskTitle: nextTaskTitle,
-          verdict: 'REDESIGN', score: lastReviewOutput?.score,
-          issueCount: lastReviewOutput?.issues.length, timestamp: Date.now(),
+    if (taskProgress) {
+      taskProgress.lastVerdict = verdict;
+      if (review) {
+        (taskProgress.reviews ??= []).push({
+          attempt: taskProgress.attempts, verdict, score: review.score, summary: review.summary, issues: review.issues,
+          ...(attempt.overrideReason && { overrideReason: attempt.overrideReason }),
+          ...(attempt.consensus && { consensus: attempt.consensus }),
         });
+      }
+      if (verdict !== 'APPROVE') await this.rollbackAttempt(project, taskProgress, attempt);
+    }
 
-        redesignCount++;
-        if (redesignCount > MAX_REDESIGNS) {
-          this.config.log(`[pipeline] Max redesigns (${MAX_REDESIGNS}) reached. Stopping.`);
-          pipelineState.status = 'failed';
-          pipelineState.phase = 'failed';
-          pipelineState.finalVerdict = 'REDESIGN';
-          pipelineState.retries++;
-          pipelineState.updatedAt = Date.now();
-          await writePipelineState(project, pipelineState);
-          this.config.eventBus?.emit({
-            type: 'pipeline.completed', project, task, success: false, timestamp: Date.now(),
-          });
-          return { completed: false, stagesRun, retries: pipelineState.retries, totalTurnCount, finalVerdict: 'REDESIGN', sessionIds, review: lastReviewOutput };
-        }
+    // ── Handle verdict ──
+    if (verdict === 'APPROVE') {
+      // Mark checkbox in PLAN.md (re-read: parallel tasks may have marked theirs)
+      const planContent = await readFile(planPath, 'utf-8');
+      await writeFile(planPath, markTaskComplete(planContent, taskTitle));
+
+      const commit = attempt.worktree
+        ? attempt.commit
+        : pipelineState.branch ? this.commitTask(project, taskTitle, review) : undefined;
+      if (taskProgress) {
+        taskProgress.status = 'completed';
+        taskProgress.completedAt = Date.now();
+        delete taskProgress.reopened;
+        delete taskProgress.rolledBack;
+        if (commit) (taskProgress.commits ??= []).push(commit);
+      }
+      pipelineState.updatedAt = Date.now();
+      await writePipelineState(project, pipelineState);
+      this.config.log(`[pipeline] Ralph: Task "${taskTitle}" APPROVED — checkbox marked`);
+      return null;
+    }
 
-        this.config.log(`[pipeline] Ralph: REDESIGN — re-running architect (redesign ${redesignCount})`);
-        pipelineState.phase = 'planning';
-        pipelineState.retries++;
-        pipelineState.updatedAt = Date.now();
-        await writePipelineState(project, pipelineState);
+    // Write review feedback for retry — a REDESIGN also goes to REVIEW.md, where the Architect reads it
+    const checks = attempt.checks ?? [];
+    const feedback = review
+      ? { ...review, verdict, overrideReason: attempt.overrideReason, checks }
+      : checks.some(c => !c.passed) ? { verdict, summary: 'The project checks failed.', issues: [], checks } : undefined;
+    if (feedback) {
+      await this.writeReviewFeedback(project, feedback, taskTitle);
+      if (verdict === 'REDESIGN') await this.writeReviewFeedback(project, feedback);
+    }
 
-        // Re-run architect
-        const architectTask = this.buildStageTask('architect', task, { retries: redesignCount });
-        const architectResult = await this.runWithIdleTimeout('architect', project, architectTask, 'standalone');
-        stagesRun++;
-        totalTurnCount += architectResult.turnCount ?? 0;
-        if (architectResult.sessionId) sessionIds.push(architectResult.sessionId);
-
-        await this.cleanupPlanPartFiles(project);
-
-        const archError = await this.validateStage('architect', project, architectResult.structuredOutput);
-        if (archError) {
-          pipelineState.status = 'failed';
-          pipelineState.phase = 'failed';
-          pipelineState.error = archError;
-          pipelineState.updatedAt = Date.now();
-          await writePipelineState(project, pipelineState);
-          this.config.eventBus?.emit({
-            type: 'pipeline.completed', project, task, success: false, timestamp: Date.now(),
-          });
-          return { completed: false, stagesRun, retries: pipelineState.retries, totalTurnCount, finalVerdict: `VALIDATION_FAILED: ${archError}`, sessionIds };
-        }
+    if (verdict === 'REVISE') {
+      this.config.eventBus?.emit({
+        type: 'review.escalated', project, taskTitle,
+        verdict: 'REVISE', score: review?.score,
+        issueCount: review?.issues.length, overrideReason: attempt.overrideReason, timestamp: Date.now(),
+      });
 
-        // Re-parse fresh plan
-        planContent = await readFile(planPath, 'utf-8');
-        const freshTasks = parseCheckboxTasks(planContent);
-        pipelineState.tasks = freshTasks.map(t => ({
-          title: t.title,
-          status: 'pending' as const,
-          attempts: 0,
-        }));
-        pipelineState.currentTaskIndex = -1;
-        pipelineState.phase = 'building';
+      // Check per-task retry limit
+      const attempts = taskProgress?.attempts ?? 1;
+      if (attempts >= this.maxRetries + 1) {
+        // Give up on this task only — independent tasks keep going, dependents get blocked
+        this.config.log(`[pipeline] Max retries (${this.maxRetries}) reached for "${taskTitle}". Marking task failed.`);
+        if (taskProgress) taskProgress.status = 'failed';
+        pipelineState.retries++;
         pipelineState.updatedAt = Date.now();
         await writePipelineState(project, pipelineState);
-
-        this.config.log(`[pipeline] Ralph: Architect produced ${freshTasks.length} fresh tasks after REDESIGN`);
-        continue;
+        return null;
       }
 
-      // Unknown verdict — treat as REVISE
-      this.config.log(`[pipeline] Unknown verdict "${verdict}" — treating as REVISE`);
+      if (taskProgress) taskProgress.status = 'pending';
       pipelineState.retries++;
       pipelineState.updatedAt = Date.now();
       await writePipelineState(project, pipelineState);
+      this.config.log(`[pipeline] Ralph: REVISE — retrying "${taskTitle}" (attempt ${attempts + 1})`);
+      return null; // Loop picks up the same unchecked task
     }
 
-    // All tasks complete
-    this.config.log(`[pipeline] Pipeline complete (${stagesRun} stages, ${pipelineState.retries} retries)`);
-    pipelineState.status = 'completed';
-    pipelineState.phase = 'completed';
-    pipelineState.finalVerdict = 'APPROVE';
+    if (verdict === 'REDESIGN') {
+      this.config.eventBus?.emit({
+        type: 'review.escalated', project, taskTitle,
+        verdict: 'REDESIGN', score: review?.score,
+        issueCount: review?.issues.length, timestamp: Date.now(),
+      });
+      return 'redesign';
+    }
+
+    // Unknown verdict — treat as REVISE
+    this.config.log(`[pipeline] Unknown verdict "${verdict}" — treating as REVISE`);
+    if (taskProgress) taskProgress.status = 'pending';
+    pipelineState.retries++;
+    pipelineState.updatedAt = Date.now();
+    await writePipelineState(project, pipelineState);
+    return null;
+  }
+
+  /**
+   * Writes review feedback for the task's next Builder to its own file under
+   * .brain/reviews/, so parallel tasks never read each other's. Without a task
+   * it goes to .brain/REVIEW.md, for the Architect.
+   */
+  private async writeReviewFeedback(
+    project: string,
+    review: Pick<ReviewOutput, 'summary' | 'issues'> & { verdict: string; score?: number; overrideReason?: string; checks?: CheckResult[] },
+    taskTitle?: string,
+  ): Promise<void> {
+    const failedChecks = (review.checks ?? []).filter(c => !c.passed);
+    const reviewMd = [
+      `# Review Feedback`,
+      '',
+      `**Verdict:** ${review.verdict}`,
+      ...(review.score !== undefined ? [`**Score:** ${review.score}/10`] : []),
+      `**Summary:** ${review.summary}`,
+      ...(review.overrideReason ? [`**Review policy:** not approved — ${review.overrideReason}`] : []),
+      '',
+      '## Issues to Fix',
+      '',
+      formatIssues(review.issues),
+      ...(failedChecks.length > 0 ? ['', '## Failed Checks', '', formatCheckResults(failedChecks)] : []),
+    ].join('\n');
+    const path = taskTitle ? reviewFeedbackPath(taskTitle) : join('.brain', 'REVIEW.md');
+    await mkdir(dirname(join(project, path)), { recursive: true });
+    await writeFile(join(project, path), reviewMd);
+    this.config.log(`[pipeline] Wrote review feedback to ${path} for retry`);
+  }
+
+  /** Re-runs the architect after a REDESIGN verdict and resets task progress from the fresh plan. */
+  private async redesign(ctx: RunContext): Promise<PipelineResult | null> {
+    const { project, task } = ctx;
+    const pipelineState = ctx.state;
+    const maxRedesigns = this.maxRetries;
+
+    ctx.redesignCount++;
+    pipelineState.redesignCount = ctx.redesignCount;
+    if (ctx.redesignCount > maxRedesigns) {
+      this.config.log(`[pipeline] Max redesigns (${maxRedesigns}) reached. Stopping.`);
+      pipelineState.retries++;
+      return this.failPipeline(ctx, 'REDESIGN');
+    }
+
+    this.config.log(`[pipeline] Ralph: REDESIGN — re-running architect (redesign ${ctx.redesignCount})`);
+    pipelineState.phase = 'planning';
+    pipelineState.retries++;
+    pipelineState.updatedAt = Date.now();
+    await writePipelineState(project, pipelineState);
+
+    // Re-run architect
+    this.throwIfStopped(ctx);
+    const architect = ctx.stages.find(s => this.describe(s.agent).role === 'architect')?.agent ?? 'architect';
+    const architectTask = this.buildStageTask(architect, task, { retries: ctx.redesignCount });
+    const architectResult = await this.runWithIdleTimeout(architect, project, architectTask, 'standalone', ctx);
+    ctx.stagesRun++;
+    this.trackUsage(ctx, architect, architectResult);
+    if (architectResult.sessionId) ctx.sessionIds.push(architectResult.sessionId);
+
+    await this.cleanupPlanPartFiles(project);
+
+    const archError = await this.validateStage(ctx, architect, project, architectResult.structuredOutput);
+    if (archError) {
+      return this.failPipeline(ctx, `VALIDATION_FAILED: ${archError}`, archError);
+    }
+
+    // Re-parse fresh plan
+    const planContent = await readFile(join(project, '.brain', 'PLAN.md'), 'utf-8');
+    const freshTasks = parseCheckboxTasks(planContent);
+    pipelineState.tasks = freshTasks.map(t => ({
+      title: t.title,
+      status: 'pending' as const,
+      attempts: 0,
+    }));
+    pipelineState.currentTaskIndex = -1;
+    pipelineState.phase = 'building';
+    pipelineState.updatedAt = Date.now();
+    await writePipelineState(project, pipelineState);
+
+    this.config.log(`[pipeline] Ralph: Architect produced ${freshTasks.length} fresh tasks after REDESIGN`);
+    return null;
+  }
+
+  /**
+   * Ends a Ralph loop that has no runnable tasks left because some failed:
+   * marks their dependents as blocked and fails the pipeline with the verdict
+   * that sank the last failed task.
+   */
+  private async failWithBlockedTasks(ctx: RunContext, planContent: string, failedTitles: Set<string>): Promise<PipelineResult> {
+    const blocked = findBlockedTasks(planContent, failedTitles);
+    for (const task of blocked) {
+      const progress = ctx.state.tasks.find(t => t.title === task.title);
+      if (progress) progress.status = 'blocked';
+    }
+
+    const failed = ctx.state.tasks.filter(t => t.status === 'failed');
+    const verdict = failed[failed.length - 1]?.lastVerdict ?? 'REVISE';
+    const blockedNote = blocked.length > 0 ? `; ${blocked.length} dependent task(s) blocked` : '';
+    ctx.state.error = `${failed.length} task(s) failed: ${failed.map(t => `"${t.title}"`).join(', ')}${blockedNote}`;
+    this.config.log(`[pipeline] Ralph: ${ctx.state.error}`);
+    return this.failPipeline(ctx, verdict);
+  }
+
+  /** Marks the pipeline failed, emits pipeline.completed and builds the result. */
+  private async failPipeline(ctx: RunContext, finalVerdict: string, error?: string): Promise<PipelineResult> {
+    const pipelineState = ctx.state;
+    pipelineState.status = 'failed';
+    pipelineState.phase = 'failed';
+    if (error) {
+      pipelineState.error = error;
+    } else {
+      pipelineState.finalVerdict = finalVerdict;
+    }
+    pipelineState.updatedAt = Date.now();
+    this.leaveBranch(ctx.project, pipelineState);
+    await writePipelineState(ctx.project, pipelineState);
+    this.config.eventBus?.emit({
+      type: 'pipeline.completed', project: ctx.project, task: ctx.task, success: false, timestamp: Date.now(),
+    });
+    return this.buildResult(ctx, false, finalVerdict);
+  }
+
+  private throwIfStopped(ctx: RunContext): void {
+    if (ctx.signal?.aborted) {
+      throw new Error(`PIPELINE_STOPPED: ${stopReason(ctx.signal)}`);
+    }
+  }
+
+  /**
+   * Records a pipeline stopped through its AbortSignal. Tasks that were in flight
+   * go back to pending without using up an attempt — their worktrees are already
+   * gone and PLAN.md is only ever touched after a verdict, so both stay consistent.
+   * A 'shutdown' stop leaves the status running so the next daemon resumes it.
+   */
+  private async haltPipeline(ctx: RunContext): Promise<PipelineResult> {
+    const { project, task } = ctx;
+    const pipelineState = ctx.state;
+    const reason = stopReason(ctx.signal);
+
+    for (const taskProgress of pipelineState.tasks) {
+      if (taskProgress.status !== 'in_progress') continue;
+      taskProgress.status = 'pending';
+      taskProgress.attempts = Math.max(0, taskProgress.attempts - 1);
+      delete taskProgress.branch;
+    }
+    pipelineState.inFlightTaskIndexes = [];
+
+    const finalVerdict = reason === 'cancel' ? 'CANCELLED' : reason === 'pause' ? 'PAUSED' : 'INTERRUPTED';
+    if (reason === 'cancel') {
+      pipelineState.status = 'cancelled';
+      pipelineState.finalVerdict = finalVerdict;
+      this.leaveBranch(project, pipelineState);
+    } else if (reason === 'pause') {
+      pipelineState.status = 'paused';
+    }
     pipelineState.updatedAt = Date.now();
     await writePipelineState(project, pipelineState);
 
+    this.config.log(`[pipeline] Pipeline stopped (${reason}) during ${pipelineState.phase}`);
     this.config.eventBus?.emit({
-      type: 'pipeline.completed', project, task, success: true, timestamp: Date.now(),
+      type: 'pipeline.halted', project, task, reason, timestamp: Date.now(),
     });
 
-    return { completed: true, stagesRun, retries: pipelineState.retries, totalTurnCount, finalVerdict: 'APPROVE', sessionIds, review: lastReviewOutput };
+    return this.buildResult(ctx, false, finalVerdict);
+  }
+
+  /** Adds a finished session's turns and token usage to the run totals. */
+  private trackUsage(ctx: RunContext, agent: string, result: RunResult): void {
+    const byAgent = ctx.usageByAgent[agent] ??= { turnCount: 0, usage: {} };
+    ctx.totalTurnCount += result.turnCount ?? 0;
+    byAgent.turnCount += result.turnCount ?? 0;
+    if (result.usage) {
+      addUsage(ctx.usage, result.usage);
+      addUsage(byAgent.usage, result.usage);
+    }
+  }
+
+  private buildResult(ctx: RunContext, completed: boolean, finalVerdict: string): PipelineResult {
+    return {
+      completed,
+      stagesRun: ctx.stagesRun,
+      retries: ctx.state.retries,
+      totalTurnCount: ctx.totalTurnCount,
+      usage: ctx.usage,
+      usageByAgent: ctx.usageByAgent,
+      finalVerdict,
+      sessionIds: ctx.sessionIds,
+      review: ctx.lastReviewOutput,
+    };
   }
 
   private async ensureProjectContext(project: string, task: string): Promise<void> {
@@ -514,12 +1582,27 @@ export class PipelineEngine {
     }
   }
 
-  private async validateStage(agent: string, project: string, structuredOutput?: unknown): Promise<string | null> {
-    if (agent === 'scout' || agent.includes('scout')) return this.validateScout(project);
-    if (agent === 'architect' || agent.includes('architect')) return this.validateArchitect(project);
-    if (agent === 'builder' || agent.includes('build')) return this.validateBuilder(project);
-    if (agent === 'reviewer' || agent.includes('review')) return this.validateReviewer(project, structuredOutput);
-    return null;
+  /** Runs the role's built-in checks, then the descriptor's own validation rules. */
+  private async validateStage(ctx: RunContext, agent: string, project: string, structuredOutput?: unknown): Promise<string | null> {
+    const descriptor = this.describe(agent);
+    const roleError = await this.validateRole(agent, descriptor, project, structuredOutput);
+    if (roleError || !descriptor.validate) return roleError;
+    const error = await validateStageOutput(agent, descriptor.validate, project, structuredOutput, ctx.signal);
+    // A validation command killed by a pause or cancel is a stop, not a failed stage
+    this.throwIfStopped(ctx);
+    return error;
+  }
+
+  private async validateRole(agent: string, descriptor: StageDescriptor, project: string, structuredOutput?: unknown): Promise<string | null> {
+    switch (descriptor.role) {
+      case 'scout': return this.validateScout(project);
+      case 'architect': return this.validateArchitect(project);
+      case 'builder': return this.validateBuilder(project);
+      case 'reviewer': return this.validateReviewer(project, structuredOutput);
+      case 'integration-reviewer': return validateStageOutput(agent, { schema: INTEGRATION_REVIEW_JSON_SCHEMA }, project, structuredOutput);
+      case 'release-notes': return validateStageOutput(agent, { outputs: ['CHANGELOG.md'] }, project);
+      default: return null;
+    }
   }
 
   private async validateScout(project: string): Promise<string | null> {
@@ -551,6 +1634,9 @@ export class PipelineEngine {
       return 'PLAN.md has no checkbox tasks (expected "- [ ] Task description" format)';
     }
 
+    const graphError = validateTaskGraph(tasks);
+    if (graphError) return graphError;
+
     const checkedCount = tasks.filter(t => t.checked).length;
     if (checkedCount > 0) {
       return `PLAN.md has ${checkedCount} pre-checked tasks — fresh plan should be all unchecked`;
@@ -562,8 +1648,8 @@ export class PipelineEngine {
   private async validateBuilder(project: string): Promise<string | null> {
     // 1. Check for file changes via git (exclude .brain/ pipeline metadata)
     try {
-      // Only run git checks if the project is a git repo root
-      await readdir(join(project, '.git'));
+      // Only run git checks if the project is a git repo root (or worktree, where .git is a file)
+      await access(join(project, '.git'));
       const { execFileSync } = await import('node:child_process');
       const diff = execFileSync('git', ['diff', '--name-only', 'HEAD', '--', '.', ':!.brain'], {
         cwd: project, encoding: 'utf-8', timeout: 10_000,
@@ -583,23 +1669,7 @@ export class PipelineEngine {
       // Not a git repo or git not available — skip diff check
     }
 
-    // 2. Run test suite if available
-    try {
-      const pkgRaw = await readFile(join(project, 'package.json'), 'utf-8');
-      const pkg = JSON.parse(pkgRaw) as { scripts?: Record<string, string> };
-      if (pkg.scripts?.['test']) {
-        const { execFileSync } = await import('node:child_process');
-        execFileSync('bun', ['run', 'test'], {
-          cwd: project, encoding: 'utf-8', timeout: 120_000, stdio: 'pipe',
-        });
-      }
-    } catch (err) {
-      if (err && typeof err === 'object' && 'status' in err && err.status !== null) {
-        return 'Builder validation failed: tests did not pass';
-      }
-      // No package.json or no test script — skip test check
-    }
-
+    // Tests, lint and the like run as the project's validation commands once all workers are done
     return null;
   }
 
@@ -645,39 +1715,123 @@ export class PipelineEngine {
     }
   }
 
+  /**
+   * The prompt for a stage: the descriptor's custom prompt or the role's
+   * built-in one, plus any handoff artifacts of earlier stages it doesn't
+   * already mention.
+   */
   private buildStageTask(
     agent: string,
     originalTask: string,
-    options: { retries?: number; currentTaskTitle?: string },
+    options: {
+      retries?: number;
+      currentTaskTitle?: string;
+      artifacts?: string[];
+      baseCommit?: string;
+      previousIssues?: ReviewIssue[];
+      /** A human's reason for rejecting the stage's last output. */
+      rejection?: string;
+      checks?: CheckResult[];
+      rolledBack?: TaskProgress['rolledBack'];
+      diff?: string;
+      scope?: string[];
+    },
   ): string {
-    const { retries = 0, currentTaskTitle } = options;
+    const descriptor = this.describe(agent);
+    let prompt: string;
+    if (descriptor.prompt !== undefined) {
+      const taskInstruction = options.currentTaskTitle
+        ? `\n\nYOU ARE WORKING ON THIS SPECIFIC TASK: "${options.currentTaskTitle}"`
+        : '';
+      prompt = `${descriptor.prompt}${taskInstruction}\n\nTask: ${originalTask}`;
+    } else {
+      prompt = this.roleStageTask(descriptor.role, originalTask, options);
+    }
+    if (options.rejection) {
+      prompt += `\n\nCRITICAL — REJECTED: A human rejected your previous output with this feedback: "${options.rejection}". Redo the work so it addresses the feedback.`;
+    }
+
+    const unmentioned = (options.artifacts ?? []).filter(artifact => !prompt.includes(artifact));
+    if (unmentioned.length === 0) return prompt;
+    return `Earlier pipeline stages left these artifacts for you — read them first: ${unmentioned.join(', ')}\n\n${prompt}`;
+  }
 
-    if (agent === 'scout' || agent.includes('scout')) {
+  private roleStageTask(
+    role: StageRole | undefined,
+    originalTask: string,
+    options: {
+      retries?: number;
+      currentTaskTitle?: string;
+      baseCommit?: string;
+      previousIssues?: ReviewIssue[];
+      checks?: CheckResult[];
+      rolledBack?: TaskProgress['rolledBack'];
+      diff?: string;
+      scope?: string[];
+    },
+  ): string {
+    const { retries = 0, currentTaskTitle, baseCommit, previousIssues = [], checks = [], rolledBack, diff, scope } = options;
+    const changeSet = baseCommit
+      ? `Run \`git diff ${baseCommit}\` to see the cumulative change, and \`git status\` for new files.`
+      : 'Read .brain/PLAN.md and inspect the files its tasks touched to see the change.';
+
+    if (role === 'scout') {
       return `Research the following task thoroughly. Follow the research-scan skill. Write your findings to .brain/RESEARCH/ directory — create one markdown file per research topic. Include technology evaluations, API comparisons, best practices, and any other findings relevant to planning. Do NOT write code or make architectural decisions — you ONLY research and document findings. The Architect agent will use your research to create the implementation plan.\n\nTask: ${originalTask}`;
     }
 
-    if (agent === 'architect' || agent.includes('architect')) {
+    if (role === 'architect') {
       const redesignInstruction = retries > 0
         ? `\n\nCRITICAL — REDESIGN: A reviewer rejected the previous architecture. Read .brain/REVIEW.md FIRST for their feedback. Your new plan must address all the reviewer's concerns.`
         : '';
-      return `Design the architecture and create a detailed implementation plan for the following task. Start by reading .brain/RESEARCH/ if it exists — this contains research from the Scout agent. Then follow the plan-feature skill. Write the plan to .brain/PLAN.md using checkbox format:\n\n- [ ] Task description\n- [ ] Another task\n\nEach task should be completable in a single agent session (10-20 minutes). Order tasks by dependency — earlier tasks should not depend on later ones. Write architectural decisions to .brain/DECISIONS.md. Do NOT write any source code, config files, or install dependencies — you ONLY write to .brain/ files.${redesignInstruction}\n\nTask: ${originalTask}`;
+      return `Design the architecture and create a detailed implementation plan for the following task. Start by reading .brain/RESEARCH/ if it exists — this contains research from the Scout agent. Then follow the plan-feature skill. Write the plan to .brain/PLAN.md using checkbox format:\n\n- [ ] Task description\n- [ ] Another task\n\nEach task should be completable in a single agent session (10-20 minutes). Order tasks by dependency — earlier tasks should not depend on later ones. If some tasks are independent of each other, give every task an ID and declare its dependencies explicitly so they can be built in parallel:\n\n- [ ] T1: Task description\n- [ ] T2: Another task (depends: T1)\n\nTo keep a task narrow, list the files it may change as globs:\n\n- [ ] T3: Add auth (depends: T1) (scope: src/auth/**, tests/auth/**)\n\nWrite architectural decisions to .brain/DECISIONS.md. Do NOT write any source code, config files, or install dependencies — you ONLY write to .brain/ files.${redesignInstruction}\n\nTask: ${originalTask}`;
     }
 
-    if (agent === 'builder' || agent.includes('build')) {
+    if (role === 'builder') {
+      const issueList = previousIssues.length > 0
+        ? `\n\nThe review raised these issues — fix every one:\n${formatIssues(previousIssues)}`
+        : '';
+      const rollbackNote = rolledBack
+        ? `\n\nYour previous attempt was rolled back, so the code is as it was before this task.${rolledBack.patch ? ` Its diff is saved in ${rolledBack.patch} — reuse what the review did not object to (\`git apply\` restores it) rather than starting from scratch.` : ''}`
+        : '';
+      const feedbackFile = currentTaskTitle ? reviewFeedbackPath(currentTaskTitle) : join('.brain', 'REVIEW.md');
       const retryInstruction = retries > 0
-        ? `\n\nCRITICAL — RETRY: A previous review found issues. Read .brain/REVIEW.md FIRST and fix all listed issues before doing anything else.`
+        ? `\n\nCRITICAL — RETRY: A previous review found issues. Read ${feedbackFile} FIRST and fix all listed issues before doing anything else.${issueList}${rollbackNote}`
         : '';
       const taskInstruction = currentTaskTitle
         ? `\n\nYOU ARE WORKING ON THIS SPECIFIC TASK: "${currentTaskTitle}"\nImplement ONLY this task. Do not implement other tasks from the plan.`
         : '';
-      return `Implement a single task from the implementation plan. Start by reading .brain/PLAN.md — this is your spec from Architect. Also read .brain/DECISIONS.md for architectural decisions. Follow the plan step by step. Write source code, write a unit test to verify your work, and ensure it builds. Always use bun, not npm.${taskInstruction}${retryInstruction}\n\nProject task: ${originalTask}`;
+      const scopeInstruction = scope
+        ? `\n\nThis task may only change files matching: ${scope.join(', ')}. Changing any other file (outside .brain/) fails the task.`
+        : '';
+      return `Implement a single task from the implementation plan. Start by reading .brain/PLAN.md — this is your spec from Architect. Also read .brain/DECISIONS.md for architectural decisions. Follow the plan step by step. Write source code, write a unit test to verify your work, and ensure it builds. Always use bun, not npm.${taskInstruction}${scopeInstruction}${retryInstruction}\n\nProject task: ${originalTask}`;
     }
 
-    if (agent === 'reviewer' || agent.includes('review')) {
+    if (role === 'reviewer') {
       const taskInstruction = currentTaskTitle
         ? `\n\nYou are reviewing the implementation of: "${currentTaskTitle}". Focus your review on the code implementing this specific task.`
         : '';
-      return `Review the code written by Builder for the following task. Follow the review-loop and review-code skills. Read .brain/PLAN.md to understand what was supposed to be built, then review the actual code. Read .brain/PATTERNS.md and verify the code follows established patterns. Run tests/build. Your final response will be captured as structured JSON. As a backup, also write your verdict to .brain/REVIEW.md with a "Verdict: APPROVE", "Verdict: REVISE", or "Verdict: REDESIGN" line.${taskInstruction}\n\nProject task: ${originalTask}`;
+      const followUp = previousIssues.length > 0
+        ? `\n\nThis is a retry. The previous review raised these issues:\n${formatIssues(previousIssues)}\nVerify each one is resolved. List any that is not as an issue again, and do not APPROVE while one is open.`
+        : '';
+      const checkResults = checks.length > 0
+        ? `\n\nThe pipeline already ran the project's checks on this code:\n${formatCheckResults(checks)}\nTreat each failure as an issue. A failed required check means the task cannot be approved.`
+        : '';
+      const changes = diff
+        ? `\n\nThis attempt made these changes (.brain/ excluded). Review them, not the rest of the repo — read surrounding code only for context:\n${diff}`
+        : '';
+      return `Review the code written by Builder for the following task. Follow the review-loop and review-code skills. Read .brain/PLAN.md to understand what was supposed to be built, then review the actual code. Read .brain/PATTERNS.md and verify the code follows established patterns. Run tests/build. Your final response will be captured as structured JSON. As a backup, also write your verdict to .brain/REVIEW.md with a "Verdict: APPROVE", "Verdict: REVISE", or "Verdict: REDESIGN" line.${taskInstruction}${changes}${followUp}${checkResults}\n\nProject task: ${originalTask}`;
+    }
+
+    if (role === 'integration-reviewer') {
+      return `Review the complete change set for the following task. Every PLAN.md task is done and was reviewed on its own — your job is how the pieces fit together. ${changeSet} Read .brain/PLAN.md and .brain/DECISIONS.md, then check that the parts integrate: interfaces match, data flows end to end, nothing is wired up twice or not at all, and the build and tests pass. Do NOT modify any files. Your final response will be captured as structured JSON: verdict APPROVE, or REVISE with the exact PLAN.md task titles whose work must be redone in reopenTasks (leave it empty when the fix is new work), plus a summary and the issues.\n\nProject task: ${originalTask}`;
+    }
+
+    if (role === 'docs-writer') {
+      return `Update the project documentation for the change set built for the following task. ${changeSet} Bring the README, docs/ and the doc comments of public APIs in line with what was built. Change documentation only, not code.\n\nProject task: ${originalTask}`;
+    }
+
+    if (role === 'release-notes') {
+      return `Write release notes for the change set built for the following task. ${changeSet} Add an entry at the top of CHANGELOG.md (create it if missing) describing the user-visible changes, grouped under Added, Changed and Fixed. Change no other files.\n\nProject task: ${originalTask}`;
     }
 
     return originalTask;
@@ -692,7 +1846,13 @@ export class PipelineEngine {
     project: string,
     stageTask: string,
     mode: 'standalone' | 'team',
+    ctx: Pick<RunContext, 'signal' | 'stageOptions'>,
+    overrides?: StageOverrides & Pick<RunnerOptions, 'outputSchema' | 'scope'>,
   ): Promise<RunResult> {
+    const signal = ctx.signal;
+    // Reviewer-role agents need their verdict schema whatever they're called
+    const descriptor = this.describe(agent);
+    const outputSchema = descriptor.validate?.schema ?? (descriptor.role && ROLE_OUTPUT_SCHEMAS[descriptor.role]);
     const tracker: ActivityTracker = {
       lastActivityMs: Date.now(),
       touch() { this.lastActivityMs = Date.now(); },
@@ -703,6 +1863,14 @@ export class PipelineEngine {
     const timeoutMs = mode === 'team' ? Math.max(this.idleTimeoutMs, 15 * 60_000) : this.idleTimeoutMs;
     const { promise: idlePromise, cancel: cancelIdle } = this.createIdleWatcher(tracker, agent, timeoutMs);
 
+    // Don't wait for the runner to notice the abort — the stage ends as soon as it fires
+    let onAbort: (() => void) | undefined;
+    const abortPromise = new Promise<never>((_, reject) => {
+      onAbort = () => reject(new Error(`STAGE_ABORTED: ${agent} stopped (${stopReason(signal)})`));
+      if (signal?.aborted) onAbort();
+      else signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
     try {
       const result = await Promise.race([
         this.config.runner(agent, project, stageTask, {
@@ -710,13 +1878,19 @@ export class PipelineEngine {
           hooks: this.config.hooks,
           log: this.config.log,
           activityTracker: tracker,
+          signal,
+          ...ctx.stageOptions[agent],
+          ...(outputSchema && { outputSchema }),
+          ...overrides,
         }),
         idlePromise,
+        abortPromise,
       ]);
       return result;
     } finally {
       // Clean up the interval to prevent leaks when the runner resolves first
       cancelIdle();
+      signal?.removeEventListener('abort', onAbort!);
     }
   }
 
@@ -745,3 +1919,54 @@ export class PipelineEngine {
     return { promise, cancel: () => clearInterval(interval!) };
   }
 }
+
+/** Numbered markdown list of review issues: severity, description and file. */
+function formatIssues(issues: ReviewIssue[]): string {
+  return issues
+    .map((issue, idx) => `${idx + 1}. **[${issue.severity}]** ${issue.description}${issue.file ? ` (${issue.file})` : ''}`)
+    .join('\n');
+}
+
+/** Where a task's latest review feedback is written for its next Builder. */
+function reviewFeedbackPath(taskTitle: string): string {
+  return join('.brain', 'reviews', `${slugify(taskTitle)}.md`);
+}
+
+/** Where an attempt's diff is saved — one file per attempt, for the Reviewer and for rollbacks. */
+function attemptDiffPath(taskTitle: string, attempt: number): string {
+  return join('.brain', 'attempts', `${slugify(taskTitle)}-attempt-${attempt}.diff`);
+}
+
+/** Commit message for an approved task: the title as the subject, the review summary as the body. */
+function taskCommitMessage(taskTitle: string, review?: Pick<ReviewOutput, 'summary'>): string {
+  const subject = taskTitle.length > 72 ? `${taskTitle.slice(0, 71)}…` : taskTitle;
+  return review?.summary ? `${subject}\n\n${review.summary}` : subject;
+}
+
+/** Issues from a task's latest review, unless that review approved it. */
+function openIssues(taskProgress: TaskProgress | undefined): ReviewIssue[] {
+  const last = taskProgress?.reviews?.[taskProgress.reviews.length - 1];
+  return last && last.verdict !== 'APPROVE' ? last.issues : [];
+}
+
+/** Structured output the built-in roles answer with. */
+const ROLE_OUTPUT_SCHEMAS: Partial<Record<StageRole, Record<string, unknown>>> = {
+  reviewer: REVIEW_JSON_SCHEMA,
+  'integration-reviewer': INTEGRATION_REVIEW_JSON_SCHEMA,
+};
+
+/** Reads the PipelineStopReason an AbortSignal was aborted with. Anything else counts as a cancel. */
+function stopReason(signal: AbortSignal | undefined): PipelineStopReason {
+  const reason: unknown = signal?.reason;
+  return reason === 'pause' || reason === 'shutdown' ? reason : 'cancel';
+}
+
+/** Model and turn overrides keyed by agent. The first stage that sets any for an agent wins. */
+function stageOverrides(stages: PipelineStage[]): Record<string, StageOverrides> {
+  const overrides: Record<string, StageOverrides> = {};
+  for (const { agent, model, maxTurns } of stages) {
+    if (overrides[agent] || (model === undefined && maxTurns === undefined)) continue;
+    overrides[agent] = { ...(model !== undefined && { model }), ...(maxTurns !== undefined && { maxTurns }) };
+  }
+  return overrides;
+}
@@ -0,0 +1,73 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createGitHubClient } from './githost.js';
+
+interface Received {
+  method?: string;
+  url?: string;
+  headers: IncomingHttpHeaders;
+  body: unknown;
+}
+
+describe('createGitHubClient', () => {
+  let server: Server;
+  let apiUrl: string;
+  let received: Received[];
+  let reply: { status: number; body: unknown };
+
+  beforeEach(async () => {
+    received = [];
+    reply = { status: 201, body: { number: 7, html_url: 'https://github.com/acme/app/pull/7' } };
+    server = createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk: Buffer) => { raw += chunk.toString(); });
+      req.on('end', () => {
+        received.push({ method: req.method, url: req.url, headers: req.headers, body: JSON.parse(raw) });
+        res.writeHead(reply.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(reply.body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  test('opens a pull request and returns its number and URL', async () => {
+    const client = createGitHubClient({ token: 'secret', apiUrl });
+    const pullRequest = await client.createPullRequest({
+      repo: 'acme/app', head: 'codename/pipeline-add-auth-x1', base: 'main', title: 'Add auth', body: 'Body', draft: true,
+    });
+
+    expect(pullRequest).toEqual({ number: 7, url: 'https://github.com/acme/app/pull/7' });
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({
+      method: 'POST',
+      url: '/repos/acme/app/pulls',
+      headers: { authorization: 'Bearer secret', accept: 'application/vnd.github+json' },
+      body: { title: 'Add auth', body: 'Body', head: 'codename/pipeline-add-auth-x1', base: 'main', draft: true },
+    });
+  });
+
+  test('throws with the API error and its details', async () => {
+    reply = {
+      status: 422,
+      body: { message: 'Validation Failed', errors: [{ message: 'A pull request already exists for acme:feature.' }] },
+    };
+    const client = createGitHubClient({ token: 'secret', apiUrl });
+
+    await expect(client.createPullRequest({ repo: 'acme/app', head: 'feature', base: 'main', title: 't', body: 'b' }))
+      .rejects.toThrow('GitHub API 422: Validation Failed — A pull request already exists for acme:feature.');
+  });
+
+  test('throws when the response has no pull request', async () => {
+    reply = { status: 200, body: {} };
+    const client = createGitHubClient({ token: 'secret', apiUrl });
+
+    await expect(client.createPullRequest({ repo: 'acme/app', head: 'feature', base: 'main', title: 't', body: 'b' }))
+      .rejects.toThrow('no pull request number or URL');
+  });
+});
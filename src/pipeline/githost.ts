@@ -0,0 +1,65 @@
+/** A pull request to open on a git host. */
+export interface PullRequestInput {
+  /** `owner/name` on the host. */
+  repo: string;
+  /** The branch with the changes — already pushed. */
+  head: string;
+  base: string;
+  title: string;
+  body: string;
+  draft?: boolean;
+}
+
+export interface PullRequest {
+  number: number;
+  url: string;
+}
+
+/** What publishing needs from a git host. Implement it to support hosts other than GitHub. */
+export interface GitHostClient {
+  createPullRequest(input: PullRequestInput): Promise<PullRequest>;
+}
+
+export interface GitHubClientOptions {
+  token: string;
+  /** Default: https://api.github.com. For GitHub Enterprise: https://<host>/api/v3. */
+  apiUrl?: string;
+}
+
+/** A GitHostClient for the GitHub REST API. */
+export function createGitHubClient({ token, apiUrl = 'https://api.github.com' }: GitHubClientOptions): GitHostClient {
+  return {
+    async createPullRequest(input: PullRequestInput): Promise<PullRequest> {
+      const response = await fetch(`${apiUrl.replace(/\/$/, '')}/repos/${input.repo}/pulls`, {
+        method: 'POST',
+        headers: {
+          'Accept': 'application/vnd.github+json',
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json',
+          'User-Agent': 'codename-claude',
+          'X-GitHub-Api-Version': '2022-11-28',
+        },
+        body: JSON.stringify({
+          title: input.title, body: input.body, head: input.head, base: input.base, draft: input.draft ?? false,
+        }),
+        signal: AbortSignal.timeout(30_000),
+      });
+
+      const data = await response.json().catch(() => ({})) as {
+        number?: unknown;
+        html_url?: unknown;
+        message?: string;
+        errors?: Array<{ message?: string }>;
+      };
+      if (!response.ok) {
+        // GitHub puts the useful part ("A pull request already exists for ...") in errors
+        const details = (data.errors ?? []).map(e => e.message).filter(Boolean).join('; ');
+        throw new Error(`GitHub API ${response.status}: ${data.message ?? response.statusText}${details ? ` — ${details}` : ''}`);
+      }
+      if (typeof data.number !== 'number' || typeof data.html_url !== 'string') {
+        throw new Error('GitHub API response has no pull request number or URL');
+      }
+      return { number: data.number, url: data.html_url };
+    },
+  };
+}
@@ -1,5 +1,13 @@
 import { describe, test, expect } from 'vitest';
-import { parseCheckboxTasks, markTaskComplete, findNextTask } from './orchestrator.js';
+import {
+  parseCheckboxTasks,
+  markTaskComplete,
+  markTaskIncomplete,
+  findNextTask,
+  findReadyTasks,
+  findBlockedTasks,
+  validateTaskGraph,
+} from './orchestrator.js';
 
 describe('parseCheckboxTasks', () => {
   test('extracts unchecked tasks from plan', () => {
@@ -33,6 +41,43 @@ describe('parseCheckboxTasks', () => {
     expect(tasks).toHaveLength(2);
     expect(tasks[0]!.title).toBe('Set up project: directories, configs');
   });
+
+  test('parses task IDs and depends clauses', () => {
+    const plan = `- [ ] T1: Set up project\n- [ ] T2: Add auth (depends: T1)\n- [ ] T3: Add docs (depends: t1, T2)\n`;
+    const tasks = parseCheckboxTasks(plan);
+    expect(tasks).toEqual([
+      { title: 'Set up project', checked: false, id: 'T1', dependsOn: [] },
+      { title: 'Add auth', checked: false, id: 'T2', dependsOn: ['T1'] },
+      { title: 'Add docs', checked: false, id: 'T3', dependsOn: ['T1', 'T2'] },
+    ]);
+  });
+
+  test('needs the colon to read a depends clause', () => {
+    const plan = `- [ ] T2: Cache sessions (depends on: T1)\n- [ ] Fix login (depends on the cache)\n`;
+    expect(parseCheckboxTasks(plan)).toEqual([
+      { title: 'Cache sessions', checked: false, id: 'T2', dependsOn: ['T1'] },
+      { title: 'Fix login (depends on the cache)', checked: false },
+    ]);
+  });
+
+  test('parses scope clauses before or after the depends clause', () => {
+    const plan = `- [ ] T1: Add auth (scope: src/auth/**, tests/auth/)
+- [ ] T2: Add docs (depends: T1) (scope: docs/)
+- [ ] Tidy up (scope: src/util.ts)
+`;
+    expect(parseCheckboxTasks(plan)).toEqual([
+      { title: 'Add auth', checked: false, id: 'T1', dependsOn: [], scope: ['src/auth/**', 'tests/auth/'] },
+      { title: 'Add docs', checked: false, id: 'T2', dependsOn: ['T1'], scope: ['docs/'] },
+      { title: 'Tidy up', checked: false, scope: ['src/util.ts'] },
+    ]);
+    expect(markTaskComplete(plan, 'Add docs')).toContain('- [x] T2: Add docs (depends: T1) (scope: docs/)');
+  });
+
+  test('needs the colon to read a scope clause', () => {
+    expect(parseCheckboxTasks('- [ ] Trim the settings page (scope creep)\n')).toEqual([
+      { title: 'Trim the settings page (scope creep)', checked: false },
+    ]);
+  });
 });
 
 describe('markTaskComplete', () => {
@@ -47,6 +92,12 @@ describe('markTaskComplete', () => {
     const updated = markTaskComplete(plan, 'Task A');
     expect(updated).toBe(plan);
   });
+
+  test('checks off an ID task by its bare title, keeping the annotations', () => {
+    const plan = `- [ ] T1: Task A\n- [ ] T2: Task B (depends: T1)\n`;
+    const updated = markTaskComplete(plan, 'Task B');
+    expect(updated).toBe(`- [ ] T1: Task A\n- [x] T2: Task B (depends: T1)\n`);
+  });
 });
 
 describe('findNextTask', () => {
@@ -64,4 +115,87 @@ describe('findNextTask', () => {
   test('returns null for empty plan', () => {
     expect(findNextTask('# No tasks here')).toBeNull();
   });
+
+  test('skips tasks whose dependencies are not complete', () => {
+    const plan = `- [ ] T1: Wire up (depends: T2)\n- [ ] T2: Build parts\n`;
+    expect(findNextTask(plan)).toBe('Build parts');
+  });
+});
+
+describe('findReadyTasks', () => {
+  test('plain checkbox plans stay sequential', () => {
+    const plan = `- [x] Done\n- [ ] Next one\n- [ ] After\n`;
+    expect(findReadyTasks(plan).map(t => t.title)).toEqual(['Next one']);
+  });
+
+  test('returns every task whose dependencies are checked', () => {
+    const plan = `- [x] T1: Setup\n- [ ] T2: Auth (depends: T1)\n- [ ] T3: Docs (depends: T1)\n- [ ] T4: E2E (depends: T2, T3)\n`;
+    expect(findReadyTasks(plan).map(t => t.id)).toEqual(['T2', 'T3']);
+  });
+
+  test('respects the limit', () => {
+    const plan = `- [ ] T1: A\n- [ ] T2: B\n- [ ] T3: C\n`;
+    expect(findReadyTasks(plan, 2).map(t => t.id)).toEqual(['T1', 'T2']);
+  });
+});
+
+describe('findReadyTasks with failures', () => {
+  test('never returns skipped tasks or their dependents', () => {
+    const plan = `- [ ] T1: Flaky\n- [ ] T2: Needs flaky (depends: T1)\n- [ ] T3: Independent\n`;
+    const ready = findReadyTasks(plan, Infinity, new Set(['Flaky']));
+    expect(ready.map(t => t.id)).toEqual(['T3']);
+  });
+});
+
+describe('findBlockedTasks', () => {
+  test('returns direct and transitive dependents of failed tasks', () => {
+    const plan = `- [ ] T1: Flaky\n- [ ] T2: Child (depends: T1)\n- [ ] T3: Grandchild (depends: T2)\n- [ ] T4: Independent\n`;
+    expect(findBlockedTasks(plan, new Set(['Flaky'])).map(t => t.id)).toEqual(['T2', 'T3']);
+  });
+
+  test('a failed legacy task blocks every task after it', () => {
+    const plan = `- [x] A\n- [ ] B\n- [ ] C\n`;
+    expect(findBlockedTasks(plan, new Set(['B'])).map(t => t.title)).toEqual(['C']);
+  });
+});
+
+describe('validateTaskGraph', () => {
+  test('accepts plain and well-formed ID plans', () => {
+    expect(validateTaskGraph(parseCheckboxTasks(`- [ ] A\n- [ ] B\n`))).toBeNull();
+    expect(validateTaskGraph(parseCheckboxTasks(`- [ ] T1: A\n- [ ] T2: B (depends: T1)\n`))).toBeNull();
+  });
+
+  test('rejects unknown references', () => {
+    const error = validateTaskGraph(parseCheckboxTasks(`- [ ] T1: A (depends: T9)\n`));
+    expect(error).toContain('unknown task T9');
+  });
+
+  test('rejects duplicate IDs', () => {
+    const error = validateTaskGraph(parseCheckboxTasks(`- [ ] T1: A\n- [ ] T1: B\n`));
+    expect(error).toContain('T1 more than once');
+  });
+
+  test('rejects self-dependencies', () => {
+    const error = validateTaskGraph(parseCheckboxTasks(`- [ ] T1: A (depends: T1)\n`));
+    expect(error).toContain('depends on itself');
+  });
+
+  test('rejects cycles', () => {
+    const plan = `- [ ] T1: A (depends: T3)\n- [ ] T2: B (depends: T1)\n- [ ] T3: C (depends: T2)\n`;
+    const error = validateTaskGraph(parseCheckboxTasks(plan));
+    expect(error).toContain('cycle');
+    expect(error).toContain('T1 → T3 → T2 → T1');
+  });
+
+  test('rejects dependencies on a task without an ID', () => {
+    const error = validateTaskGraph(parseCheckboxTasks(`- [ ] A (depends: T1)\n`));
+    expect(error).toContain('has no ID');
+  });
+});
+
+describe('markTaskIncomplete', () => {
+  test('unchecks a completed task by title, keeping its ID and dependencies', () => {
+    const plan = `- [x] T1: Task A\n- [x] T2: Task B (depends: T1)\n`;
+    expect(markTaskIncomplete(plan, 'Task B')).toBe(`- [x] T1: Task A\n- [ ] T2: Task B (depends: T1)\n`);
+  });
 });
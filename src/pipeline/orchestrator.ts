@@ -1,6 +1,55 @@
 export interface CheckboxTask {
   title: string;
   checked: boolean;
+  /** Optional task ID from the `T3: title` syntax. */
+  id?: string;
+  /** IDs this task depends on, from a trailing `(depends: T1, T2)` clause. */
+  dependsOn?: string[];
+  /** Path globs the task may change, from a trailing `(scope: src/auth/**, tests/auth/**)` clause. */
+  scope?: string[];
+}
+
+const TASK_ID_PATTERN = /^(T\d+):\s*(.+)$/i;
+// The colons are required, so titles like "Fix login (depends on the cache)" stay intact
+const DEPENDS_PATTERN = /\s*\(depends(?:\s+on)?:\s*([^)]*)\)\s*$/i;
+const SCOPE_PATTERN = /\s*\(scope:\s*([^)]*)\)\s*$/i;
+
+/**
+ * Split a raw checkbox line into title, optional ID, dependency list and scope.
+ * `T3: Add auth (depends: T1, T2)` → { id: 'T3', title: 'Add auth', dependsOn: ['T1', 'T2'] }
+ * The depends and scope clauses may come in either order.
+ */
+function parseTaskText(text: string): Omit<CheckboxTask, 'checked'> {
+  let title = text.trim();
+  let dependsOn: string[] | undefined;
+  let scope: string[] | undefined;
+
+  for (let stripped = true; stripped;) {
+    stripped = false;
+    const depsMatch = title.match(DEPENDS_PATTERN);
+    if (depsMatch) {
+      dependsOn = depsMatch[1]!
+        .split(',')
+        .map(d => d.trim().toUpperCase())
+        .filter(d => d && d !== 'NONE' && d !== '-');
+      title = title.slice(0, depsMatch.index).trim();
+      stripped = true;
+    }
+    const scopeMatch = title.match(SCOPE_PATTERN);
+    if (scopeMatch) {
+      scope = scopeMatch[1]!.split(',').map(glob => glob.trim()).filter(Boolean);
+      title = title.slice(0, scopeMatch.index).trim();
+      stripped = true;
+    }
+  }
+
+  const scoped = scope && scope.length > 0 ? { scope } : {};
+  const idMatch = title.match(TASK_ID_PATTERN);
+  if (idMatch) {
+    return { id: idMatch[1]!.toUpperCase(), title: idMatch[2]!.trim(), dependsOn: dependsOn ?? [], ...scoped };
+  }
+
+  return dependsOn ? { title, dependsOn, ...scoped } : { title, ...scoped };
 }
 
 export function parseCheckboxTasks(planContent: string): CheckboxTask[] {
@@ -11,7 +60,7 @@ export function parseCheckboxTasks(planContent: string): CheckboxTask[] {
   while ((match = regex.exec(planContent)) !== null) {
     tasks.push({
       checked: match[1] === 'x',
-      title: match[2]!.trim(),
+      ...parseTaskText(match[2]!),
     });
   }
 
@@ -19,11 +68,139 @@ export function parseCheckboxTasks(planContent: string): CheckboxTask[] {
 }
 
 export function markTaskComplete(planContent: string, taskTitle: string): string {
-  return planContent.replace(`- [ ] ${taskTitle}`, `- [x] ${taskTitle}`);
+  let marked = false;
+  return planContent.replace(/^- \[ \] (.+)$/gm, (line, text: string) => {
+    if (marked || parseTaskText(text).title !== taskTitle) return line;
+    marked = true;
+    return `- [x] ${text}`;
+  });
+}
+
+/** Unchecks a completed task so the Ralph loop builds it again. */
+export function markTaskIncomplete(planContent: string, taskTitle: string): string {
+  let reopened = false;
+  return planContent.replace(/^- \[x\] (.+)$/gm, (line, text: string) => {
+    if (reopened || parseTaskText(text).title !== taskTitle) return line;
+    reopened = true;
+    return `- [ ] ${text}`;
+  });
+}
+
+/**
+ * For each task, the indexes of the tasks it depends on. Tasks with an ID
+ * depend only on the IDs they declare; tasks without an ID (the plain
+ * `- [ ] title` format) depend on the task before them, so legacy plans stay
+ * strictly sequential. Unknown IDs are ignored here — see validateTaskGraph.
+ */
+function dependencyIndexes(tasks: CheckboxTask[]): number[][] {
+  const indexById = new Map<string, number>();
+  tasks.forEach((t, i) => { if (t.id) indexById.set(t.id, i); });
+
+  return tasks.map((task, i) => {
+    if (!task.id) return i === 0 ? [] : [i - 1];
+    return (task.dependsOn ?? [])
+      .map(dep => indexById.get(dep))
+      .filter((idx): idx is number => idx !== undefined);
+  });
+}
+
+/**
+ * Validates the dependency graph declared in PLAN.md. Returns an error message
+ * for duplicate IDs, unknown or self references and dependency cycles.
+ */
+export function validateTaskGraph(tasks: CheckboxTask[]): string | null {
+  const ids = new Set<string>();
+  for (const task of tasks) {
+    if (!task.id) continue;
+    if (ids.has(task.id)) return `PLAN.md declares task ID ${task.id} more than once`;
+    ids.add(task.id);
+  }
+
+  for (const task of tasks) {
+    for (const dep of task.dependsOn ?? []) {
+      if (!task.id) return `Task "${task.title}" declares dependencies but has no ID (expected "- [ ] T1: title (depends: ...)")`;
+      if (dep === task.id) return `Task ${task.id} depends on itself`;
+      if (!ids.has(dep)) return `Task ${task.id} depends on unknown task ${dep}`;
+    }
+  }
+
+  // Depth-first search for cycles: 1 = on the current path, 2 = done
+  const deps = dependencyIndexes(tasks);
+  const visit = new Array<number>(tasks.length).fill(0);
+  const path: number[] = [];
+  const findCycle = (i: number): number[] | null => {
+    if (visit[i] === 2) return null;
+    if (visit[i] === 1) return [...path.slice(path.indexOf(i)), i];
+    visit[i] = 1;
+    path.push(i);
+    for (const dep of deps[i]!) {
+      const cycle = findCycle(dep);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    visit[i] = 2;
+    return null;
+  };
+
+  for (let i = 0; i < tasks.length; i++) {
+    const cycle = findCycle(i);
+    if (cycle) {
+      const label = cycle.map(idx => tasks[idx]!.id ?? `"${tasks[idx]!.title}"`).join(' → ');
+      return `PLAN.md task dependencies contain a cycle: ${label}`;
+    }
+  }
+
+  return null;
 }
 
+/** Returns the first task that can be started now, honouring declared dependencies. */
 export function findNextTask(planContent: string): string | null {
+  return findReadyTasks(planContent, 1)[0]?.title ?? null;
+}
+
+/**
+ * Returns unchecked tasks whose dependencies are all checked, in plan order.
+ * Titles in `skip` (e.g. tasks that already failed) are never returned.
+ */
+export function findReadyTasks(
+  planContent: string,
+  limit = Infinity,
+  skip: ReadonlySet<string> = new Set(),
+): CheckboxTask[] {
   const tasks = parseCheckboxTasks(planContent);
-  const next = tasks.find(t => !t.checked);
-  return next?.title ?? null;
+  const deps = dependencyIndexes(tasks);
+  const ready: CheckboxTask[] = [];
+
+  for (let i = 0; i < tasks.length && ready.length < limit; i++) {
+    const task = tasks[i]!;
+    if (task.checked || skip.has(task.title)) continue;
+    if (deps[i]!.every(dep => tasks[dep]!.checked)) ready.push(task);
+  }
+
+  return ready;
+}
+
+/**
+ * Returns unchecked tasks that can never run because they depend, directly or
+ * transitively, on one of the failed tasks.
+ */
+export function findBlockedTasks(planContent: string, failed: ReadonlySet<string>): CheckboxTask[] {
+  const tasks = parseCheckboxTasks(planContent);
+  const deps = dependencyIndexes(tasks);
+  const blocked = new Set<number>();
+
+  // Iterate to a fixed point — dependencies may be declared out of plan order
+  let changed = true;
+  while (changed) {
+    changed = false;
+    tasks.forEach((task, i) => {
+      if (task.checked || blocked.has(i) || failed.has(task.title)) return;
+      if (deps[i]!.some(dep => blocked.has(dep) || failed.has(tasks[dep]!.title))) {
+        blocked.add(i);
+        changed = true;
+      }
+    });
+  }
+
+  return [...blocked].sort((a, b) => a - b).map(i => tasks[i]!);
 }
@@ -0,0 +1,72 @@
+import { describe, test, expect } from 'vitest';
+import { checkReviewPolicy, combineReviews } from './policy.js';
+import type { ReviewOutput } from './state.js';
+
+function review(overrides: Partial<ReviewOutput> = {}): ReviewOutput {
+  return { verdict: 'APPROVE', score: 9, summary: 'ok', issues: [], patternsCompliance: true, ...overrides };
+}
+
+describe('checkReviewPolicy', () => {
+  test('an empty policy accepts everything', () => {
+    expect(checkReviewPolicy(review({ score: 1, patternsCompliance: false }), {})).toBeNull();
+  });
+
+  test('enforces the minimum score', () => {
+    expect(checkReviewPolicy(review({ score: 6 }), { minScore: 7 })).toBe('score 6 is below the minimum of 7');
+    expect(checkReviewPolicy(review({ score: 7 }), { minScore: 7 })).toBeNull();
+  });
+
+  test('counts issues per severity against their limits', () => {
+    const issues = [
+      { severity: 'critical' as const, description: 'a' },
+      { severity: 'minor' as const, description: 'b' },
+      { severity: 'minor' as const, description: 'c' },
+    ];
+    expect(checkReviewPolicy(review({ issues }), { maxIssues: { critical: 0, minor: 2 } })).toBe('1 critical issue(s), at most 0 allowed');
+    expect(checkReviewPolicy(review({ issues }), { maxIssues: { major: 0 } })).toBeNull();
+  });
+
+  test('can require pattern compliance and reports every violation', () => {
+    const reason = checkReviewPolicy(review({ score: 5, patternsCompliance: false }), { minScore: 8, requirePatternsCompliance: true });
+    expect(reason).toBe('score 5 is below the minimum of 8; code does not follow .brain/PATTERNS.md');
+  });
+});
+
+describe('combineReviews', () => {
+  const security = review({ verdict: 'REVISE', score: 6, summary: 'token leak', issues: [{ severity: 'critical', file: 'src/auth.ts', description: 'Token logged' }] });
+  const style = review({ verdict: 'APPROVE', score: 8, summary: 'fine', issues: [{ severity: 'critical', file: 'src/auth.ts', description: 'token logged ' }] });
+  const tests = review({ verdict: 'APPROVE', score: 9, summary: 'well tested' });
+
+  test('unanimous approves only when every reviewer does', () => {
+    const combined = combineReviews([{ reviewer: 'reviewer', review: tests }, { reviewer: 'security-reviewer', review: security }], 'unanimous');
+    expect(combined.review.verdict).toBe('REVISE');
+    expect(combined.review.score).toBe(6);
+    expect(combined.disagreement).toBe(true);
+    expect(combined.review.summary).toBe('reviewer: well tested\nsecurity-reviewer: token leak');
+    expect(combineReviews([{ reviewer: 'a', review: tests }, { reviewer: 'b', review: style }]).review.verdict).toBe('APPROVE');
+  });
+
+  test('majority takes the most common verdict and averages the scores', () => {
+    const combined = combineReviews([
+      { reviewer: 'a', review: security }, { reviewer: 'b', review: style }, { reviewer: 'c', review: tests },
+    ], 'majority');
+    expect(combined.review.verdict).toBe('APPROVE');
+    expect(combined.review.score).toBe(7.7);
+    // A tie goes to the stricter verdict
+    expect(combineReviews([{ reviewer: 'a', review: security }, { reviewer: 'b', review: tests }], 'majority').review.verdict).toBe('REVISE');
+  });
+
+  test('lowest-score takes the verdict of the harshest reviewer', () => {
+    const harsh = review({ verdict: 'REDESIGN', score: 3 });
+    const combined = combineReviews([{ reviewer: 'a', review: security }, { reviewer: 'b', review: harsh }], 'lowest-score');
+    expect(combined.review.verdict).toBe('REDESIGN');
+    expect(combined.review.score).toBe(3);
+  });
+
+  test('merges issue lists without duplicates and records each vote', () => {
+    const combined = combineReviews([{ reviewer: 'a', review: security }, { reviewer: 'b', review: style }]);
+    expect(combined.review.issues).toEqual(security.issues);
+    expect(combined.review.patternsCompliance).toBe(true);
+    expect(combined.votes).toEqual([{ reviewer: 'a', verdict: 'REVISE', score: 6 }, { reviewer: 'b', verdict: 'APPROVE', score: 8 }]);
+  });
+});
@@ -0,0 +1,115 @@
+import type { ReviewIssue, ReviewOutput, ReviewVote } from './state.js';
+
+/**
+ * How several reviews of one task become one verdict: `unanimous` approves
+ * only if every reviewer does, `majority` takes the most common verdict and
+ * `lowest-score` takes the verdict of the harshest reviewer. Ties go to the
+ * stricter verdict.
+ */
+export type ConsensusRule = 'unanimous' | 'majority' | 'lowest-score';
+
+export interface ConsensusReviewer {
+  /** Agent definition to run, e.g. `reviewer` or `security-reviewer`. */
+  agent: string;
+  /** Overrides the agent definition's model. */
+  model?: string;
+}
+
+export interface ConsensusConfig {
+  /** Two or more reviewer sessions run on every task, in order. */
+  reviewers: ConsensusReviewer[];
+  /** Default: unanimous. */
+  rule?: ConsensusRule;
+}
+
+/** Bars a structured review must clear before its APPROVE counts. */
+export interface ReviewPolicy {
+  /** Lowest score (1-10) an approved task may have. */
+  minScore?: number;
+  /** Most open issues allowed per severity, e.g. `{ "critical": 0, "major": 1 }`. Unlisted severities are unlimited. */
+  maxIssues?: Partial<Record<ReviewIssue['severity'], number>>;
+  /** Approval also needs `patternsCompliance: true`. */
+  requirePatternsCompliance?: boolean;
+  /** Review each task with several reviewers instead of one. */
+  consensus?: ConsensusConfig;
+}
+
+/** The reviews of one task combined under a consensus rule. */
+export interface ConsensusResult {
+  review: ReviewOutput;
+  rule: ConsensusRule;
+  /** Each reviewer's own verdict and score. */
+  votes: ReviewVote[];
+  /** True when the reviewers did not all reach the same verdict. */
+  disagreement: boolean;
+}
+
+const VERDICT_STRICTNESS: ReviewOutput['verdict'][] = ['APPROVE', 'REVISE', 'REDESIGN'];
+
+function strictest(verdicts: ReviewOutput['verdict'][]): ReviewOutput['verdict'] {
+  return verdicts.reduce((a, b) => (VERDICT_STRICTNESS.indexOf(b) > VERDICT_STRICTNESS.indexOf(a) ? b : a));
+}
+
+/**
+ * Combines the reviews of one task. The issue lists are merged without
+ * duplicates; the score is the lowest one, or the average under `majority`.
+ */
+export function combineReviews(reviews: Array<{ reviewer: string; review: ReviewOutput }>, rule: ConsensusRule = 'unanimous'): ConsensusResult {
+  if (reviews.length === 0) throw new Error('combineReviews needs at least one review');
+  const verdicts = reviews.map(r => r.review.verdict);
+  const scores = reviews.map(r => r.review.score);
+  const lowest = Math.min(...scores);
+
+  let verdict: ReviewOutput['verdict'];
+  if (rule === 'majority') {
+    const counts = new Map<ReviewOutput['verdict'], number>();
+    for (const v of verdicts) counts.set(v, (counts.get(v) ?? 0) + 1);
+    const top = Math.max(...counts.values());
+    verdict = strictest([...counts].filter(([, n]) => n === top).map(([v]) => v));
+  } else if (rule === 'lowest-score') {
+    verdict = strictest(reviews.filter(r => r.review.score === lowest).map(r => r.review.verdict));
+  } else {
+    verdict = strictest(verdicts);
+  }
+
+  const seen = new Set<string>();
+  const issues = reviews.flatMap(r => r.review.issues).filter(issue => {
+    const key = `${issue.severity}|${issue.file ?? ''}|${issue.description.trim().toLowerCase()}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  return {
+    review: {
+      verdict,
+      score: rule === 'majority' ? Math.round((scores.reduce((a, b) => a + b, 0) / scores.length) * 10) / 10 : lowest,
+      summary: reviews.map(r => `${r.reviewer}: ${r.review.summary}`).join('\n'),
+      issues,
+      patternsCompliance: reviews.every(r => r.review.patternsCompliance),
+    },
+    rule,
+    votes: reviews.map(r => ({ reviewer: r.reviewer, verdict: r.review.verdict, score: r.review.score })),
+    disagreement: new Set(verdicts).size > 1,
+  };
+}
+
+const SEVERITIES: ReviewIssue['severity'][] = ['critical', 'major', 'minor', 'nit'];
+
+/** Returns why a review breaks the policy, or null when it complies. */
+export function checkReviewPolicy(review: ReviewOutput, policy: ReviewPolicy): string | null {
+  const reasons: string[] = [];
+  if (policy.minScore !== undefined && review.score < policy.minScore) {
+    reasons.push(`score ${review.score} is below the minimum of ${policy.minScore}`);
+  }
+  for (const severity of SEVERITIES) {
+    const allowed = policy.maxIssues?.[severity];
+    if (allowed === undefined) continue;
+    const count = review.issues.filter(issue => issue.severity === severity).length;
+    if (count > allowed) reasons.push(`${count} ${severity} issue(s), at most ${allowed} allowed`);
+  }
+  if (policy.requirePatternsCompliance && !review.patternsCompliance) {
+    reasons.push('code does not follow .brain/PATTERNS.md');
+  }
+  return reasons.length > 0 ? reasons.join('; ') : null;
+}
@@ -0,0 +1,159 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { writeFile, mkdir, rm } from 'node:fs/promises';
+import { execFileSync } from 'node:child_process';
+import { join } from 'node:path';
+import type { GitHostClient, PullRequestInput } from './githost.js';
+import { createGitHostClient, formatPullRequest, publishPipeline } from './publish.js';
+import { readPipelineState, writePipelineState, type PipelineState } from './state.js';
+
+const TEST_DIR = join(import.meta.dirname, '../../.test-state/publish-test');
+const TEST_PROJECT = join(TEST_DIR, 'project');
+const TEST_REMOTE = join(TEST_DIR, 'remote.git');
+
+const PLAN = '# Plan\n\n- [x] Add the login form\n- [x] Store sessions (depends: 1)\n';
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', args, { cwd, encoding: 'utf-8' }).trim();
+}
+
+function makeState(overrides: Partial<PipelineState> = {}): PipelineState {
+  return {
+    project: TEST_PROJECT,
+    task: 'Add authentication\n\nUsers log in with email and password.',
+    agentPipeline: ['architect'],
+    status: 'completed',
+    phase: 'completed',
+    startedAt: 1,
+    updatedAt: 1,
+    tasks: [
+      {
+        title: 'Add the login form', status: 'completed', attempts: 1,
+        reviews: [{ attempt: 1, verdict: 'APPROVE', score: 9, issues: [] }],
+      },
+      {
+        title: 'Store sessions', status: 'completed', attempts: 2,
+        reviews: [
+          { attempt: 1, verdict: 'REVISE', score: 5, issues: [{ severity: 'critical', description: 'No expiry' }] },
+          { attempt: 2, verdict: 'APPROVE', score: 8, issues: [{ severity: 'minor', file: 'src/session.ts', description: 'Magic number for the TTL' }] },
+        ],
+      },
+    ],
+    currentTaskIndex: 1,
+    totalIterations: 3,
+    retries: 1,
+    branch: 'codename/pipeline-add-authentication-x1',
+    baseBranch: 'main',
+    ...overrides,
+  };
+}
+
+function fakeClient(): GitHostClient & { calls: PullRequestInput[] } {
+  const calls: PullRequestInput[] = [];
+  return {
+    calls,
+    async createPullRequest(input) {
+      calls.push(input);
+      return { number: 12, url: 'https://github.com/acme/app/pull/12' };
+    },
+  };
+}
+
+describe('formatPullRequest', () => {
+  test('titles the pull request with the task and lists progress, scores and open issues', () => {
+    const { title, body } = formatPullRequest(makeState(), PLAN);
+
+    expect(title).toBe('Add authentication');
+    expect(body).toContain('Users log in with email and password.');
+    expect(body).toContain('## Tasks\n\n- [x] Add the login form — 9/10\n- [x] Store sessions — 8/10, 2 attempts');
+    expect(body).toContain('## Open review issues\n\n**Store sessions**\n\n- **minor** `src/session.ts`: Magic number for the TTL');
+    expect(body).not.toContain('No expiry');
+    expect(body).toContain('`codename/pipeline-add-authentication-x1`');
+  });
+
+  test('shortens long titles and marks unfinished tasks', () => {
+    const state = makeState({ task: 'x'.repeat(100) });
+    state.tasks[1]!.status = 'failed';
+    const { title, body } = formatPullRequest(state, '- [x] Add the login form\n- [ ] Store sessions\n');
+
+    expect(title).toHaveLength(72);
+    expect(body).toContain('- [ ] Store sessions — 8/10, 2 attempts, failed');
+  });
+});
+
+describe('createGitHostClient', () => {
+  test('needs a token', () => {
+    expect(() => createGitHostClient({ host: 'github', repo: 'acme/app' }, {})).toThrow('GITHUB_TOKEN');
+    expect(createGitHostClient({ host: 'github', repo: 'acme/app' }, { GH_TOKEN: 'secret' })).toBeDefined();
+  });
+});
+
+describe('publishPipeline', () => {
+  beforeEach(async () => {
+    await mkdir(join(TEST_PROJECT, '.brain'), { recursive: true });
+    git(TEST_DIR, 'init', '--bare', '-q', TEST_REMOTE);
+    git(TEST_PROJECT, 'init', '-q', '-b', 'main');
+    git(TEST_PROJECT, 'config', 'user.email', 'test@test.com');
+    git(TEST_PROJECT, 'config', 'user.name', 'Test');
+    git(TEST_PROJECT, 'remote', 'add', 'origin', TEST_REMOTE);
+    await writeFile(join(TEST_PROJECT, 'README.md'), '# App\n');
+    git(TEST_PROJECT, 'add', '.');
+    git(TEST_PROJECT, 'commit', '-q', '-m', 'init');
+    git(TEST_PROJECT, 'checkout', '-q', '-b', 'codename/pipeline-add-authentication-x1');
+    await writeFile(join(TEST_PROJECT, 'login.ts'), 'export {};\n');
+    git(TEST_PROJECT, 'add', 'login.ts');
+    git(TEST_PROJECT, 'commit', '-q', '-m', 'Add the login form');
+    await writeFile(join(TEST_PROJECT, '.brain', 'PLAN.md'), PLAN);
+  });
+
+  afterEach(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true });
+  });
+
+  test('pushes the branch, opens a pull request against the base branch and records it', async () => {
+    await writePipelineState(TEST_PROJECT, makeState());
+    const client = fakeClient();
+
+    const pullRequest = await publishPipeline(TEST_PROJECT, { host: 'github', repo: 'acme/app', draft: true }, client);
+
+    expect(pullRequest).toEqual({ number: 12, url: 'https://github.com/acme/app/pull/12' });
+    expect(git(TEST_REMOTE, 'rev-parse', 'codename/pipeline-add-authentication-x1'))
+      .toBe(git(TEST_PROJECT, 'rev-parse', 'HEAD'));
+    expect(client.calls).toHaveLength(1);
+    expect(client.calls[0]).toMatchObject({
+      repo: 'acme/app', head: 'codename/pipeline-add-authentication-x1', base: 'main', title: 'Add authentication', draft: true,
+    });
+    expect(client.calls[0]!.body).toContain('- [x] Store sessions — 8/10, 2 attempts');
+    expect((await readPipelineState(TEST_PROJECT))!.pullRequest).toEqual(pullRequest);
+
+    // Publishing again returns the recorded pull request
+    await publishPipeline(TEST_PROJECT, { host: 'github', repo: 'acme/app' }, client);
+    expect(client.calls).toHaveLength(1);
+  });
+
+  test('prefers the configured base branch', async () => {
+    await writePipelineState(TEST_PROJECT, makeState());
+    const client = fakeClient();
+
+    await publishPipeline(TEST_PROJECT, { host: 'github', repo: 'acme/app', base: 'develop' }, client);
+    expect(client.calls[0]!.base).toBe('develop');
+  });
+
+  test('refuses pipelines that did not complete or have no branch', async () => {
+    const client = fakeClient();
+
+    await writePipelineState(TEST_PROJECT, makeState({ status: 'failed' }));
+    await expect(publishPipeline(TEST_PROJECT, { host: 'github', repo: 'acme/app' }, client)).rejects.toThrow('not completed');
+
+    await writePipelineState(TEST_PROJECT, makeState({ branch: undefined }));
+    await expect(publishPipeline(TEST_PROJECT, { host: 'github', repo: 'acme/app' }, client)).rejects.toThrow('no branch');
+    expect(client.calls).toHaveLength(0);
+  });
+
+  test('opens nothing when the push fails', async () => {
+    await writePipelineState(TEST_PROJECT, makeState());
+    const client = fakeClient();
+
+    await expect(publishPipeline(TEST_PROJECT, { host: 'github', repo: 'acme/app', remote: 'nowhere' }, client)).rejects.toThrow();
+    expect(client.calls).toHaveLength(0);
+  });
+});
@@ -0,0 +1,105 @@
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { createGitHubClient, type GitHostClient, type PullRequest } from './githost.js';
+import { parseCheckboxTasks } from './orchestrator.js';
+import { readPipelineState, writePipelineState, type PipelineState } from './state.js';
+import { pushBranch } from './worktree.js';
+
+/** Where a project's finished pipelines are published — kept per project in the registry. */
+export interface PublishConfig {
+  host: 'github';
+  /** `owner/name` on the host. */
+  repo: string;
+  /** The branch to merge into. Default: the branch the pipeline started from. */
+  base?: string;
+  /** Default: origin. */
+  remote?: string;
+  /** Open the pull request as a draft. */
+  draft?: boolean;
+  /** The host's API URL, e.g. for GitHub Enterprise. */
+  apiUrl?: string;
+}
+
+export const PUBLISH_HOSTS: PublishConfig['host'][] = ['github'];
+
+/** The client for a project's git host. The GitHub token comes from GITHUB_TOKEN (or GH_TOKEN). */
+export function createGitHostClient(publish: PublishConfig, env: NodeJS.ProcessEnv = process.env): GitHostClient {
+  const token = env['GITHUB_TOKEN'] ?? env['GH_TOKEN'];
+  if (!token) throw new Error('publishing to GitHub needs a token in GITHUB_TOKEN or GH_TOKEN');
+  return createGitHubClient({ token, ...(publish.apiUrl && { apiUrl: publish.apiUrl }) });
+}
+
+/**
+ * The pull request for a finished pipeline: the task as the title, and a body
+ * with PLAN.md's progress, each task's review score and the issues its last
+ * review left open.
+ */
+export function formatPullRequest(state: PipelineState, planContent: string): { title: string; body: string } {
+  const firstLine = state.task.split('\n')[0]!.trim();
+  const title = firstLine.length > 72 ? `${firstLine.slice(0, 71)}…` : firstLine;
+
+  const progressByTitle = new Map(state.tasks.map(t => [t.title, t]));
+  const planTasks = parseCheckboxTasks(planContent);
+  const taskLines = planTasks.map(task => {
+    const progress = progressByTitle.get(task.title);
+    const score = progress?.reviews?.at(-1)?.score;
+    const notes = [
+      ...(score !== undefined ? [`${score}/10`] : []),
+      ...(progress && progress.attempts > 1 ? [`${progress.attempts} attempts`] : []),
+      ...(progress && !task.checked && progress.status !== 'pending' ? [progress.status] : []),
+    ];
+    return `- [${task.checked ? 'x' : ' '}] ${task.title}${notes.length > 0 ? ` — ${notes.join(', ')}` : ''}`;
+  });
+
+  const issueSections = planTasks.flatMap(task => {
+    const issues = progressByTitle.get(task.title)?.reviews?.at(-1)?.issues ?? [];
+    if (issues.length === 0) return [];
+    const lines = issues.map(i => `- **${i.severity}**${i.file ? ` \`${i.file}\`` : ''}: ${i.description}`);
+    return [`**${task.title}**\n\n${lines.join('\n')}`];
+  });
+
+  const body = [
+    state.task,
+    '## Tasks',
+    taskLines.length > 0 ? taskLines.join('\n') : '_PLAN.md lists no tasks._',
+    ...(issueSections.length > 0 ? ['## Open review issues', ...issueSections] : []),
+    `---\nBuilt by codename-claude on \`${state.branch}\`.`,
+  ].join('\n\n');
+
+  return { title, body };
+}
+
+/**
+ * Pushes a finished pipeline's branch and opens a pull request for it. The
+ * pull request is recorded in pipeline-state.json, so publishing twice
+ * returns the one already opened.
+ */
+export async function publishPipeline(
+  project: string,
+  publish: PublishConfig,
+  client: GitHostClient = createGitHostClient(publish),
+): Promise<PullRequest> {
+  const state = await readPipelineState(project);
+  if (!state) throw new Error(`No pipeline state in ${project}`);
+  if (state.pullRequest) return state.pullRequest;
+  if (state.status !== 'completed') throw new Error(`The pipeline is ${state.status}, not completed`);
+  if (!state.branch) throw new Error('The pipeline has no branch to publish (is pipeline.gitBranches off?)');
+
+  const base = publish.base ?? state.baseBranch;
+  if (!base) throw new Error('No base branch — set one in the project\'s publish config');
+
+  await pushBranch(project, publish.remote ?? 'origin', state.branch);
+  const planContent = await readFile(join(project, '.brain', 'PLAN.md'), 'utf-8').catch(() => '');
+  const pullRequest = await client.createPullRequest({
+    repo: publish.repo,
+    head: state.branch,
+    base,
+    ...formatPullRequest(state, planContent),
+    ...(publish.draft && { draft: true }),
+  });
+
+  state.pullRequest = pullRequest;
+  state.updatedAt = Date.now();
+  await writePipelineState(project, state);
+  return pullRequest;
+}
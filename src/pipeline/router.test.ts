@@ -1,5 +1,5 @@
-import { describe, test, expect } from 'vitest';
-import { loadAgentSummaries, routeTask, type AgentSummary } from './router.js';
+import { describe, test, expect, vi } from 'vitest';
+import { loadAgentSummaries, routeTask, explainRoute, validateRoute, buildRouterPrompt, type AgentSummary } from './router.js';
 
 const mockAgents: AgentSummary[] = [
   { name: 'scout', description: 'researches topics', model: 'sonnet', skills: [] },
@@ -94,3 +94,147 @@ describe('routeTask', () => {
     expect(result[0]!.teams).toBe(true);
   });
 });
+
+describe('routeTask llm mode', () => {
+  test('uses the stages the model returns', async () => {
+    const query = vi.fn(async () => ({ stages: [{ agent: 'Scout', teams: false }, { agent: 'builder', teams: false }] }));
+    const result = await routeTask({ task: 'add login', agents: mockAgents, projectContext: '', mode: 'llm', query });
+
+    expect(result).toEqual([{ agent: 'scout', teams: false }, { agent: 'builder', teams: false }]);
+    expect(query).toHaveBeenCalledOnce();
+  });
+
+  test('falls back to keyword routing when the model names an unknown agent', async () => {
+    const query = vi.fn(async () => ({ stages: [{ agent: 'deployer', teams: false }] }));
+    const logs: string[] = [];
+    const result = await routeTask({
+      task: 'fix the typo in header component', agents: mockAgents, projectContext: '', mode: 'llm', query, log: m => logs.push(m),
+    });
+
+    expect(result.map(s => s.agent)).toEqual(['builder', 'reviewer']);
+    expect(logs.some(l => l.includes('unknown agent "deployer"'))).toBe(true);
+  });
+
+  test('falls back to keyword routing when the query throws', async () => {
+    const query = vi.fn(async () => { throw new Error('network down'); });
+    const result = await routeTask({ task: 'add user authentication with JWT', agents: mockAgents, projectContext: '', mode: 'llm', query });
+    expect(result.map(s => s.agent)).toEqual(['architect', 'builder', 'reviewer']);
+  });
+
+  test('skips the model when no agent summaries are loaded', async () => {
+    const query = vi.fn(async () => ({ stages: [{ agent: 'builder', teams: false }] }));
+    const result = await routeTask({ task: 'add user authentication', agents: [], projectContext: '', mode: 'llm', query });
+    expect(query).not.toHaveBeenCalled();
+    expect(result.map(s => s.agent)).toEqual(['architect', 'builder', 'reviewer']);
+  });
+
+  test('heuristic mode never calls the model', async () => {
+    const query = vi.fn(async () => ({ stages: [] }));
+    await routeTask({ task: 'add login', agents: mockAgents, projectContext: '', query });
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  test('prompt includes agent summaries, project context and task', () => {
+    const prompt = buildRouterPrompt({ task: 'add login', agents: mockAgents, projectContext: '# Bookmarks CLI' });
+    expect(prompt).toContain('- scout (sonnet): researches topics');
+    expect(prompt).toContain('# Bookmarks CLI');
+    expect(prompt).toContain('add login');
+  });
+});
+
+describe('validateRoute', () => {
+  test('rejects missing or empty stages', () => {
+    expect(validateRoute(null, mockAgents)).toBe('expected a non-empty stages array');
+    expect(validateRoute({ stages: [] }, mockAgents)).toBe('expected a non-empty stages array');
+  });
+
+  test('defaults teams to false', () => {
+    expect(validateRoute({ stages: [{ agent: 'builder' }] }, mockAgents)).toEqual([{ agent: 'builder', teams: false }]);
+  });
+});
+
+describe('routeTask templates', () => {
+  const templates = [
+    { name: 'docs', match: { keywords: ['readme'] }, stages: [{ agent: 'builder', teams: false, model: 'haiku' }] },
+    { name: 'hotfix', match: { labels: ['hotfix'] }, stages: [{ agent: 'builder', teams: false }, { agent: 'reviewer', teams: false }] },
+  ];
+
+  test('a matching user template wins over the built-in patterns', async () => {
+    const result = await routeTask({ task: 'research and rewrite the README', agents: mockAgents, projectContext: '', templates });
+    expect(result).toEqual([{ agent: 'builder', teams: false, model: 'haiku' }]);
+  });
+
+  test('labels from the hints select a template', async () => {
+    const result = await routeTask({
+      task: 'add user authentication', agents: mockAgents, projectContext: '', templates, hints: { labels: ['hotfix'] },
+    });
+    expect(result.map(s => s.agent)).toEqual(['builder', 'reviewer']);
+  });
+
+  test('user templates are tried before the model', async () => {
+    const query = vi.fn(async () => ({ stages: [{ agent: 'scout', teams: false }] }));
+    await routeTask({ task: 'fix the README', agents: mockAgents, projectContext: '', templates, mode: 'llm', query });
+    expect(query).not.toHaveBeenCalled();
+  });
+
+  test('a forced template skips match rules', async () => {
+    const result = await routeTask({
+      task: 'add user authentication', agents: mockAgents, projectContext: '', templates, hints: { template: 'docs' },
+    });
+    expect(result.map(s => s.agent)).toEqual(['builder']);
+  });
+
+  test('built-in templates can be forced by name', async () => {
+    const result = await routeTask({ task: 'add login', agents: mockAgents, projectContext: '', hints: { template: 'research' } });
+    expect(result.map(s => s.agent)).toEqual(['scout', 'architect', 'builder', 'reviewer']);
+  });
+
+  test('forcing an unknown template throws', async () => {
+    await expect(
+      routeTask({ task: 'add login', agents: mockAgents, projectContext: '', hints: { template: 'nope' } }),
+    ).rejects.toThrow('Unknown pipeline template "nope"');
+  });
+
+  test('returned stages are copies of the template', async () => {
+    const result = await routeTask({ task: 'fix the README', agents: mockAgents, projectContext: '', templates });
+    result[0]!.teams = true;
+    expect(templates[0]!.stages[0]!.teams).toBe(false);
+  });
+});
+
+describe('explainRoute', () => {
+  test('reports the user template and the rules that matched', async () => {
+    const templates = [{ name: 'docs', match: { keywords: ['readme'] }, stages: [{ agent: 'builder', teams: false }] }];
+    const decision = await explainRoute({ task: 'fix the README', agents: mockAgents, projectContext: '', templates });
+    expect(decision).toMatchObject({ source: 'template', template: 'docs', matchedRules: ['keyword "readme"'] });
+  });
+
+  test('reports the built-in template for keyword routing', async () => {
+    const decision = await explainRoute({ task: 'research auth libraries', agents: mockAgents, projectContext: '' });
+    expect(decision).toMatchObject({ source: 'builtin', template: 'research', matchedRules: ['keyword "research"'] });
+  });
+
+  test('the catch-all has no matched rules', async () => {
+    const decision = await explainRoute({ task: 'something unusual', agents: mockAgents, projectContext: '' });
+    expect(decision).toMatchObject({ source: 'builtin', template: 'feature', matchedRules: [] });
+  });
+
+  test('includes the model reasoning in llm mode', async () => {
+    const query = vi.fn(async () => ({ stages: [{ agent: 'builder', teams: false }], reasoning: 'one-line change' }));
+    const decision = await explainRoute({ task: 'add login', agents: mockAgents, projectContext: '', mode: 'llm', query });
+    expect(decision).toEqual({ stages: [{ agent: 'builder', teams: false }], source: 'model', reasoning: 'one-line change' });
+  });
+
+  test('says why the model was not used', async () => {
+    const query = vi.fn(async () => { throw new Error('network down'); });
+    const decision = await explainRoute({ task: 'add login', agents: mockAgents, projectContext: '', mode: 'llm', query });
+    expect(decision.source).toBe('builtin');
+    expect(decision.fallbackReason).toBe('model routing failed: network down');
+  });
+
+  test('marks manual and forced routes', async () => {
+    expect((await explainRoute({ task: 'x', agents: mockAgents, projectContext: '', manualAgent: 'scout' })).source).toBe('manual');
+    const forced = await explainRoute({ task: 'x', agents: mockAgents, projectContext: '', hints: { template: 'simple' } });
+    expect(forced).toMatchObject({ source: 'forced-template', template: 'simple' });
+  });
+});
@@ -1,6 +1,7 @@
 import { readFile, readdir } from 'node:fs/promises';
 import { join } from 'node:path';
 import { parse as parseYaml } from 'yaml';
+import { DEFAULT_TEMPLATES, explainMatch, findTemplate, type PipelineTemplate, type RouteHints } from './templates.js';
 
 export interface AgentSummary {
   name: string;
@@ -9,68 +10,184 @@ export interface AgentSummary {
   skills: string[];
 }
 
-export interface PipelineStage {
+/** Per-stage settings that override the agent definition. */
+export interface StageOverrides {
+  /** Model for this stage, e.g. `opus` or a full model ID. */
+  model?: string;
+  maxTurns?: number;
+}
+
+export interface PipelineStage extends StageOverrides {
   agent: string;
   teams: boolean;
 }
 
+/** `heuristic` matches keywords offline; `llm` asks a model and falls back to the heuristics. */
+export type RouterMode = 'heuristic' | 'llm';
+
+/** Sends a prompt to a model and returns its output for the given JSON schema. */
+export type RouterQueryFn = (prompt: string, schema: Record<string, unknown>) => Promise<unknown>;
+
 export interface RouteOptions {
   task: string;
   agents: AgentSummary[];
   projectContext: string;
   manualAgent?: string;
   manualTeams?: boolean;
+  /** Default: heuristic. */
+  mode?: RouterMode;
+  /** Required for llm mode. */
+  query?: RouterQueryFn;
+  log?: (message: string) => void;
+  /** User templates, evaluated before the model and the built-in patterns. */
+  templates?: PipelineTemplate[];
+  hints?: RouteHints;
 }
 
-const RESEARCH_KEYWORDS = ['research', 'evaluate', 'compare', 'investigate', 'explore options', 'which library', 'what framework'];
-const SIMPLE_KEYWORDS = ['fix', 'typo', 'bug', 'update', 'change', 'rename', 'remove', 'delete', 'tweak', 'adjust'];
-const COMPLEX_INDICATORS = /,|\b(and|with|plus)\b/g;
+export const ROUTE_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    stages: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: {
+          agent: { type: 'string' },
+          teams: { type: 'boolean' },
+        },
+        required: ['agent', 'teams'],
+      },
+    },
+    reasoning: { type: 'string' },
+  },
+  required: ['stages'],
+} as const;
+
+const ROUTER_SYSTEM_PROMPT = `You route software tasks to a pipeline of AI agents.
+Stages run in order. Agents before the builder (e.g. scout, architect) run once;
+when an architect writes a plan, builder and reviewer then run once per planned task.
+Use the fewest stages that will do the job well:
+- Small, well-specified fixes: builder, reviewer.
+- Features that need a plan: architect, builder, reviewer.
+- Unfamiliar territory or choosing between libraries: scout first.
+Set teams: true only on an architect stage for large, multi-component work.
+Use only the agents listed. Answer with JSON matching the schema.`;
+
+/** How the router arrived at a pipeline — see `codename route`. */
+export interface RouteDecision {
+  stages: PipelineStage[];
+  source: 'manual' | 'forced-template' | 'template' | 'model' | 'builtin';
+  /** Template that supplied the stages (user or built-in). */
+  template?: string;
+  /** Match rules that held, e.g. `keyword "readme"`. Empty for a catch-all template. */
+  matchedRules?: string[];
+  /** The model's own explanation, in llm mode. */
+  reasoning?: string;
+  /** Why llm routing was skipped or rejected before falling back to the built-ins. */
+  fallbackReason?: string;
+}
 
 export async function routeTask(options: RouteOptions): Promise<PipelineStage[]> {
+  return (await explainRoute(options)).stages;
+}
+
+/** Routes a task like routeTask, but also reports which rule or model decision picked the stages. */
+export async function explainRoute(options: RouteOptions): Promise<RouteDecision> {
   const { task, manualAgent, manualTeams } = options;
 
   if (manualAgent) {
-    return [{ agent: manualAgent, teams: manualTeams ?? false }];
+    return { stages: [{ agent: manualAgent, teams: manualTeams ?? false }], source: 'manual' };
   }
 
-  const taskLower = task.toLowerCase();
+  const userTemplates = options.templates ?? [];
+  const hints = options.hints ?? {};
+  const log = options.log ?? (() => {});
+
+  if (hints.template) {
+    const forced = [...userTemplates, ...DEFAULT_TEMPLATES].find(t => t.name === hints.template);
+    if (!forced) throw new Error(`Unknown pipeline template "${hints.template}"`);
+    log(`[router] using template ${forced.name} (forced)`);
+    return { stages: cloneStages(forced), source: 'forced-template', template: forced.name };
+  }
 
-  // Pattern 1: Research tasks
-  if (RESEARCH_KEYWORDS.some(kw => taskLower.includes(kw))) {
-    return [
-      { agent: 'scout', teams: false },
-      { agent: 'architect', teams: false },
-      { agent: 'builder', teams: false },
-      { agent: 'reviewer', teams: false },
-    ];
+  const matched = findTemplate(userTemplates, task, hints);
+  if (matched) {
+    log(`[router] using template ${matched.name}`);
+    return { stages: cloneStages(matched), source: 'template', template: matched.name, matchedRules: explainMatch(matched, task, hints) };
   }
 
-  // Pattern 2: Simple fix/bug
-  const isSimple = SIMPLE_KEYWORDS.some(kw => taskLower.startsWith(kw) || taskLower.includes(`${kw} `));
-  const hasNoPlanning = !taskLower.includes('implement') && !taskLower.includes('build') && !taskLower.includes('create') && !taskLower.includes('add') && !taskLower.includes('design') && !taskLower.includes('update') && !taskLower.includes('change');
-  if (isSimple && hasNoPlanning) {
-    return [
-      { agent: 'builder', teams: false },
-      { agent: 'reviewer', teams: false },
-    ];
+  let fallbackReason: string | undefined;
+  if (options.mode === 'llm') {
+    const routed = await routeWithModel(options);
+    if ('stages' in routed) return { stages: routed.stages, source: 'model', reasoning: routed.reasoning };
+    fallbackReason = routed.error;
+    log(`[router] ${fallbackReason} — using keyword routing`);
   }
 
-  // Pattern 3: Complex (5+ components heuristic)
-  const componentMatches = taskLower.match(COMPLEX_INDICATORS) ?? [];
-  if (componentMatches.length >= 4) {
-    return [
-      { agent: 'architect', teams: true },
-      { agent: 'builder', teams: false },
-      { agent: 'reviewer', teams: false },
-    ];
+  // The last built-in template matches everything
+  const builtin = findTemplate(DEFAULT_TEMPLATES, task, hints)!;
+  return {
+    stages: cloneStages(builtin),
+    source: 'builtin',
+    template: builtin.name,
+    matchedRules: explainMatch(builtin, task, hints),
+    ...(fallbackReason && { fallbackReason }),
+  };
+}
+
+/** Callers adjust stages (e.g. forcing teams), so never hand out a template's own objects. */
+function cloneStages(template: PipelineTemplate): PipelineStage[] {
+  return template.stages.map(stage => ({ ...stage }));
+}
+
+/** Asks the model for a pipeline. Returns why not when the answer can't be used. */
+async function routeWithModel(options: RouteOptions): Promise<{ stages: PipelineStage[]; reasoning?: string } | { error: string }> {
+  if (!options.query) return { error: 'llm mode has no query function' };
+  if (options.agents.length === 0) return { error: 'no agent summaries loaded' };
+
+  try {
+    const answer = await options.query(buildRouterPrompt(options), ROUTE_JSON_SCHEMA);
+    const stages = validateRoute(answer, options.agents);
+    if (typeof stages === 'string') return { error: `invalid route from model: ${stages}` };
+    options.log?.(`[router] model chose ${stages.map(s => s.agent + (s.teams ? ' (teams)' : '')).join(' → ')}`);
+    const reasoning = (answer as { reasoning?: unknown }).reasoning;
+    return typeof reasoning === 'string' ? { stages, reasoning } : { stages };
+  } catch (err) {
+    return { error: `model routing failed: ${err instanceof Error ? err.message : err}` };
   }
+}
+
+export function buildRouterPrompt(options: Pick<RouteOptions, 'task' | 'agents' | 'projectContext'>): string {
+  const agents = options.agents
+    .map(a => `- ${a.name} (${a.model}): ${a.description}${a.skills.length ? ` [skills: ${a.skills.join(', ')}]` : ''}`)
+    .join('\n');
+  const project = options.projectContext.trim() || '(no PROJECT.md yet)';
+  return `${ROUTER_SYSTEM_PROMPT}
 
-  // Pattern 4: Default — feature needing planning
-  return [
-    { agent: 'architect', teams: false },
-    { agent: 'builder', teams: false },
-    { agent: 'reviewer', teams: false },
-  ];
+## Available agents
+${agents}
+
+## Project
+${project}
+
+## Task
+${options.task}`;
+}
+
+/** Checks a model answer against the schema and the known agents. Returns the stages or an error message. */
+export function validateRoute(answer: unknown, agents: AgentSummary[]): PipelineStage[] | string {
+  const raw = (answer as { stages?: unknown } | null)?.stages;
+  if (!Array.isArray(raw) || raw.length === 0) return 'expected a non-empty stages array';
+
+  const known = new Set(agents.map(a => a.name));
+  const stages: PipelineStage[] = [];
+  for (const stage of raw as Array<Record<string, unknown>>) {
+    const agent = typeof stage?.['agent'] === 'string' ? stage['agent'].trim().toLowerCase() : '';
+    if (!known.has(agent)) return `unknown agent "${String(stage?.['agent'])}"`;
+    stages.push({ agent, teams: stage['teams'] === true });
+  }
+  return stages;
 }
 
 export async function loadAgentSummaries(agentsDir: string): Promise<AgentSummary[]> {
@@ -0,0 +1,40 @@
+import { describe, test, expect } from 'vitest';
+import { checkScope, inScope } from './scope.js';
+
+describe('inScope', () => {
+  test('matches globs within and across directories', () => {
+    expect(inScope('src/auth/login.ts', ['src/auth/*.ts'])).toBe(true);
+    expect(inScope('src/auth/oauth/google.ts', ['src/auth/*.ts'])).toBe(false);
+    expect(inScope('src/auth/oauth/google.ts', ['src/auth/**'])).toBe(true);
+    expect(inScope('src/index.ts', ['src/**/*.ts'])).toBe(true);
+    expect(inScope('src/index.js', ['src/**/*.ts'])).toBe(false);
+    expect(inScope('test/a1.ts', ['test/a?.ts'])).toBe(true);
+  });
+
+  test('treats plain paths and trailing slashes as everything below them', () => {
+    expect(inScope('docs/api/auth.md', ['docs/'])).toBe(true);
+    expect(inScope('docs/api/auth.md', ['./docs'])).toBe(true);
+    expect(inScope('docs-old/a.md', ['docs'])).toBe(false);
+    expect(inScope('README.md', ['README.md'])).toBe(true);
+  });
+
+  test('takes dots in globs literally', () => {
+    expect(inScope('srcXts', ['src.ts'])).toBe(false);
+  });
+});
+
+describe('checkScope', () => {
+  test('passes when every changed file is in scope', () => {
+    expect(checkScope(['src/auth/login.ts'], ['src/auth/**'])).toMatchObject({ name: 'scope', passed: true, required: true, output: '' });
+  });
+
+  test('fails listing the files outside the scope', () => {
+    const check = checkScope(['src/auth/login.ts', 'package.json', 'src/db.ts'], ['src/auth/**', 'tests/']);
+    expect(check).toMatchObject({ passed: false, exitCode: 1, command: 'src/auth/**, tests/' });
+    expect(check.output).toContain('- package.json\n- src/db.ts');
+  });
+
+  test('leaves .brain/ out of the check', () => {
+    expect(checkScope(['.brain/PLAN.md', 'src/auth/login.ts'], ['src/auth/**'])).toMatchObject({ passed: true });
+  });
+});
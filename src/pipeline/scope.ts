@@ -0,0 +1,57 @@
+import type { CheckResult } from './state.js';
+
+/**
+ * Turns a scope glob into a regex over project-relative paths: `*` and `?`
+ * stay within a directory, `**` spans directories and a trailing `/` means
+ * everything below it.
+ */
+function globToRegExp(glob: string): RegExp {
+  let pattern = glob.trim().replace(/^\.\//, '');
+  if (pattern.endsWith('/')) pattern += '**';
+
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern[i]!;
+    if (ch === '*' && pattern[i + 1] === '*') {
+      // `**/` also matches no directory at all: src/**/*.ts matches src/a.ts
+      source += pattern[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += pattern[i + 2] === '/' ? 2 : 1;
+    } else if (ch === '*') {
+      source += '[^/]*';
+    } else if (ch === '?') {
+      source += '[^/]';
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/** Whether a project-relative path is covered by a task's scope. A glob without wildcards also covers everything below it. */
+export function inScope(file: string, scope: string[]): boolean {
+  const path = file.replace(/^\.\//, '');
+  return scope.some(glob => {
+    if (globToRegExp(glob).test(path)) return true;
+    const dir = glob.trim().replace(/^\.\//, '').replace(/\/$/, '');
+    return !/[*?]/.test(dir) && path.startsWith(`${dir}/`);
+  });
+}
+
+/**
+ * Checks the files an attempt changed against its task's scope — reported
+ * alongside the validation commands. .brain/ is the pipeline's own and always allowed.
+ */
+export function checkScope(files: string[], scope: string[]): CheckResult {
+  const outside = files.filter(file => !file.replace(/^\.\//, '').startsWith('.brain/') && !inScope(file, scope));
+  return {
+    name: 'scope',
+    command: scope.join(', '),
+    required: true,
+    passed: outside.length === 0,
+    exitCode: outside.length === 0 ? 0 : 1,
+    durationMs: 0,
+    output: outside.length > 0
+      ? `Changed files outside the task's scope — revert them or move the work into the right task:\n${outside.map(f => `- ${f}`).join('\n')}`
+      : '',
+  };
+}
@@ -0,0 +1,126 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { writeFile, mkdir, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { checkSchema, describeStage, parseStageDescriptor, parseStageDescriptors, validateStageOutput } from './stages.js';
+
+const TEST_DIR = join(import.meta.dirname, '../../.test-state/stages-test');
+
+describe('describeStage', () => {
+  test('recognises the built-in agents by name', () => {
+    expect(describeStage('scout')).toEqual({ kind: 'pre-loop', role: 'scout' });
+    expect(describeStage('api-builder')).toEqual({ kind: 'per-task', role: 'builder' });
+    expect(describeStage('reviewer')).toEqual({ kind: 'per-task', role: 'reviewer' });
+  });
+
+  test('recognises the post-loop agents before the reviewer', () => {
+    expect(describeStage('integration-reviewer')).toEqual({ kind: 'post-loop', role: 'integration-reviewer' });
+    expect(describeStage('docs-writer')).toEqual({ kind: 'post-loop', role: 'docs-writer' });
+    expect(describeStage('changelog')).toEqual({ kind: 'post-loop', role: 'release-notes' });
+  });
+
+  test('unknown agents run once before the loop', () => {
+    expect(describeStage('migrator')).toEqual({ kind: 'pre-loop' });
+  });
+
+  test('configured descriptors win over the name', () => {
+    const custom = { 'docs-reviewer': { kind: 'post-loop' as const } };
+    expect(describeStage('docs-reviewer', custom)).toEqual({ kind: 'post-loop' });
+  });
+});
+
+describe('parseStageDescriptor', () => {
+  test('accepts a full descriptor', () => {
+    const raw = {
+      kind: 'per-task',
+      prompt: 'Audit the change for security issues.',
+      handoff: ['.brain/SECURITY.md'],
+      validate: { outputs: ['.brain/SECURITY.md'], schema: { type: 'object' }, command: 'true' },
+    };
+    expect(parseStageDescriptor('security-auditor', raw)).toEqual(raw);
+  });
+
+  test('rejects an unknown kind or role', () => {
+    expect(() => parseStageDescriptor('x', { kind: 'sometimes' })).toThrow('Stage "x": kind must be one of pre-loop, per-task, post-loop');
+    expect(() => parseStageDescriptor('x', { kind: 'per-task', role: 'tester' })).toThrow('role must be one of');
+  });
+
+  test('parseStageDescriptors skips invalid entries and lowercases names', () => {
+    const logs: string[] = [];
+    const descriptors = parseStageDescriptors({ 'Docs-Writer': { kind: 'post-loop' }, bad: { kind: 1 } }, m => logs.push(m));
+    expect(Object.keys(descriptors)).toEqual(['docs-writer']);
+    expect(logs[0]).toContain('Stage "bad"');
+  });
+
+  test('descriptors of mixed-case agents are found by the agent name', () => {
+    const descriptors = parseStageDescriptors({ 'Security-Auditor': { kind: 'per-task', handoff: ['.brain/SECURITY.md'] } });
+    expect(describeStage('Security-Auditor', descriptors)).toEqual({ kind: 'per-task', handoff: ['.brain/SECURITY.md'] });
+    expect(describeStage('API-Builder')).toEqual({ kind: 'per-task', role: 'builder' });
+  });
+});
+
+describe('checkSchema', () => {
+  const schema = {
+    type: 'object',
+    properties: {
+      risk: { type: 'string', enum: ['low', 'high'] },
+      findings: { type: 'array', items: { type: 'object', required: ['file'] } },
+    },
+    required: ['risk'],
+  };
+
+  test('accepts matching output', () => {
+    expect(checkSchema({ risk: 'low', findings: [{ file: 'a.ts' }] }, schema)).toBeNull();
+  });
+
+  test('reports the first mismatch with its path', () => {
+    expect(checkSchema({}, schema)).toBe('output.risk is required');
+    expect(checkSchema({ risk: 'medium' }, schema)).toBe('output.risk must be one of "low", "high"');
+    expect(checkSchema({ risk: 'low', findings: [{}] }, schema)).toBe('output.findings[0].file is required');
+    expect(checkSchema([], schema)).toBe('output must be an object');
+  });
+});
+
+describe('validateStageOutput', () => {
+  beforeEach(async () => {
+    await mkdir(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true });
+  });
+
+  test('checks output files and directories', async () => {
+    const validation = { outputs: ['CHANGELOG.md', 'docs/'] };
+    expect(await validateStageOutput('docs-writer', validation, TEST_DIR)).toBe('docs-writer did not produce CHANGELOG.md');
+
+    await writeFile(join(TEST_DIR, 'CHANGELOG.md'), '# Changes');
+    await mkdir(join(TEST_DIR, 'docs'));
+    expect(await validateStageOutput('docs-writer', validation, TEST_DIR)).toBe('docs-writer left docs/ empty');
+
+    await writeFile(join(TEST_DIR, 'docs', 'guide.md'), '# Guide');
+    expect(await validateStageOutput('docs-writer', validation, TEST_DIR)).toBeNull();
+  });
+
+  test('checks structured output against the schema', async () => {
+    const validation = { schema: { type: 'object', required: ['risk'] } };
+    expect(await validateStageOutput('auditor', validation, TEST_DIR)).toBe('auditor returned no structured output');
+    expect(await validateStageOutput('auditor', validation, TEST_DIR, {})).toBe('auditor structured output is invalid: output.risk is required');
+    expect(await validateStageOutput('auditor', validation, TEST_DIR, { risk: 'low' })).toBeNull();
+  });
+
+  test('runs the validation command in the project', async () => {
+    expect(await validateStageOutput('migrator', { command: 'test -f migrated' }, TEST_DIR))
+      .toBe('migrator validation command failed (exit 1): test -f migrated');
+    await writeFile(join(TEST_DIR, 'migrated'), '');
+    expect(await validateStageOutput('migrator', { command: 'test -f migrated' }, TEST_DIR)).toBeNull();
+  });
+
+  test('stops the validation command once aborted', async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 100);
+    const started = Date.now();
+    expect(await validateStageOutput('migrator', { command: 'sleep 5' }, TEST_DIR, undefined, controller.signal))
+      .toBe('migrator validation command failed: sleep 5');
+    expect(Date.now() - started).toBeLessThan(2_000);
+  });
+});
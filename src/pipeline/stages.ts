@@ -0,0 +1,231 @@
+import { access, readdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import { runValidationCommands } from './validation.js';
+
+/**
+ * When a stage runs: once before the Ralph loop, once per PLAN.md task inside
+ * it, or once after every task is done.
+ */
+export type StageKind = 'pre-loop' | 'per-task' | 'post-loop';
+
+/** The built-in behaviours a stage can reuse — prompt, validation and verdict handling. */
+export type StageRole = 'scout' | 'architect' | 'builder' | 'reviewer' | 'integration-reviewer' | 'docs-writer' | 'release-notes';
+
+export interface StageValidation {
+  /** Paths relative to the project the stage must leave behind. A trailing `/` means a directory holding at least one file. */
+  outputs?: string[];
+  /** JSON schema for the stage's structured output. Also sent to the model as the output format. */
+  schema?: Record<string, unknown>;
+  /** Shell command run in the project after the stage; a non-zero exit fails validation. */
+  command?: string;
+}
+
+export interface StageDescriptor {
+  kind: StageKind;
+  role?: StageRole;
+  /** Instructions for a custom stage. The task (and PLAN.md task title, per task) is appended. */
+  prompt?: string;
+  /** Checked on top of the role's own validation. */
+  validate?: StageValidation;
+  /** Artifacts this stage writes for later stages. Their prompts are told to read them. */
+  handoff?: string[];
+}
+
+export const STAGE_KINDS: StageKind[] = ['pre-loop', 'per-task', 'post-loop'];
+export const STAGE_ROLES: StageRole[] = ['scout', 'architect', 'builder', 'reviewer', 'integration-reviewer', 'docs-writer', 'release-notes'];
+
+/** The built-in agents. Their prompts already name the .brain/ files they exchange, so they declare no handoff. */
+export const BUILTIN_STAGES: Record<StageRole, StageDescriptor> = {
+  scout: { kind: 'pre-loop', role: 'scout' },
+  architect: { kind: 'pre-loop', role: 'architect' },
+  builder: { kind: 'per-task', role: 'builder' },
+  reviewer: { kind: 'per-task', role: 'reviewer' },
+  'integration-reviewer': { kind: 'post-loop', role: 'integration-reviewer' },
+  'docs-writer': { kind: 'post-loop', role: 'docs-writer' },
+  'release-notes': { kind: 'post-loop', role: 'release-notes' },
+};
+
+/** Recognises the built-in agents by name, including variants like `api-builder`. */
+function builtinRole(agent: string): StageRole | undefined {
+  if (agent.includes('scout')) return 'scout';
+  if (agent.includes('architect')) return 'architect';
+  if (agent.includes('integration')) return 'integration-reviewer';
+  if (agent.includes('build')) return 'builder';
+  if (agent.includes('review')) return 'reviewer';
+  if (agent.includes('docs')) return 'docs-writer';
+  if (agent.includes('changelog') || agent.includes('release')) return 'release-notes';
+  return undefined;
+}
+
+/** Agent names are matched case-insensitively — descriptors are keyed by this. */
+function stageKey(agent: string): string {
+  return agent.toLowerCase();
+}
+
+/**
+ * Resolves how an agent runs in a pipeline. Configured descriptors win;
+ * otherwise built-in agents are recognised by name, and any other agent runs
+ * once before the Ralph loop without validation.
+ */
+export function describeStage(agent: string, custom: Record<string, StageDescriptor> = {}): StageDescriptor {
+  const key = stageKey(agent);
+  const descriptor = custom[key];
+  if (descriptor) return descriptor;
+  const role = builtinRole(key);
+  return role ? BUILTIN_STAGES[role] : { kind: 'pre-loop' };
+}
+
+function stringList(value: unknown, field: string): string[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || !value.every(v => typeof v === 'string')) {
+    throw new Error(`${field} must be a list of strings`);
+  }
+  return value;
+}
+
+/** Validates a stage descriptor from config. Throws with a message naming the offending field. */
+export function parseStageDescriptor(agent: string, raw: unknown): StageDescriptor {
+  try {
+    if (!raw || typeof raw !== 'object') throw new Error('descriptor must be an object');
+    const obj = raw as Record<string, unknown>;
+
+    if (!STAGE_KINDS.includes(obj['kind'] as StageKind)) throw new Error(`kind must be one of ${STAGE_KINDS.join(', ')}`);
+    const descriptor: StageDescriptor = { kind: obj['kind'] as StageKind };
+
+    if (obj['role'] !== undefined) {
+      if (!STAGE_ROLES.includes(obj['role'] as StageRole)) throw new Error(`role must be one of ${STAGE_ROLES.join(', ')}`);
+      descriptor.role = obj['role'] as StageRole;
+    }
+    if (obj['prompt'] !== undefined) {
+      if (typeof obj['prompt'] !== 'string') throw new Error('prompt must be a string');
+      descriptor.prompt = obj['prompt'];
+    }
+    const handoff = stringList(obj['handoff'], 'handoff');
+    if (handoff) descriptor.handoff = handoff;
+
+    if (obj['validate'] !== undefined) {
+      if (!obj['validate'] || typeof obj['validate'] !== 'object') throw new Error('validate must be an object');
+      const v = obj['validate'] as Record<string, unknown>;
+      const validate: StageValidation = {};
+      const outputs = stringList(v['outputs'], 'validate.outputs');
+      if (outputs) validate.outputs = outputs;
+      if (v['schema'] !== undefined) {
+        if (!v['schema'] || typeof v['schema'] !== 'object') throw new Error('validate.schema must be an object');
+        validate.schema = v['schema'] as Record<string, unknown>;
+      }
+      if (v['command'] !== undefined) {
+        if (typeof v['command'] !== 'string' || !v['command']) throw new Error('validate.command must be a string');
+        validate.command = v['command'];
+      }
+      descriptor.validate = validate;
+    }
+    return descriptor;
+  } catch (err) {
+    throw new Error(`Stage "${agent}": ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+/** Parses the `pipeline.stages` config map. Invalid descriptors are logged and skipped. */
+export function parseStageDescriptors(
+  raw: Record<string, unknown> = {},
+  log: (message: string) => void = () => {},
+): Record<string, StageDescriptor> {
+  const descriptors: Record<string, StageDescriptor> = {};
+  for (const [agent, value] of Object.entries(raw)) {
+    try {
+      descriptors[stageKey(agent)] = parseStageDescriptor(agent, value);
+    } catch (err) {
+      log(`[stages] skipping invalid stage: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+  return descriptors;
+}
+
+/**
+ * Checks a value against the common subset of JSON schema: type, enum,
+ * required, properties, items and minItems. Returns the first mismatch.
+ */
+export function checkSchema(value: unknown, schema: Record<string, unknown>, path = 'output'): string | null {
+  const type = schema['type'];
+  if (typeof type === 'string' && !hasType(value, type)) return `${path} must be ${type === 'array' || type === 'object' ? 'an' : 'a'} ${type}`;
+
+  const allowed = schema['enum'];
+  if (Array.isArray(allowed) && !allowed.includes(value)) return `${path} must be one of ${allowed.map(a => JSON.stringify(a)).join(', ')}`;
+
+  if (Array.isArray(value)) {
+    const minItems = schema['minItems'];
+    if (typeof minItems === 'number' && value.length < minItems) return `${path} needs at least ${minItems} item(s)`;
+    const items = schema['items'];
+    if (items && typeof items === 'object') {
+      for (const [i, item] of value.entries()) {
+        const error = checkSchema(item, items as Record<string, unknown>, `${path}[${i}]`);
+        if (error) return error;
+      }
+    }
+  } else if (value && typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+    const required = schema['required'];
+    for (const key of Array.isArray(required) ? required : []) {
+      if (obj[key] === undefined) return `${path}.${key} is required`;
+    }
+    const properties = (schema['properties'] ?? {}) as Record<string, Record<string, unknown>>;
+    for (const [key, propSchema] of Object.entries(properties)) {
+      if (obj[key] === undefined) continue;
+      const error = checkSchema(obj[key], propSchema, `${path}.${key}`);
+      if (error) return error;
+    }
+  }
+  return null;
+}
+
+function hasType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'array': return Array.isArray(value);
+    case 'object': return !!value && typeof value === 'object' && !Array.isArray(value);
+    case 'integer': return Number.isInteger(value);
+    case 'null': return value === null;
+    default: return typeof value === type;
+  }
+}
+
+/**
+ * Runs a descriptor's validation rules for a finished stage. Returns an error
+ * message or null. Once `signal` aborts, a running validation command is killed.
+ */
+export async function validateStageOutput(
+  agent: string,
+  validation: StageValidation,
+  project: string,
+  structuredOutput?: unknown,
+  signal?: AbortSignal,
+): Promise<string | null> {
+  for (const output of validation.outputs ?? []) {
+    if (output.endsWith('/')) {
+      const entries = await readdir(join(project, output)).catch(() => null);
+      if (!entries) return `${agent} did not create ${output}`;
+      if (entries.length === 0) return `${agent} left ${output} empty`;
+    } else {
+      try {
+        await access(join(project, output));
+      } catch {
+        return `${agent} did not produce ${output}`;
+      }
+    }
+  }
+
+  if (validation.schema) {
+    if (structuredOutput === undefined) return `${agent} returned no structured output`;
+    const error = checkSchema(structuredOutput, validation.schema);
+    if (error) return `${agent} structured output is invalid: ${error}`;
+  }
+
+  if (validation.command) {
+    const [check] = await runValidationCommands([{ name: agent, command: validation.command }], project, signal);
+    if (check && !check.passed) {
+      const status = check.timedOut ? ' (timed out)' : check.exitCode !== null ? ` (exit ${check.exitCode})` : '';
+      return `${agent} validation command failed${status}: ${validation.command}`;
+    }
+  }
+
+  return null;
+}
@@ -1,13 +1,113 @@
 import { readFile, writeFile, mkdir } from 'node:fs/promises';
 import { join, dirname } from 'node:path';
+import type { StageOverrides } from './router.js';
+
+/** Outcome of one validation command run after the Builder. */
+export interface CheckResult {
+  name: string;
+  command: string;
+  required: boolean;
+  passed: boolean;
+  /** Null when the command was killed or could not start. */
+  exitCode: number | null;
+  timedOut?: boolean;
+  durationMs: number;
+  /** The end of the command's output. */
+  output: string;
+}
+
+/** A file one attempt at a task changed. */
+export interface DiffFile {
+  path: string;
+  status: 'added' | 'modified' | 'deleted';
+  /** Zero for binary files. */
+  additions: number;
+  deletions: number;
+}
+
+/** What one attempt at a task changed, .brain/ excluded. */
+export interface TaskDiff {
+  files: DiffFile[];
+  additions: number;
+  deletions: number;
+  /** The full diff, saved under .brain/attempts/. Unset when nothing changed. */
+  path?: string;
+}
+
+/** One reviewer's verdict when several review a task. */
+export interface ReviewVote {
+  reviewer: string;
+  verdict: string;
+  score: number;
+}
+
+/** What a reviewer said about one attempt at a task. */
+export interface TaskReview {
+  attempt: number;
+  verdict: string;
+  score?: number;
+  summary?: string;
+  issues: ReviewIssue[];
+  /** Why the review policy overrode the reviewer's APPROVE. */
+  overrideReason?: string;
+  /** Set in consensus mode: the rule, each reviewer's vote and whether they disagreed. */
+  consensus?: { rule: string; votes: ReviewVote[]; disagreement: boolean };
+}
 
 export interface TaskProgress {
   title: string;
-  status: 'pending' | 'in_progress' | 'completed' | 'failed';
+  /** 'blocked' = never started because a task it depends on failed. */
+  status: 'pending' | 'in_progress' | 'completed' | 'failed' | 'blocked';
   attempts: number;
   lastVerdict?: string;
   lastSessionId?: string;
   completedAt?: number;
+  /** Git branch of the worktree this task is being built in (parallel mode only). */
+  branch?: string;
+  /** Sent back by an integration review — the next Builder reads its feedback in .brain/reviews/. */
+  reopened?: boolean;
+  /** Structured reviews of this task, oldest first. The latest one's issues go into the next Builder and Reviewer prompts. */
+  reviews?: TaskReview[];
+  /** The validation commands' results for the latest attempt. */
+  checks?: CheckResult[];
+  /** What the latest attempt changed. */
+  diff?: TaskDiff;
+  /** HEAD when the task's first attempt started. */
+  checkpoint?: string;
+  /** Without a checkpoint, a snapshot of the tree before the task's first attempt — what its scope check compares against. */
+  scopeBase?: string;
+  /** Commits of the task's approved work — more than one when it was reopened. */
+  commits?: string[];
+  /** Set when the last attempt was rolled back; `patch` is its saved diff. */
+  rolledBack?: { attempt: number; patch?: string };
+}
+
+/** Why a pipeline was stopped early — passed as the reason to AbortController.abort(). */
+export type PipelineStopReason = 'cancel' | 'pause' | 'shutdown';
+
+/** Points where a pipeline can wait for a human: after PLAN.md, before a REDESIGN, before completing. */
+export type ApprovalGate = 'plan' | 'redesign' | 'complete';
+
+export const APPROVAL_GATES: ApprovalGate[] = ['plan', 'redesign', 'complete'];
+
+/**
+ * What happens to a rejected attempt's changes before the retry: 'discard'
+ * restores the task's checkpoint, 'patch' also keeps the attempt's diff under .brain/attempts/.
+ */
+export type AttemptRollback = 'discard' | 'patch';
+
+export const ATTEMPT_ROLLBACKS: AttemptRollback[] = ['discard', 'patch'];
+
+export interface ApprovalRecord {
+  gate: ApprovalGate;
+  requestedAt: number;
+  /** Unset while the pipeline waits. */
+  decision?: 'approved' | 'rejected';
+  /** Why it was rejected — handed to the agent that redoes the work. */
+  reason?: string;
+  decidedAt?: number;
+  /** The task whose review asked for the redesign. */
+  taskTitle?: string;
 }
 
 export interface PipelineState {
@@ -15,15 +115,38 @@ export interface PipelineState {
   task: string;
   /** Agents that ran before the Ralph loop (e.g. ['scout', 'architect']). */
   agentPipeline: string[];
-  status: 'running' | 'completed' | 'failed' | 'stalled';
-  /** Current phase: 'scouting' | 'planning' | 'building' | 'completed' | 'failed'. */
+  status: 'running' | 'completed' | 'failed' | 'stalled' | 'paused' | 'cancelled' | 'awaiting_approval';
+  /** Current phase: 'scouting' | 'planning' | 'building' | 'finishing' | 'completed' | 'failed'. */
   phase: string;
   startedAt: number;
   updatedAt: number;
   tasks: TaskProgress[];
+  /** Most recently started task. In parallel mode see inFlightTaskIndexes. */
   currentTaskIndex: number;
+  /** Indexes into tasks that are currently being built concurrently. */
+  inFlightTaskIndexes?: number[];
   totalIterations: number;
   retries: number;
+  /** Pre- and post-loop agents that finished and passed validation — skipped on resume. */
+  completedStages?: string[];
+  /** Architect re-runs triggered by REDESIGN verdicts so far. */
+  redesignCount?: number;
+  /** HEAD when the pipeline started — post-loop stages diff against it. Unset outside git repos. */
+  baseCommit?: string;
+  /** The branch the pipeline works and commits on. */
+  branch?: string;
+  /** The branch checked out when the pipeline started — where its pull request goes. */
+  baseBranch?: string;
+  /** Opened once the pipeline completed, for projects that publish. */
+  pullRequest?: { number: number; url: string };
+  /** Integration reviews that sent tasks back to the Ralph loop so far. */
+  integrationRounds?: number;
+  /** Model and turn overrides per agent, from the pipeline template — reapplied on resume. */
+  stageOptions?: Record<string, StageOverrides>;
+  /** The gate the pipeline stopped at, and the decision once someone approves or rejects. */
+  approval?: ApprovalRecord;
+  /** Gates already decided, oldest first. */
+  approvals?: ApprovalRecord[];
   finalVerdict?: string;
   error?: string;
 }
@@ -47,15 +170,17 @@ export async function writePipelineState(projectDir: string, state: PipelineStat
   await writeFile(path, JSON.stringify(state, null, 2));
 }
 
+export interface ReviewIssue {
+  severity: 'critical' | 'major' | 'minor' | 'nit';
+  description: string;
+  file?: string;
+}
+
 export interface ReviewOutput {
   verdict: 'APPROVE' | 'REVISE' | 'REDESIGN';
   score: number;
   summary: string;
-  issues: Array<{
-    severity: 'critical' | 'major' | 'minor' | 'nit';
-    description: string;
-    file?: string;
-  }>;
+  issues: ReviewIssue[];
   patternsCompliance: boolean;
 }
 
@@ -81,3 +206,23 @@ export const REVIEW_JSON_SCHEMA = {
   },
   required: ['verdict', 'score', 'summary', 'issues', 'patternsCompliance'],
 } as const;
+
+/** Verdict of a post-loop integration review over the whole change set. */
+export interface IntegrationReviewOutput {
+  verdict: 'APPROVE' | 'REVISE';
+  summary: string;
+  issues: ReviewIssue[];
+  /** PLAN.md task titles whose work has to be redone. */
+  reopenTasks: string[];
+}
+
+export const INTEGRATION_REVIEW_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    verdict: { type: 'string', enum: ['APPROVE', 'REVISE'] },
+    summary: { type: 'string' },
+    issues: REVIEW_JSON_SCHEMA.properties.issues,
+    reopenTasks: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['verdict', 'summary', 'issues', 'reopenTasks'],
+} as const;
@@ -0,0 +1,149 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { writeFile, mkdir, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import {
+  DEFAULT_TEMPLATES,
+  explainMatch,
+  findTemplate,
+  loadPipelineTemplates,
+  parseTemplate,
+  templateMatches,
+  type PipelineTemplate,
+} from './templates.js';
+
+const TEST_DIR = join(import.meta.dirname, '../../.test-state/templates-test');
+
+const stages = [{ agent: 'builder', teams: false }];
+
+describe('templateMatches', () => {
+  test('a template without match rules matches everything', () => {
+    expect(templateMatches({ name: 'any', stages }, 'anything')).toBe(true);
+  });
+
+  test('keywords match case-insensitively and excludeKeywords veto', () => {
+    const template: PipelineTemplate = { name: 'docs', stages, match: { keywords: ['README'], excludeKeywords: ['api'] } };
+    expect(templateMatches(template, 'update the readme')).toBe(true);
+    expect(templateMatches(template, 'update the readme for the API')).toBe(false);
+    expect(templateMatches(template, 'fix a bug')).toBe(false);
+  });
+
+  test('regex is tested against the task', () => {
+    const template: PipelineTemplate = { name: 'migration', stages, match: { regex: '^migrate\\b' } };
+    expect(templateMatches(template, 'Migrate to Postgres')).toBe(true);
+    expect(templateMatches(template, 'plan to migrate')).toBe(false);
+  });
+
+  test('minMatches counts how often the regex matches', () => {
+    const template: PipelineTemplate = { name: 'wide', stages, match: { regex: ',|\\band\\b', minMatches: 3 } };
+    expect(templateMatches(template, 'auth, billing and search')).toBe(false);
+    expect(templateMatches(template, 'auth, billing, search and admin')).toBe(true);
+    expect(explainMatch(template, 'auth, billing, search and admin')).toEqual(['regex /,|\\band\\b/ 3+ times']);
+  });
+
+  test('the complex template stays fast on a long task', () => {
+    const complex = DEFAULT_TEMPLATES.find(t => t.name === 'complex')!;
+    const started = Date.now();
+    expect(templateMatches(complex, 'word '.repeat(4_000))).toBe(false);
+    expect(templateMatches(complex, `${'word '.repeat(4_000)}a, b, c, d and e`)).toBe(true);
+    expect(Date.now() - started).toBeLessThan(100);
+  });
+
+  test('labels and triggers come from the hints', () => {
+    const template: PipelineTemplate = { name: 'hotfix', stages, match: { labels: ['Hotfix'], triggers: ['webhook:*'] } };
+    expect(templateMatches(template, 'x', { labels: ['hotfix'], triggerName: 'webhook:issue-7' })).toBe(true);
+    expect(templateMatches(template, 'x', { labels: ['hotfix'], triggerName: 'cli:pipeline' })).toBe(false);
+    expect(templateMatches(template, 'x', { triggerName: 'webhook:issue-7' })).toBe(false);
+  });
+
+  test('findTemplate returns the first match in order', () => {
+    const templates: PipelineTemplate[] = [
+      { name: 'first', stages, match: { keywords: ['auth'] } },
+      { name: 'second', stages, match: { keywords: ['auth', 'login'] } },
+    ];
+    expect(findTemplate(templates, 'add login with auth')!.name).toBe('first');
+    expect(findTemplate(templates, 'add login')!.name).toBe('second');
+    expect(findTemplate(templates, 'add search')).toBeNull();
+  });
+
+  test('the built-in templates end in a catch-all', () => {
+    expect(findTemplate(DEFAULT_TEMPLATES, 'something unusual')!.name).toBe('feature');
+  });
+});
+
+describe('explainMatch', () => {
+  test('lists the rules that held', () => {
+    const template: PipelineTemplate = {
+      name: 'hotfix', stages, match: { keywords: ['crash', 'hotfix'], excludeKeywords: ['docs'], labels: ['urgent'], triggers: ['webhook:*'] },
+    };
+    expect(explainMatch(template, 'Hotfix the login crash', { labels: ['Urgent'], triggerName: 'webhook:issue-3' })).toEqual([
+      'keyword "crash"', 'none of "docs"', 'label "urgent"', 'trigger webhook:*',
+    ]);
+  });
+
+  test('is empty for a catch-all', () => {
+    expect(explainMatch({ name: 'any', stages }, 'anything')).toEqual([]);
+  });
+});
+
+describe('parseTemplate', () => {
+  test('accepts agent-name shorthand and per-stage options', () => {
+    const template = parseTemplate({
+      name: 'heavy',
+      stages: ['scout', { agent: 'Architect', teams: true, model: 'opus', maxTurns: 80 }],
+    });
+    expect(template.stages).toEqual([
+      { agent: 'scout', teams: false },
+      { agent: 'architect', teams: true, model: 'opus', maxTurns: 80 },
+    ]);
+  });
+
+  test('rejects templates without stages', () => {
+    expect(() => parseTemplate({ name: 'empty', stages: [] })).toThrow('Pipeline template "empty": stages must be a non-empty list');
+  });
+
+  test('rejects an invalid regex', () => {
+    expect(() => parseTemplate({ name: 'bad', stages, match: { regex: '(' } })).toThrow('match.regex is not a valid regular expression');
+  });
+
+  test('rejects minMatches without a regex or below 1', () => {
+    expect(() => parseTemplate({ name: 'bad', stages, match: { minMatches: 2 } })).toThrow('match.minMatches needs a match.regex to count');
+    expect(() => parseTemplate({ name: 'bad', stages, match: { regex: ',', minMatches: 0 } })).toThrow('match.minMatches must be a positive integer');
+  });
+
+  test('rejects a non-integer maxTurns', () => {
+    expect(() => parseTemplate({ name: 'bad', stages: [{ agent: 'builder', maxTurns: 'lots' }] })).toThrow('maxTurns must be a positive integer');
+  });
+});
+
+describe('loadPipelineTemplates', () => {
+  beforeEach(async () => {
+    await mkdir(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true });
+  });
+
+  test('loads config templates first, then YAML files in name order', async () => {
+    await writeFile(join(TEST_DIR, 'b-docs.yaml'), 'match:\n  keywords: [docs]\nstages:\n  - builder\n');
+    await writeFile(join(TEST_DIR, 'a-hotfix.yml'), 'name: hotfix\nstages:\n  - builder\n  - reviewer\n');
+    await writeFile(join(TEST_DIR, 'notes.txt'), 'ignored');
+
+    const templates = await loadPipelineTemplates(TEST_DIR, [{ name: 'inline', stages: ['builder'] }]);
+    expect(templates.map(t => t.name)).toEqual(['inline', 'hotfix', 'b-docs']);
+  });
+
+  test('skips invalid templates and logs why', async () => {
+    await writeFile(join(TEST_DIR, 'broken.yaml'), 'stages: nope\n');
+    const logs: string[] = [];
+
+    const templates = await loadPipelineTemplates(TEST_DIR, [{ name: 'ok', stages: ['builder'] }], m => logs.push(m));
+    expect(templates.map(t => t.name)).toEqual(['ok']);
+    expect(logs[0]).toContain('Pipeline template "broken": stages must be a non-empty list');
+  });
+
+  test('returns config templates when the directory does not exist', async () => {
+    const templates = await loadPipelineTemplates(join(TEST_DIR, 'missing'), [{ name: 'ok', stages: ['builder'] }]);
+    expect(templates).toHaveLength(1);
+  });
+});
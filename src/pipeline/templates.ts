@@ -0,0 +1,252 @@
+import { readFile, readdir } from 'node:fs/promises';
+import { basename, extname, join } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import type { PipelineStage } from './router.js';
+
+/** Rules a template must satisfy to be picked. Every rule that is set has to match. */
+export interface TemplateMatch {
+  /** The task contains any of these (case-insensitive). */
+  keywords?: string[];
+  /** The task contains none of these (case-insensitive). */
+  excludeKeywords?: string[];
+  /** The task matches this regular expression (case-insensitive). */
+  regex?: string;
+  /** How many times `regex` has to match. Default: 1. */
+  minMatches?: number;
+  /** The work item carries any of these labels, e.g. GitHub issue labels. */
+  labels?: string[];
+  /** The work item came from one of these triggers. A trailing `*` matches a prefix, e.g. `webhook:*`. */
+  triggers?: string[];
+}
+
+export interface PipelineTemplate {
+  name: string;
+  description?: string;
+  /** Omitted: matches every task — useful as a catch-all at the end. */
+  match?: TemplateMatch;
+  stages: PipelineStage[];
+}
+
+/** What the router knows about a task besides its text. */
+export interface RouteHints {
+  triggerName?: string;
+  labels?: string[];
+  /** Forces this template, skipping match rules. */
+  template?: string;
+}
+
+const RESEARCH_KEYWORDS = ['research', 'evaluate', 'compare', 'investigate', 'explore options', 'which library', 'what framework'];
+const SIMPLE_KEYWORDS = 'fix|typo|bug|update|change|rename|remove|delete|tweak|adjust';
+const PLANNING_KEYWORDS = ['implement', 'build', 'create', 'add', 'design', 'update', 'change'];
+
+/**
+ * The built-in routing patterns, evaluated after user templates. The last one
+ * has no match rules, so routing always ends in a pipeline.
+ */
+export const DEFAULT_TEMPLATES: PipelineTemplate[] = [
+  {
+    name: 'research',
+    description: 'Unfamiliar territory — research before planning',
+    match: { keywords: RESEARCH_KEYWORDS },
+    stages: [
+      { agent: 'scout', teams: false },
+      { agent: 'architect', teams: false },
+      { agent: 'builder', teams: false },
+      { agent: 'reviewer', teams: false },
+    ],
+  },
+  {
+    name: 'simple',
+    description: 'Small fix that needs no plan',
+    match: { regex: `^(?:${SIMPLE_KEYWORDS})|(?:${SIMPLE_KEYWORDS}) `, excludeKeywords: PLANNING_KEYWORDS },
+    stages: [
+      { agent: 'builder', teams: false },
+      { agent: 'reviewer', teams: false },
+    ],
+  },
+  {
+    name: 'complex',
+    description: 'Many components (5+) — plan with an agent team',
+    match: { regex: ',|\\b(?:and|with|plus)\\b', minMatches: 4 },
+    stages: [
+      { agent: 'architect', teams: true },
+      { agent: 'builder', teams: false },
+      { agent: 'reviewer', teams: false },
+    ],
+  },
+  {
+    name: 'feature',
+    description: 'Default — feature that needs planning',
+    stages: [
+      { agent: 'architect', teams: false },
+      { agent: 'builder', teams: false },
+      { agent: 'reviewer', teams: false },
+    ],
+  },
+];
+
+/** How often `regex` matches `task`, case-insensitively — counted match by match, so it stays linear. */
+function countMatches(regex: string, task: string): number {
+  return task.match(new RegExp(regex, 'gi'))?.length ?? 0;
+}
+
+function matchesTrigger(pattern: string, triggerName: string): boolean {
+  return pattern.endsWith('*') ? triggerName.startsWith(pattern.slice(0, -1)) : pattern === triggerName;
+}
+
+export function templateMatches(template: PipelineTemplate, task: string, hints: RouteHints = {}): boolean {
+  const match = template.match;
+  if (!match) return true;
+
+  const taskLower = task.toLowerCase();
+  if (match.keywords && !match.keywords.some(kw => taskLower.includes(kw.toLowerCase()))) return false;
+  if (match.excludeKeywords?.some(kw => taskLower.includes(kw.toLowerCase()))) return false;
+  if (match.regex && countMatches(match.regex, task) < (match.minMatches ?? 1)) return false;
+  if (match.labels) {
+    const labels = new Set((hints.labels ?? []).map(l => l.toLowerCase()));
+    if (!match.labels.some(l => labels.has(l.toLowerCase()))) return false;
+  }
+  if (match.triggers) {
+    const triggerName = hints.triggerName;
+    if (!triggerName || !match.triggers.some(t => matchesTrigger(t, triggerName))) return false;
+  }
+  return true;
+}
+
+/** Describes the rules of a matching template that held, for `codename route`. */
+export function explainMatch(template: PipelineTemplate, task: string, hints: RouteHints = {}): string[] {
+  const match = template.match;
+  if (!match) return [];
+
+  const taskLower = task.toLowerCase();
+  const rules: string[] = [];
+  const keyword = match.keywords?.find(kw => taskLower.includes(kw.toLowerCase()));
+  if (keyword) rules.push(`keyword "${keyword}"`);
+  if (match.excludeKeywords) rules.push(`none of ${match.excludeKeywords.map(kw => `"${kw}"`).join(', ')}`);
+  if (match.regex) rules.push(`regex /${match.regex}/${(match.minMatches ?? 1) > 1 ? ` ${match.minMatches}+ times` : ''}`);
+  const label = match.labels?.find(l => hints.labels?.some(h => h.toLowerCase() === l.toLowerCase()));
+  if (label) rules.push(`label "${label}"`);
+  const trigger = match.triggers?.find(t => hints.triggerName && matchesTrigger(t, hints.triggerName));
+  if (trigger) rules.push(`trigger ${trigger}`);
+  return rules;
+}
+
+/** Returns the first template whose match rules all hold, in order. */
+export function findTemplate(templates: PipelineTemplate[], task: string, hints: RouteHints = {}): PipelineTemplate | null {
+  return templates.find(t => templateMatches(t, task, hints)) ?? null;
+}
+
+function stringList(value: unknown, field: string): string[] | undefined {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || !value.every(v => typeof v === 'string')) {
+    throw new Error(`${field} must be a list of strings`);
+  }
+  return value;
+}
+
+function parseStage(raw: unknown, index: number): PipelineStage {
+  // Shorthand: `- builder`
+  if (typeof raw === 'string') return { agent: raw.toLowerCase(), teams: false };
+  if (!raw || typeof raw !== 'object') throw new Error(`stage ${index + 1} must be an agent name or an object`);
+
+  const stage = raw as Record<string, unknown>;
+  if (typeof stage['agent'] !== 'string' || !stage['agent']) throw new Error(`stage ${index + 1} needs an agent`);
+  const parsed: PipelineStage = { agent: stage['agent'].toLowerCase(), teams: stage['teams'] === true };
+  if (stage['model'] !== undefined) {
+    if (typeof stage['model'] !== 'string') throw new Error(`stage ${index + 1}: model must be a string`);
+    parsed.model = stage['model'];
+  }
+  if (stage['maxTurns'] !== undefined) {
+    if (!Number.isInteger(stage['maxTurns']) || (stage['maxTurns'] as number) < 1) {
+      throw new Error(`stage ${index + 1}: maxTurns must be a positive integer`);
+    }
+    parsed.maxTurns = stage['maxTurns'] as number;
+  }
+  return parsed;
+}
+
+/** Validates a template from config or YAML. Throws with a message naming the offending field. */
+export function parseTemplate(raw: unknown, fallbackName?: string): PipelineTemplate {
+  if (!raw || typeof raw !== 'object') throw new Error('template must be an object');
+  const obj = raw as Record<string, unknown>;
+
+  const name = obj['name'] ?? fallbackName;
+  if (typeof name !== 'string' || !name) throw new Error('template needs a name');
+
+  try {
+    if (!Array.isArray(obj['stages']) || obj['stages'].length === 0) throw new Error('stages must be a non-empty list');
+    const template: PipelineTemplate = { name, stages: obj['stages'].map(parseStage) };
+    if (typeof obj['description'] === 'string') template.description = obj['description'];
+
+    if (obj['match'] !== undefined) {
+      if (!obj['match'] || typeof obj['match'] !== 'object') throw new Error('match must be an object');
+      const m = obj['match'] as Record<string, unknown>;
+      const match: TemplateMatch = {};
+      const keywords = stringList(m['keywords'], 'match.keywords');
+      const excludeKeywords = stringList(m['excludeKeywords'], 'match.excludeKeywords');
+      const labels = stringList(m['labels'], 'match.labels');
+      const triggers = stringList(m['triggers'], 'match.triggers');
+      if (keywords) match.keywords = keywords;
+      if (excludeKeywords) match.excludeKeywords = excludeKeywords;
+      if (labels) match.labels = labels;
+      if (triggers) match.triggers = triggers;
+      if (m['regex'] !== undefined) {
+        if (typeof m['regex'] !== 'string') throw new Error('match.regex must be a string');
+        try {
+          new RegExp(m['regex']);
+        } catch {
+          throw new Error(`match.regex is not a valid regular expression: ${m['regex']}`);
+        }
+        match.regex = m['regex'];
+      }
+      if (m['minMatches'] !== undefined) {
+        if (!Number.isInteger(m['minMatches']) || (m['minMatches'] as number) < 1) throw new Error('match.minMatches must be a positive integer');
+        if (match.regex === undefined) throw new Error('match.minMatches needs a match.regex to count');
+        match.minMatches = m['minMatches'] as number;
+      }
+      template.match = match;
+    }
+    return template;
+  } catch (err) {
+    throw new Error(`Pipeline template "${name}": ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+/**
+ * Loads user templates: the ones from config.json first, then every
+ * `*.yaml`/`*.yml` file in `dir` (one template each, named after the file
+ * unless it sets a name) in file name order. Invalid templates are logged and
+ * skipped so one bad file doesn't stop routing.
+ */
+export async function loadPipelineTemplates(
+  dir: string,
+  inline: unknown[] = [],
+  log: (message: string) => void = () => {},
+): Promise<PipelineTemplate[]> {
+  const templates: PipelineTemplate[] = [];
+  const add = (raw: unknown, fallbackName?: string) => {
+    try {
+      templates.push(parseTemplate(raw, fallbackName));
+    } catch (err) {
+      log(`[templates] skipping invalid template: ${err instanceof Error ? err.message : err}`);
+    }
+  };
+
+  inline.forEach(raw => add(raw));
+
+  let files: string[] = [];
+  try {
+    files = (await readdir(dir)).filter(f => f.endsWith('.yaml') || f.endsWith('.yml')).sort();
+  } catch {
+    // No pipelines directory — config templates only
+  }
+  for (const file of files) {
+    try {
+      add(parseYaml(await readFile(join(dir, file), 'utf-8')), basename(file, extname(file)));
+    } catch (err) {
+      log(`[templates] could not read ${file}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  return templates;
+}
@@ -0,0 +1,114 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { writeFile, mkdir, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+import { formatCheckResults, loadValidationCommands, parseValidationCommands, runValidationCommands } from './validation.js';
+
+const TEST_DIR = join(import.meta.dirname, '../../.test-state/validation-test');
+
+describe('parseValidationCommands', () => {
+  test('accepts commands and full check objects in order', () => {
+    expect(parseValidationCommands({
+      test: 'cargo test',
+      lint: { command: 'cargo clippy', required: false, timeoutMs: 60_000 },
+    })).toEqual([
+      { name: 'test', command: 'cargo test' },
+      { name: 'lint', command: 'cargo clippy', required: false, timeoutMs: 60_000 },
+    ]);
+  });
+
+  test('names the offending check', () => {
+    expect(() => parseValidationCommands(['pytest'])).toThrow('expected an object');
+    expect(() => parseValidationCommands({ test: { required: true } })).toThrow('check "test" needs a command');
+    expect(() => parseValidationCommands({ build: { command: 'go build ./...', timeoutMs: -1 } })).toThrow('check "build": timeoutMs');
+    expect(() => parseValidationCommands({ lint: { command: 'ruff check .', required: 'no' } })).toThrow('check "lint": required');
+  });
+});
+
+describe('loadValidationCommands', () => {
+  beforeEach(async () => {
+    await mkdir(join(TEST_DIR, '.brain'), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true });
+  });
+
+  test('reads .brain/validation.json', async () => {
+    await writeFile(join(TEST_DIR, '.brain', 'validation.json'), JSON.stringify({ test: 'pytest' }));
+    expect(await loadValidationCommands(TEST_DIR)).toEqual([{ name: 'test', command: 'pytest' }]);
+  });
+
+  test('falls back to an optional package.json test script', async () => {
+    await writeFile(join(TEST_DIR, 'package.json'), JSON.stringify({ scripts: { test: 'vitest run' } }));
+    expect(await loadValidationCommands(TEST_DIR)).toEqual([{ name: 'test', command: 'bun run test', required: false }]);
+  });
+
+  test('logs an invalid file and runs nothing without a test script', async () => {
+    await writeFile(join(TEST_DIR, '.brain', 'validation.json'), '{ "test": 42 }');
+    const logs: string[] = [];
+    expect(await loadValidationCommands(TEST_DIR, m => logs.push(m))).toEqual([]);
+    expect(logs).toEqual(['[validation] ignoring .brain/validation.json: check "test" must be a command or an object']);
+  });
+});
+
+describe('runValidationCommands', () => {
+  beforeEach(async () => {
+    await mkdir(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(TEST_DIR, { recursive: true, force: true });
+  });
+
+  test('captures exit codes and output in the project directory', async () => {
+    const [pass, fail] = await runValidationCommands([
+      { name: 'test', command: 'pwd' },
+      { name: 'lint', command: 'echo "2 problems" >&2; exit 3', required: false },
+    ], TEST_DIR);
+    expect(pass).toMatchObject({ name: 'test', passed: true, required: true, exitCode: 0, output: TEST_DIR });
+    expect(fail).toMatchObject({ name: 'lint', passed: false, required: false, exitCode: 3, output: '2 problems' });
+  });
+
+  test('fails a check that runs past its timeout', async () => {
+    const [check] = await runValidationCommands([{ name: 'build', command: 'sleep 5', timeoutMs: 100 }], TEST_DIR);
+    expect(check).toMatchObject({ passed: false, timedOut: true, exitCode: null });
+    expect(check!.durationMs).toBeLessThan(2_000);
+  });
+
+  test('does not block the event loop while a check runs', async () => {
+    let ticks = 0;
+    const interval = setInterval(() => ticks++, 10);
+    await runValidationCommands([{ name: 'test', command: 'sleep 0.3' }], TEST_DIR);
+    clearInterval(interval);
+    expect(ticks).toBeGreaterThan(5);
+  });
+
+  test('kills the running check and skips the rest once aborted', async () => {
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 100);
+    const checks = await runValidationCommands([
+      { name: 'test', command: 'sleep 5' },
+      { name: 'lint', command: 'true' },
+    ], TEST_DIR, controller.signal);
+    expect(checks).toHaveLength(1);
+    expect(checks[0]).toMatchObject({ name: 'test', passed: false });
+    expect(checks[0]!.durationMs).toBeLessThan(2_000);
+  });
+
+  test('keeps only the end of long output', async () => {
+    const [check] = await runValidationCommands([{ name: 'test', command: 'seq 1 5000' }], TEST_DIR);
+    expect(check!.output.length).toBeLessThanOrEqual(4_001);
+    expect(check!.output.startsWith('…')).toBe(true);
+    expect(check!.output.endsWith('5000')).toBe(true);
+  });
+});
+
+describe('formatCheckResults', () => {
+  test('lists every check with the output of failed ones', () => {
+    const text = formatCheckResults([
+      { name: 'test', command: 'pytest', required: true, passed: true, exitCode: 0, durationMs: 10, output: 'ok' },
+      { name: 'lint', command: 'ruff check .', required: false, passed: false, exitCode: 1, durationMs: 10, output: 'E501' },
+    ]);
+    expect(text).toBe('- PASS test: `pytest`\n- FAIL (exit 1) lint (optional): `ruff check .`\n\n```\nE501\n```');
+  });
+});
@@ -0,0 +1,150 @@
+import { spawn } from 'node:child_process';
+import { readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { CheckResult } from './state.js';
+
+/** A check the pipeline runs in the project after the Builder, e.g. `cargo test` or `ruff check .`. */
+export interface ValidationCommand {
+  /** Label shown to the Reviewer, e.g. test, lint, typecheck or build. */
+  name: string;
+  command: string;
+  /** Default: 2 minutes. */
+  timeoutMs?: number;
+  /** A failing required check keeps the task from being approved. Default: true. */
+  required?: boolean;
+}
+
+const DEFAULT_TIMEOUT_MS = 120_000;
+/** How much of a check's output is kept — the end, where test runners put their summary. */
+const OUTPUT_LIMIT = 4_000;
+
+/**
+ * Validates `.brain/validation.json`: an object mapping check names to a
+ * command, or to `{ command, timeoutMs?, required? }`. Throws with a message
+ * naming the offending check.
+ */
+export function parseValidationCommands(raw: unknown): ValidationCommand[] {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw new Error('expected an object mapping check names to commands');
+
+  return Object.entries(raw as Record<string, unknown>).map(([name, value]): ValidationCommand => {
+    if (typeof value === 'string' && value.trim()) return { name, command: value };
+    if (!value || typeof value !== 'object') throw new Error(`check "${name}" must be a command or an object`);
+
+    const check = value as Record<string, unknown>;
+    if (typeof check['command'] !== 'string' || !check['command'].trim()) throw new Error(`check "${name}" needs a command`);
+    const parsed: ValidationCommand = { name, command: check['command'] };
+    if (check['timeoutMs'] !== undefined) {
+      if (!Number.isInteger(check['timeoutMs']) || (check['timeoutMs'] as number) < 1) {
+        throw new Error(`check "${name}": timeoutMs must be a positive integer`);
+      }
+      parsed.timeoutMs = check['timeoutMs'] as number;
+    }
+    if (check['required'] !== undefined) {
+      if (typeof check['required'] !== 'boolean') throw new Error(`check "${name}": required must be true or false`);
+      parsed.required = check['required'];
+    }
+    return parsed;
+  });
+}
+
+/**
+ * The checks for a project: `.brain/validation.json` when it exists,
+ * otherwise the package.json test script as an optional check. An invalid
+ * file is logged and falls back the same way.
+ */
+export async function loadValidationCommands(
+  project: string,
+  log: (message: string) => void = () => {},
+): Promise<ValidationCommand[]> {
+  try {
+    const raw = await readFile(join(project, '.brain', 'validation.json'), 'utf-8');
+    return parseValidationCommands(JSON.parse(raw));
+  } catch (err) {
+    if (!(err && typeof err === 'object' && 'code' in err && err.code === 'ENOENT')) {
+      log(`[validation] ignoring .brain/validation.json: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  try {
+    const pkg = JSON.parse(await readFile(join(project, 'package.json'), 'utf-8')) as { scripts?: Record<string, string> };
+    if (pkg.scripts?.['test']) return [{ name: 'test', command: 'bun run test', required: false }];
+  } catch {
+    // No package.json — nothing to run
+  }
+  return [];
+}
+
+/**
+ * Runs one check without blocking the event loop. The command gets its own
+ * process group, so a timeout or abort also stops whatever it started.
+ */
+function runCheck(check: ValidationCommand, cwd: string, signal?: AbortSignal): Promise<CheckResult> {
+  return new Promise(resolve => {
+    const started = Date.now();
+    // Only the end of the output is kept, so trim as it arrives
+    const streams = { stdout: '', stderr: '' };
+    const append = (stream: keyof typeof streams, chunk: Buffer) => {
+      const text = streams[stream] + chunk.toString('utf-8');
+      streams[stream] = text.length > OUTPUT_LIMIT * 4 ? text.slice(-OUTPUT_LIMIT * 4) : text;
+    };
+    let timedOut = false;
+    let spawnError: Error | undefined;
+
+    const child = spawn('sh', ['-c', check.command], { cwd, detached: true, stdio: ['ignore', 'pipe', 'pipe'] });
+    const stop = () => {
+      try {
+        if (child.pid) process.kill(-child.pid, 'SIGKILL');
+      } catch {
+        // Already exited
+      }
+    };
+    const timer = setTimeout(() => { timedOut = true; stop(); }, check.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    signal?.addEventListener('abort', stop, { once: true });
+
+    child.stdout.on('data', (chunk: Buffer) => append('stdout', chunk));
+    child.stderr.on('data', (chunk: Buffer) => append('stderr', chunk));
+    child.on('error', (err) => { spawnError = err; });
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', stop);
+      const output = [streams.stdout, streams.stderr, spawnError?.message ?? ''].filter(Boolean).join('\n').trim();
+      resolve({
+        name: check.name,
+        command: check.command,
+        required: check.required ?? true,
+        passed: code === 0,
+        exitCode: code,
+        ...(timedOut && { timedOut }),
+        durationMs: Date.now() - started,
+        output: output.length > OUTPUT_LIMIT ? `…${output.slice(-OUTPUT_LIMIT)}` : output,
+      });
+    });
+  });
+}
+
+/**
+ * Runs each check in `cwd` in order. Never rejects: a command that can't
+ * start counts as failed. Once `signal` aborts, the running check is killed
+ * and the rest are skipped.
+ */
+export async function runValidationCommands(
+  commands: ValidationCommand[],
+  cwd: string,
+  signal?: AbortSignal,
+): Promise<CheckResult[]> {
+  const results: CheckResult[] = [];
+  for (const check of commands) {
+    if (signal?.aborted) break;
+    results.push(await runCheck(check, cwd, signal));
+  }
+  return results;
+}
+
+/** One line per check, with the output of each failed one — for the Reviewer prompt and REVIEW.md. */
+export function formatCheckResults(checks: CheckResult[]): string {
+  return checks.map(check => {
+    const status = check.passed ? 'PASS' : check.timedOut ? 'TIMEOUT' : `FAIL (exit ${check.exitCode ?? 'none'})`;
+    const line = `- ${status} ${check.name}${check.required ? '' : ' (optional)'}: \`${check.command}\``;
+    return check.passed || !check.output ? line : `${line}\n\n\`\`\`\n${check.output}\n\`\`\``;
+  }).join('\n');
+}
@@ -0,0 +1,185 @@
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { writeFile, readFile, mkdir, rm } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { execFileSync } from 'node:child_process';
+import { join } from 'node:path';
+import {
+  isGitRepo,
+  checkoutBranch,
+  commitChanges,
+  diffSince,
+  restoreCommit,
+  createPipelineBranch,
+  currentBranch,
+  hasUncommittedChanges,
+  leavePipelineBranch,
+  createTaskWorktree,
+  commitWorktree,
+  mergeWorktree,
+  pushBranch,
+  removeTaskWorktree,
+} from './worktree.js';
+
+const TEST_PROJECT = join(import.meta.dirname, '../../.test-state/worktree-test');
+
+function git(...args: string[]): string {
+  return execFileSync('git', args, { cwd: TEST_PROJECT, encoding: 'utf-8' }).trim();
+}
+
+describe('worktree helpers', () => {
+  beforeEach(async () => {
+    await mkdir(join(TEST_PROJECT, '.brain'), { recursive: true });
+    git('init');
+    git('config', 'user.email', 'test@test.com');
+    git('config', 'user.name', 'Test');
+    await writeFile(join(TEST_PROJECT, 'shared.txt'), 'base\n');
+    await writeFile(join(TEST_PROJECT, '.brain', 'PLAN.md'), '- [ ] Task\n');
+    git('add', '.');
+    git('commit', '-m', 'init');
+  });
+
+  afterEach(async () => {
+    await rm(TEST_PROJECT, { recursive: true, force: true });
+  });
+
+  test('isGitRepo is false for a directory without commits', async () => {
+    const empty = join(TEST_PROJECT, 'empty');
+    await mkdir(empty);
+    expect(isGitRepo(empty)).toBe(false);
+    expect(isGitRepo(TEST_PROJECT)).toBe(true);
+  });
+
+  test('creates a worktree with .brain context and merges committed work', async () => {
+    const wt = await createTaskWorktree(TEST_PROJECT, 'Add feature');
+    expect(wt.branch).toMatch(/^codename\/task-add-feature-/);
+    expect(await readFile(join(wt.path, '.brain', 'PLAN.md'), 'utf-8')).toContain('Task');
+
+    await writeFile(join(wt.path, 'feature.txt'), 'feature');
+    await writeFile(join(wt.path, '.brain', 'PLAN.md'), '- [x] Task\n');
+    expect(commitWorktree(wt, 'Add feature')).toMatch(/^[0-9a-f]{40}$/);
+
+    expect(mergeWorktree(TEST_PROJECT, wt)).toEqual({ merged: true });
+    expect(await readFile(join(TEST_PROJECT, 'feature.txt'), 'utf-8')).toBe('feature');
+    // .brain/ changes made inside the worktree are never committed
+    expect(await readFile(join(TEST_PROJECT, '.brain', 'PLAN.md'), 'utf-8')).toBe('- [ ] Task\n');
+
+    await removeTaskWorktree(TEST_PROJECT, wt);
+    expect(existsSync(wt.path)).toBe(false);
+    expect(git('branch', '--list', wt.branch)).toBe('');
+  });
+
+  test('commitWorktree returns null when nothing changed', async () => {
+    const wt = await createTaskWorktree(TEST_PROJECT, 'Noop');
+    expect(commitWorktree(wt, 'Noop')).toBeNull();
+    await removeTaskWorktree(TEST_PROJECT, wt);
+  });
+
+  test('mergeWorktree aborts and reports conflicts', async () => {
+    const a = await createTaskWorktree(TEST_PROJECT, 'Change A');
+    const b = await createTaskWorktree(TEST_PROJECT, 'Change B');
+    await writeFile(join(a.path, 'shared.txt'), 'from a\n');
+    await writeFile(join(b.path, 'shared.txt'), 'from b\n');
+    commitWorktree(a, 'Change A');
+    commitWorktree(b, 'Change B');
+
+    expect(mergeWorktree(TEST_PROJECT, a).merged).toBe(true);
+    const result = mergeWorktree(TEST_PROJECT, b);
+    expect(result.merged).toBe(false);
+    expect(result.error).toBeDefined();
+    expect(await readFile(join(TEST_PROJECT, 'shared.txt'), 'utf-8')).toBe('from a\n');
+    expect(git('status', '--porcelain', '--untracked-files=no')).toBe('');
+
+    await removeTaskWorktree(TEST_PROJECT, a);
+    await removeTaskWorktree(TEST_PROJECT, b);
+  });
+
+  test('creates a pipeline branch that keeps uncommitted changes', async () => {
+    const base = currentBranch(TEST_PROJECT)!;
+    await writeFile(join(TEST_PROJECT, 'wip.txt'), 'wip');
+
+    const branch = createPipelineBranch(TEST_PROJECT, 'Add OAuth login!');
+    expect(branch).toMatch(/^codename\/pipeline-add-oauth-login-/);
+    expect(currentBranch(TEST_PROJECT)).toBe(branch);
+    expect(existsSync(join(TEST_PROJECT, 'wip.txt'))).toBe(true);
+
+    commitChanges(TEST_PROJECT, 'wip');
+    checkoutBranch(TEST_PROJECT, base);
+    expect(currentBranch(TEST_PROJECT)).toBe(base);
+  });
+
+  test('hasUncommittedChanges looks at everything but .brain/', async () => {
+    await writeFile(join(TEST_PROJECT, '.brain', 'PLAN.md'), '- [x] Task\n');
+    expect(hasUncommittedChanges(TEST_PROJECT)).toBe(false);
+
+    await writeFile(join(TEST_PROJECT, 'shared.txt'), 'changed\n');
+    expect(hasUncommittedChanges(TEST_PROJECT)).toBe(true);
+    git('checkout', 'shared.txt');
+    await writeFile(join(TEST_PROJECT, 'new.txt'), 'new');
+    expect(hasUncommittedChanges(TEST_PROJECT)).toBe(true);
+  });
+
+  test('leavePipelineBranch commits what was left on the branch and checks out the base', async () => {
+    const base = currentBranch(TEST_PROJECT)!;
+    const branch = createPipelineBranch(TEST_PROJECT, 'Add docs');
+    await writeFile(join(TEST_PROJECT, 'docs.md'), '# Docs');
+
+    const sha = leavePipelineBranch(TEST_PROJECT, branch, base, 'Finish "Add docs"');
+    expect(currentBranch(TEST_PROJECT)).toBe(base);
+    expect(existsSync(join(TEST_PROJECT, 'docs.md'))).toBe(false);
+    expect(git('log', '-1', '--format=%s', branch)).toBe('Finish "Add docs"');
+    expect(git('rev-parse', branch)).toBe(sha);
+
+    // Not on the pipeline branch any more — nothing to do
+    await writeFile(join(TEST_PROJECT, 'mine.txt'), 'mine');
+    expect(leavePipelineBranch(TEST_PROJECT, branch, base, 'Finish "Add docs"')).toBeNull();
+    expect(git('rev-parse', branch)).toBe(sha);
+  });
+
+  test('commitChanges commits everything but .brain/ and returns the SHA', async () => {
+    await writeFile(join(TEST_PROJECT, 'feature.txt'), 'feature');
+    await writeFile(join(TEST_PROJECT, '.brain', 'PLAN.md'), '- [x] Task\n');
+
+    const sha = commitChanges(TEST_PROJECT, 'Add feature\n\nLooks good.');
+    expect(sha).toBe(git('rev-parse', 'HEAD'));
+    expect(git('log', '-1', '--format=%B')).toBe('Add feature\n\nLooks good.');
+    expect(git('status', '--porcelain')).toBe('M .brain/PLAN.md');
+    expect(commitChanges(TEST_PROJECT, 'Nothing')).toBeNull();
+  });
+
+  test('diffSince saves a patch and restoreCommit rolls the tree back, leaving .brain/ alone', async () => {
+    const base = git('rev-parse', 'HEAD');
+    await writeFile(join(TEST_PROJECT, 'shared.txt'), 'broken\n');
+    await mkdir(join(TEST_PROJECT, 'src'));
+    await writeFile(join(TEST_PROJECT, 'src', 'new.ts'), 'export {};\n');
+    await writeFile(join(TEST_PROJECT, '.brain', 'PLAN.md'), '- [ ] Task\n- [ ] Another\n');
+
+    const patch = diffSince(TEST_PROJECT, base);
+    expect(patch).toContain('+broken');
+    expect(patch).toContain('src/new.ts');
+    expect(patch).not.toContain('PLAN.md');
+
+    restoreCommit(TEST_PROJECT, base);
+    expect(await readFile(join(TEST_PROJECT, 'shared.txt'), 'utf-8')).toBe('base\n');
+    expect(existsSync(join(TEST_PROJECT, 'src'))).toBe(false);
+    expect(await readFile(join(TEST_PROJECT, '.brain', 'PLAN.md'), 'utf-8')).toContain('Another');
+    expect(git('rev-parse', 'HEAD')).toBe(base);
+
+    // The patch brings the attempt back
+    await writeFile(join(TEST_PROJECT, '.brain', 'attempt.patch'), patch);
+    git('apply', '.brain/attempt.patch');
+    expect(await readFile(join(TEST_PROJECT, 'src', 'new.ts'), 'utf-8')).toBe('export {};\n');
+  });
+
+  test('pushBranch gives up on a remote that never answers, without waiting on its children', async () => {
+    git('config', 'protocol.ext.allow', 'always');
+    git('remote', 'add', 'stuck', 'ext::sleep 30');
+
+    const started = Date.now();
+    await expect(pushBranch(TEST_PROJECT, 'stuck', 'HEAD', 300)).rejects.toThrow('git push to stuck timed out');
+    expect(Date.now() - started).toBeLessThan(5_000);
+  });
+
+  test('pushBranch reports why a push failed', async () => {
+    await expect(pushBranch(TEST_PROJECT, 'nowhere', 'HEAD')).rejects.toThrow(/git push to nowhere failed: .*nowhere/);
+  });
+});
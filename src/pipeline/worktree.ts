@@ -0,0 +1,227 @@
+import { execFileSync, spawn } from 'node:child_process';
+import { existsSync } from 'node:fs';
+import { cp, mkdir, readdir, rm } from 'node:fs/promises';
+import { join } from 'node:path';
+
+/** Worktrees live under .brain/ so they never show up in builder diff checks. */
+const WORKTREES_DIR = join('.brain', 'worktrees');
+
+export interface TaskWorktree {
+  path: string;
+  branch: string;
+}
+
+function git(cwd: string, args: string[]): string {
+  return execFileSync('git', args, {
+    cwd, encoding: 'utf-8', timeout: 30_000, stdio: 'pipe',
+  }).trim();
+}
+
+export function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 40) || 'task';
+}
+
+export function isGitRepo(project: string): boolean {
+  if (!existsSync(join(project, '.git'))) return false;
+  try {
+    git(project, ['rev-parse', '--verify', 'HEAD']);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The commit HEAD points at, or null outside a git repo with commits. */
+export function headCommit(project: string): string | null {
+  if (!existsSync(join(project, '.git'))) return null;
+  try {
+    return git(project, ['rev-parse', 'HEAD']);
+  } catch {
+    return null;
+  }
+}
+
+/** The checked-out branch, or null on a detached HEAD. */
+export function currentBranch(project: string): string | null {
+  const branch = git(project, ['rev-parse', '--abbrev-ref', 'HEAD']);
+  return branch === 'HEAD' ? null : branch;
+}
+
+/** Create a branch for a whole pipeline run from HEAD and check it out. Uncommitted changes come along. */
+export function createPipelineBranch(project: string, task: string): string {
+  const branch = `codename/pipeline-${slugify(task)}-${Date.now().toString(36)}`;
+  git(project, ['checkout', '-b', branch]);
+  return branch;
+}
+
+export function checkoutBranch(project: string, branch: string): void {
+  git(project, ['checkout', branch]);
+}
+
+/** Whether anything outside .brain/ is modified, staged or untracked in `project`. */
+export function hasUncommittedChanges(project: string): boolean {
+  return git(project, ['status', '--porcelain'])
+    .split('\n')
+    .map(line => line.replace(/^\s*\S+\s+/, ''))
+    .some(path => path && !path.startsWith('.brain/'));
+}
+
+/**
+ * Checks out `base` again once a pipeline's branch is done with. Whatever the
+ * pipeline left uncommitted is committed on its branch first, so none of it
+ * follows the checkout. Returns that commit's SHA, or null when there was
+ * nothing left. Does nothing when another branch is checked out.
+ */
+export function leavePipelineBranch(project: string, branch: string, base: string, message: string): string | null {
+  if (currentBranch(project) !== branch) return null;
+  const commit = commitChanges(project, message);
+  git(project, ['checkout', base]);
+  return commit;
+}
+
+/**
+ * Push a branch and set it to track the remote one. Runs in the background of
+ * the daemon, so it never waits for a credential prompt and gives up after
+ * `timeoutMs` (default 2 minutes).
+ */
+export function pushBranch(project: string, remote: string, branch: string, timeoutMs = 120_000): Promise<void> {
+  return new Promise((resolve, reject) => {
+    // Its own process group, so a timeout also stops the ssh or credential helper git started
+    const child = spawn('git', ['push', '--set-upstream', remote, branch], {
+      cwd: project,
+      detached: true,
+      stdio: ['ignore', 'ignore', 'pipe'],
+      env: {
+        ...process.env,
+        GIT_TERMINAL_PROMPT: '0',
+        GIT_SSH_COMMAND: process.env['GIT_SSH_COMMAND'] ?? 'ssh -o BatchMode=yes',
+      },
+    });
+    let stderr = '';
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      try {
+        if (child.pid) process.kill(-child.pid, 'SIGKILL');
+      } catch {
+        // Already exited
+      }
+    }, timeoutMs);
+
+    child.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString('utf-8'); });
+    child.on('error', (err) => {
+      clearTimeout(timer);
+      reject(new Error(`git push to ${remote} failed: ${err.message}`));
+    });
+    child.on('close', (code) => {
+      clearTimeout(timer);
+      if (timedOut) reject(new Error(`git push to ${remote} timed out after ${Math.round(timeoutMs / 1000)}s`));
+      else if (code !== 0) reject(new Error(`git push to ${remote} failed: ${stderr.trim() || `exit ${code}`}`));
+      else resolve();
+    });
+  });
+}
+
+/**
+ * Commit everything changed in `cwd`, excluding .brain/. Returns the new
+ * commit's SHA, or null when there was nothing to commit.
+ */
+export function commitChanges(cwd: string, message: string): string | null {
+  stageChanges(cwd);
+  const staged = git(cwd, ['diff', '--cached', '--name-only']);
+  if (!staged) return null;
+  git(cwd, ['commit', '-m', message]);
+  return git(cwd, ['rev-parse', 'HEAD']);
+}
+
+/** Stage every change in `cwd`, new files included, except those under .brain/. */
+function stageChanges(cwd: string): void {
+  git(cwd, ['add', '-A']);
+  // Unstage .brain/ rather than excluding it in the pathspec — an exclude
+  // pathspec errors out when .brain/ is gitignored
+  git(cwd, ['reset', '-q', '--', '.brain']);
+}
+
+/**
+ * Everything changed in `cwd` since `commit`, new files included and .brain/
+ * excluded, as a patch for `git apply`. Empty when nothing changed.
+ */
+export function diffSince(cwd: string, commit: string): string {
+  stageChanges(cwd);
+  const diff = git(cwd, ['diff', '--cached', '--binary', commit]);
+  return diff ? `${diff}\n` : '';
+}
+
+/** Put every file outside .brain/ back the way it was at `commit`, deleting new ones. HEAD stays put. */
+export function restoreCommit(cwd: string, commit: string): void {
+  git(cwd, ['restore', `--source=${commit}`, '--staged', '--worktree', '--', '.', ':!.brain']);
+  git(cwd, ['clean', '-fdq', '--', '.', ':!.brain']);
+}
+
+/**
+ * Create an isolated worktree on a fresh branch from the project's HEAD.
+ * The project's .brain/ context (PLAN.md, DECISIONS.md, ...) is copied in
+ * so agents running in the worktree see the same spec as the main tree.
+ */
+export async function createTaskWorktree(project: string, taskTitle: string): Promise<TaskWorktree> {
+  const slug = `${slugify(taskTitle)}-${Date.now().toString(36)}`;
+  const branch = `codename/task-${slug}`;
+  const path = join(project, WORKTREES_DIR, slug);
+
+  await mkdir(join(project, WORKTREES_DIR), { recursive: true });
+  git(project, ['worktree', 'add', '-b', branch, path, 'HEAD']);
+
+  // Copy entry by entry — cp refuses to copy .brain/ into its own subdirectory
+  const brainDir = join(project, '.brain');
+  for (const entry of await readdir(brainDir)) {
+    if (entry === 'worktrees') continue;
+    await cp(join(brainDir, entry), join(path, '.brain', entry), { recursive: true, force: true });
+  }
+
+  return { path, branch };
+}
+
+/** Rebuild the worktree handle for a branch created by createTaskWorktree. */
+export function taskWorktreeForBranch(project: string, branch: string): TaskWorktree {
+  const slug = branch.replace(/^codename\/task-/, '');
+  return { path: join(project, WORKTREES_DIR, slug), branch };
+}
+
+/** Commit everything the agents changed in the worktree. Returns the SHA, or null when nothing changed. */
+export function commitWorktree(worktree: TaskWorktree, message: string): string | null {
+  return commitChanges(worktree.path, message);
+}
+
+/**
+ * Merge a worktree branch back into the project's current branch.
+ * Aborts the merge and reports the error on conflict.
+ */
+export function mergeWorktree(project: string, worktree: TaskWorktree): { merged: boolean; error?: string } {
+  try {
+    git(project, ['merge', '--no-ff', '--no-edit', worktree.branch]);
+    return { merged: true };
+  } catch (err) {
+    try {
+      git(project, ['merge', '--abort']);
+    } catch {
+      // No merge in progress — nothing to abort
+    }
+    const message = err instanceof Error ? err.message.split('\n')[0] : String(err);
+    return { merged: false, error: message };
+  }
+}
+
+export async function removeTaskWorktree(project: string, worktree: TaskWorktree): Promise<void> {
+  try {
+    git(project, ['worktree', 'remove', '--force', worktree.path]);
+  } catch {
+    // Worktree may already be gone — clean up the directory ourselves
+    await rm(worktree.path, { recursive: true, force: true });
+    try { git(project, ['worktree', 'prune']); } catch { /* best effort */ }
+  }
+  try {
+    git(project, ['branch', '-D', worktree.branch]);
+  } catch {
+    // Branch already deleted
+  }
+}
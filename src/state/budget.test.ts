@@ -6,7 +6,13 @@ import {
   canRunAgent,
   getRemainingBudget,
   loadBudgetState,
+  formatBudget,
+  getUsageBreakdown,
+  getBudgetHistory,
+  forecastQueue,
+  estimatePipeline,
   type BudgetConfig,
+  type TokenUsage,
 } from './budget.js';
 
 const TEST_STATE_DIR = join(import.meta.dirname, '../../.test-state/budget');
@@ -19,6 +25,10 @@ const DEFAULT_CONFIG: BudgetConfig = {
   stateFile: TEST_STATE_FILE,
 };
 
+function usage(overrides: Partial<TokenUsage> = {}): TokenUsage {
+  return { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheCreationTokens: 0, costUsd: 0, ...overrides };
+}
+
 beforeEach(async () => {
   await mkdir(TEST_STATE_DIR, { recursive: true });
   // Remove any leftover state file
@@ -31,20 +41,20 @@ afterEach(async () => {
 
 describe('budget tracker', () => {
   test('starts with full budget when no state file exists', async () => {
-    const remaining = await getRemainingBudget(DEFAULT_CONFIG);
+    const remaining = (await getRemainingBudget(DEFAULT_CONFIG)).prompts.remaining;
     expect(remaining).toBe(600);
   });
 
   test('recordUsage reduces remaining budget', async () => {
     await recordUsage(100, DEFAULT_CONFIG);
-    const remaining = await getRemainingBudget(DEFAULT_CONFIG);
+    const remaining = (await getRemainingBudget(DEFAULT_CONFIG)).prompts.remaining;
     expect(remaining).toBe(500);
   });
 
   test('multiple recordUsage calls accumulate', async () => {
     await recordUsage(100, DEFAULT_CONFIG);
     await recordUsage(200, DEFAULT_CONFIG);
-    const remaining = await getRemainingBudget(DEFAULT_CONFIG);
+    const remaining = (await getRemainingBudget(DEFAULT_CONFIG)).prompts.remaining;
     expect(remaining).toBe(300);
   });
 
@@ -75,7 +85,7 @@ describe('budget tracker', () => {
 
     // Now jump to present — the old usage should have expired
     vi.useRealTimers();
-    const remaining = await getRemainingBudget(DEFAULT_CONFIG);
+    const remaining = (await getRemainingBudget(DEFAULT_CONFIG)).prompts.remaining;
     expect(remaining).toBe(600);
   });
 
@@ -94,7 +104,7 @@ describe('budget tracker', () => {
 
     // Now check from present — only the 100 should count
     vi.useRealTimers();
-    const remaining = await getRemainingBudget(config);
+    const remaining = (await getRemainingBudget(config)).prompts.remaining;
     expect(remaining).toBe(500);
   });
 
@@ -113,3 +123,205 @@ describe('budget tracker', () => {
     expect(state.entries).toEqual([]);
   });
 });
+
+describe('token and cost budget', () => {
+  const config: BudgetConfig = { ...DEFAULT_CONFIG, maxTokensPerWindow: 100_000, maxCostPerWindow: 10 };
+
+  test('token and cost dimensions are only reported when configured', async () => {
+    const budget = await getRemainingBudget(DEFAULT_CONFIG);
+    expect(budget.tokens).toBeUndefined();
+    expect(budget.costUsd).toBeUndefined();
+  });
+
+  test('records one entry per model with the prompt count on the first', async () => {
+    await recordUsage(12, config, {
+      'claude-sonnet-4-5': usage({ inputTokens: 1000, outputTokens: 500, costUsd: 0.5 }),
+      'claude-haiku-4-5': usage({ inputTokens: 200, outputTokens: 100, costUsd: 0.01 }),
+    });
+
+    const state = await loadBudgetState(TEST_STATE_FILE);
+    expect(state.entries.map(e => [e.model, e.count])).toEqual([
+      ['claude-sonnet-4-5', 12],
+      ['claude-haiku-4-5', 0],
+    ]);
+
+    const budget = await getRemainingBudget(config);
+    expect(budget.prompts.remaining).toBe(588);
+    expect(budget.byModel['claude-sonnet-4-5']!.outputTokens).toBe(500);
+  });
+
+  test('cache reads do not count against the token limit', async () => {
+    await recordUsage(1, config, {
+      sonnet: usage({ inputTokens: 1000, outputTokens: 2000, cacheCreationTokens: 3000, cacheReadTokens: 50_000 }),
+    });
+    const budget = await getRemainingBudget(config);
+    expect(budget.tokens).toEqual({ used: 6000, limit: 100_000, remaining: 94_000 });
+  });
+
+  test('usage from the same model accumulates across runs', async () => {
+    await recordUsage(1, config, { sonnet: usage({ costUsd: 1.25 }) });
+    await recordUsage(1, config, { sonnet: usage({ costUsd: 0.75 }) });
+    const budget = await getRemainingBudget(config);
+    expect(budget.costUsd!.used).toBeCloseTo(2);
+    expect(budget.byModel['sonnet']!.costUsd).toBeCloseTo(2);
+  });
+
+  test('canRunAgent returns false once spend reaches the reserve', async () => {
+    // $10 * 0.3 = $3 reserved; prompts are barely used
+    await recordUsage(1, config, { opus: usage({ costUsd: 7 }) });
+    expect(await canRunAgent(config)).toBe(false);
+  });
+
+  test('canRunAgent returns false once tokens reach the reserve', async () => {
+    await recordUsage(1, config, { opus: usage({ outputTokens: 80_000 }) });
+    expect(await canRunAgent(config)).toBe(false);
+  });
+
+  test('canRunAgent returns true while every limit has room', async () => {
+    await recordUsage(1, config, { opus: usage({ outputTokens: 10_000, costUsd: 1 }) });
+    expect(await canRunAgent(config)).toBe(true);
+  });
+
+  test('formatBudget lists each configured limit', async () => {
+    await recordUsage(100, config, { opus: usage({ outputTokens: 1500, costUsd: 2.5 }) });
+    expect(formatBudget(await getRemainingBudget(config))).toBe('500/600 prompts, 98.5k/100k tokens, $7.50/$10.00 remaining');
+  });
+});
+
+describe('per-project budget', () => {
+  test('recordUsage tags entries with project and agent', async () => {
+    await recordUsage(5, DEFAULT_CONFIG, { sonnet: usage({ costUsd: 1 }) }, { project: '/p/a', agent: 'builder' });
+    const state = await loadBudgetState(TEST_STATE_FILE);
+    expect(state.entries[0]).toMatchObject({ project: '/p/a', agent: 'builder', count: 5 });
+  });
+
+  test('getUsageBreakdown groups usage by project and agent', async () => {
+    await recordUsage(5, DEFAULT_CONFIG, { sonnet: usage({ outputTokens: 100, costUsd: 1 }) }, { project: '/p/a', agent: 'builder' });
+    await recordUsage(3, DEFAULT_CONFIG, {}, { project: '/p/a', agent: 'reviewer' });
+    await recordUsage(2, DEFAULT_CONFIG, {}, { project: '/p/b', agent: 'builder' });
+    await recordUsage(1, DEFAULT_CONFIG);
+
+    const breakdown = await getUsageBreakdown(DEFAULT_CONFIG);
+    expect(breakdown.byProject).toEqual({
+      '/p/a': { prompts: 8, tokens: 100, costUsd: 1 },
+      '/p/b': { prompts: 2, tokens: 0, costUsd: 0 },
+      '(untagged)': { prompts: 1, tokens: 0, costUsd: 0 },
+    });
+    expect(breakdown.byAgent['builder']).toEqual({ prompts: 7, tokens: 100, costUsd: 1 });
+    expect(breakdown.byAgent['reviewer']!.prompts).toBe(3);
+  });
+
+  test('canRunAgent stops a project at its maxShare', async () => {
+    const config: BudgetConfig = { ...DEFAULT_CONFIG, projects: { '/p/a': { maxShare: 0.25 } } };
+    await recordUsage(150, config, {}, { project: '/p/a' });
+    expect(await canRunAgent(config, '/p/a')).toBe(false);
+    expect(await canRunAgent(config, '/p/b')).toBe(true);
+  });
+
+  test('canRunAgent holds back other projects\' unused reservations', async () => {
+    // 600 total, 180 interactive reserve, 200 reserved for /p/a
+    const config: BudgetConfig = { ...DEFAULT_CONFIG, projects: { '/p/a': { reservedShare: 1 / 3 } } };
+    await recordUsage(250, config, {}, { project: '/p/b' });
+    expect(await canRunAgent(config, '/p/b')).toBe(false);
+    expect(await canRunAgent(config)).toBe(false);
+    expect(await canRunAgent(config, '/p/a')).toBe(true);
+  });
+
+  test('a reservation shrinks as its project uses it', async () => {
+    const config: BudgetConfig = { ...DEFAULT_CONFIG, projects: { '/p/a': { reservedShare: 1 / 3 } } };
+    await recordUsage(150, config, {}, { project: '/p/a' });
+    await recordUsage(200, config, {}, { project: '/p/b' });
+    // 250 left, 50 still reserved for /p/a → 200 for /p/b, above the 180 reserve
+    expect(await canRunAgent(config, '/p/b')).toBe(true);
+  });
+
+  test('quotas apply to token and cost limits too', async () => {
+    const config: BudgetConfig = { ...DEFAULT_CONFIG, maxCostPerWindow: 10, projects: { '/p/a': { maxShare: 0.5 } } };
+    await recordUsage(1, config, { opus: usage({ costUsd: 5 }) }, { project: '/p/a' });
+    expect(await canRunAgent(config, '/p/a')).toBe(false);
+  });
+});
+
+describe('budget history and forecast', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test('buckets usage per hour across the window', async () => {
+    vi.setSystemTime(new Date('2026-03-01T10:15:00.000Z'));
+    await recordUsage(30, DEFAULT_CONFIG);
+    vi.setSystemTime(new Date('2026-03-01T12:40:00.000Z'));
+    await recordUsage(20, DEFAULT_CONFIG);
+    await recordUsage(5, DEFAULT_CONFIG);
+
+    const history = await getBudgetHistory(DEFAULT_CONFIG);
+    // 07:40 → 12:40 spans the 07:00 through 12:00 buckets
+    expect(history.buckets).toHaveLength(6);
+    expect(history.buckets.map(b => b.prompts)).toEqual([0, 0, 0, 30, 0, 25]);
+    expect(history.buckets[3]!.start).toBe(Date.parse('2026-03-01T10:00:00.000Z'));
+  });
+
+  test('reports when each bucket starts to expire', async () => {
+    vi.setSystemTime(new Date('2026-03-01T10:15:00.000Z'));
+    await recordUsage(30, DEFAULT_CONFIG);
+    vi.setSystemTime(new Date('2026-03-01T12:40:00.000Z'));
+    await recordUsage(20, DEFAULT_CONFIG);
+
+    const history = await getBudgetHistory(DEFAULT_CONFIG);
+    expect(history.releases).toEqual([
+      { at: Date.parse('2026-03-01T15:15:00.000Z'), prompts: 30, tokens: 0, costUsd: 0 },
+      { at: Date.parse('2026-03-01T17:40:00.000Z'), prompts: 20, tokens: 0, costUsd: 0 },
+    ]);
+  });
+
+  test('forecast has no estimate without runs in the window', async () => {
+    expect(await forecastQueue(DEFAULT_CONFIG, 3)).toEqual({ queued: 3, perRun: null, needed: null, fitCount: null, fits: null });
+  });
+
+  test('forecast counts entries sharing a run tag as one run', async () => {
+    await recordUsage(30, DEFAULT_CONFIG, {}, { run: 'r1', agent: 'builder' });
+    await recordUsage(10, DEFAULT_CONFIG, {}, { run: 'r1', agent: 'reviewer' });
+    await recordUsage(60, DEFAULT_CONFIG);
+
+    const forecast = await forecastQueue(DEFAULT_CONFIG, 2);
+    expect(forecast.perRun).toEqual({ prompts: 50, tokens: 0, costUsd: 0 });
+    expect(forecast.needed!.prompts).toBe(100);
+    expect(forecast.fits).toBe(true);
+  });
+
+  test('forecast reports how many queued runs fit before the reserve', async () => {
+    // 300 used, 600 * 0.3 = 180 reserved → 120 available at 100 per run
+    await recordUsage(100, DEFAULT_CONFIG);
+    await recordUsage(200, DEFAULT_CONFIG);
+    await recordUsage(0, DEFAULT_CONFIG);
+
+    const forecast = await forecastQueue(DEFAULT_CONFIG, 4);
+    expect(forecast.fitCount).toBe(1);
+    expect(forecast.fits).toBe(false);
+  });
+
+  test('forecast checks the cost limit too', async () => {
+    const config: BudgetConfig = { ...DEFAULT_CONFIG, maxCostPerWindow: 10 };
+    await recordUsage(1, config, { opus: usage({ costUsd: 3 }) });
+
+    // $7 left minus $3 reserve → one more $3 run
+    const forecast = await forecastQueue(config, 2);
+    expect(forecast.fitCount).toBe(1);
+  });
+});
+
+describe('estimatePipeline', () => {
+  test('sums the average run of each agent and marks agents without history', async () => {
+    await recordUsage(20, DEFAULT_CONFIG, {}, { run: 'r1', agent: 'builder' });
+    await recordUsage(40, DEFAULT_CONFIG, {}, { run: 'r2', agent: 'builder' });
+    await recordUsage(10, DEFAULT_CONFIG, {}, { run: 'r2', agent: 'reviewer' });
+
+    const estimate = await estimatePipeline(DEFAULT_CONFIG, ['architect', 'builder', 'reviewer']);
+    expect(estimate.byAgent).toEqual({
+      architect: null,
+      builder: { prompts: 30, tokens: 0, costUsd: 0 },
+      reviewer: { prompts: 10, tokens: 0, costUsd: 0 },
+    });
+    expect(estimate.total).toEqual({ prompts: 40, tokens: 0, costUsd: 0 });
+  });
+});
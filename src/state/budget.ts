@@ -1,23 +1,161 @@
 import { readFile, writeFile, mkdir } from 'node:fs/promises';
 import { dirname } from 'node:path';
+import { randomUUID } from 'node:crypto';
 import { lock } from 'proper-lockfile';
 
 export interface BudgetConfig {
   maxPromptsPerWindow: number;
+  /** Optional token limit per window — see billableTokens for what counts. */
+  maxTokensPerWindow?: number;
+  /** Optional spend limit per window, in US dollars. */
+  maxCostPerWindow?: number;
   reserveForInteractive: number; // 0.0 – 1.0
   windowHours: number;
   stateFile: string;
+  /** Per-project quotas, keyed by project path. */
+  projects?: Record<string, ProjectBudget>;
+}
+
+/** A project's share of every configured window limit. */
+export interface ProjectBudget {
+  /** Most of each limit the project may use on its own, 0.0 – 1.0. */
+  maxShare?: number;
+  /** Share of each limit held back for the project until it has used it, 0.0 – 1.0. */
+  reservedShare?: number;
+}
+
+/** Token and dollar usage, as reported by the SDK result message. */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  costUsd: number;
+}
+
+/** Usage keyed by model name. */
+export type ModelUsageMap = Record<string, TokenUsage>;
+
+/** What one agent role consumed during a pipeline run. */
+export interface AgentUsage {
+  turnCount: number;
+  usage: ModelUsageMap;
+}
+
+/** Who a usage entry is attributed to. */
+export interface UsageTags {
+  project?: string;
+  agent?: string;
+  /** Shared by every entry recorded for one pipeline run, so runs can be counted. Default: one run per call. */
+  run?: string;
 }
 
 interface UsageEntry {
   timestamp: number;
   count: number;
+  model?: string;
+  usage?: TokenUsage;
+  project?: string;
+  agent?: string;
+  run?: string;
 }
 
 interface BudgetState {
   entries: UsageEntry[];
 }
 
+export interface BudgetDimension {
+  used: number;
+  limit: number;
+  remaining: number;
+}
+
+/** Usage in the current window, per limit. tokens and costUsd are only set when configured. */
+export interface RemainingBudget {
+  prompts: BudgetDimension;
+  tokens?: BudgetDimension;
+  costUsd?: BudgetDimension;
+  byModel: ModelUsageMap;
+}
+
+/** Usage of each limit, whether or not tokens and cost are capped. */
+export interface UsageSummary {
+  prompts: number;
+  tokens: number;
+  costUsd: number;
+}
+
+/** Window usage grouped by the project and the agent role it was recorded for. */
+export interface UsageBreakdown {
+  byProject: Record<string, UsageSummary>;
+  byAgent: Record<string, UsageSummary>;
+}
+
+/** Usage recorded in one slice of the window. */
+export interface UsageBucket extends UsageSummary {
+  start: number;
+}
+
+/** Usage that drops out of the window, starting at `at`. */
+export interface CapacityRelease extends UsageSummary {
+  at: number;
+}
+
+export interface BudgetHistory {
+  bucketMs: number;
+  buckets: UsageBucket[];
+  releases: CapacityRelease[];
+}
+
+/** Whether the queued work is expected to fit in what's left of the window. */
+export interface BudgetForecast {
+  queued: number;
+  /** Average usage of a run in the current window; null when there is nothing to average. */
+  perRun: UsageSummary | null;
+  /** Estimated usage of the queued work. */
+  needed: UsageSummary | null;
+  /** Queued runs that fit before the interactive reserve; null without an estimate. */
+  fitCount: number | null;
+  fits: boolean | null;
+}
+
+/** Expected usage of a pipeline's stages, from the average run of each agent in the window. */
+export interface PipelineEstimate {
+  /** null when the agent hasn't run in the current window. */
+  byAgent: Record<string, UsageSummary | null>;
+  /** Sum over the agents that have history. */
+  total: UsageSummary;
+}
+
+/** Key for entries recorded without a project or agent. */
+export const UNTAGGED = '(untagged)';
+
+export function emptyUsage(): TokenUsage {
+  return { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheCreationTokens: 0, costUsd: 0 };
+}
+
+/** Adds every model's usage from `from` into `into` and returns `into`. */
+export function addUsage(into: ModelUsageMap, from: ModelUsageMap): ModelUsageMap {
+  for (const [model, usage] of Object.entries(from)) {
+    const total = into[model] ??= emptyUsage();
+    total.inputTokens += usage.inputTokens;
+    total.outputTokens += usage.outputTokens;
+    total.cacheReadTokens += usage.cacheReadTokens;
+    total.cacheCreationTokens += usage.cacheCreationTokens;
+    total.costUsd += usage.costUsd;
+  }
+  return into;
+}
+
+/**
+ * Tokens counted against maxTokensPerWindow. Cache reads are left out — agent
+ * sessions re-read their context every turn, and those reads are billed at a
+ * fraction of fresh input, so counting them would swamp the limit.
+ */
+export function billableTokens(usage: TokenUsage): number {
+  return usage.inputTokens + usage.outputTokens + usage.cacheCreationTokens;
+}
+
 export async function loadBudgetState(stateFile: string): Promise<BudgetState> {
   try {
     const raw = await readFile(stateFile, 'utf-8');
@@ -37,8 +175,58 @@ function pruneExpiredEntries(entries: UsageEntry[], windowHours: number): UsageE
   return entries.filter((e) => e.timestamp > cutoff);
 }
 
-function sumUsage(entries: UsageEntry[]): number {
-  return entries.reduce((sum, e) => sum + e.count, 0);
+function summarize(entries: UsageEntry[]): UsageSummary {
+  const summary: UsageSummary = { prompts: 0, tokens: 0, costUsd: 0 };
+  for (const e of entries) {
+    summary.prompts += e.count;
+    if (e.usage) {
+      summary.tokens += billableTokens(e.usage);
+      summary.costUsd += e.usage.costUsd;
+    }
+  }
+  return summary;
+}
+
+function summarizeBy(entries: UsageEntry[], key: (e: UsageEntry) => string | undefined): Record<string, UsageSummary> {
+  const groups = new Map<string, UsageEntry[]>();
+  for (const e of entries) {
+    const group = key(e) ?? UNTAGGED;
+    groups.set(group, [...(groups.get(group) ?? []), e]);
+  }
+  return Object.fromEntries([...groups].map(([group, members]) => [group, summarize(members)]));
+}
+
+/** The limits that apply under this config, as [summary field, limit] pairs. */
+function configuredLimits(config: BudgetConfig): Array<[keyof UsageSummary, number]> {
+  const limits: Array<[keyof UsageSummary, number]> = [['prompts', config.maxPromptsPerWindow]];
+  if (config.maxTokensPerWindow !== undefined) limits.push(['tokens', config.maxTokensPerWindow]);
+  if (config.maxCostPerWindow !== undefined) limits.push(['costUsd', config.maxCostPerWindow]);
+  return limits;
+}
+
+/** Usage of the average run among the entries; null when there are none. */
+function averagePerRun(entries: UsageEntry[]): UsageSummary | null {
+  const runs = new Set(entries.map((e, i) => e.run ?? `entry-${i}`)).size;
+  if (runs === 0) return null;
+  const used = summarize(entries);
+  return { prompts: used.prompts / runs, tokens: used.tokens / runs, costUsd: used.costUsd / runs };
+}
+
+async function loadActiveEntries(config: BudgetConfig): Promise<UsageEntry[]> {
+  const state = await loadBudgetState(config.stateFile);
+  return pruneExpiredEntries(state.entries, config.windowHours);
+}
+
+function usageByModel(entries: UsageEntry[]): ModelUsageMap {
+  const byModel: ModelUsageMap = {};
+  for (const e of entries) {
+    if (e.model && e.usage) addUsage(byModel, { [e.model]: e.usage });
+  }
+  return byModel;
+}
+
+function dimension(used: number, limit: number): BudgetDimension {
+  return { used, limit, remaining: Math.max(0, limit - used) };
 }
 
 async function ensureFile(stateFile: string): Promise<void> {
@@ -50,28 +238,173 @@ async function ensureFile(stateFile: string): Promise<void> {
   }
 }
 
-export async function recordUsage(promptCount: number, config: BudgetConfig): Promise<void> {
+/**
+ * Records a run's usage: one entry per model it used, with the prompt count
+ * on the first. Without token usage (e.g. the SDK reported none) a single
+ * prompt-count entry is recorded. Every entry carries the given tags.
+ */
+export async function recordUsage(
+  promptCount: number,
+  config: BudgetConfig,
+  usage: ModelUsageMap = {},
+  tags: UsageTags = {},
+): Promise<void> {
   await ensureFile(config.stateFile);
   const release = await lock(config.stateFile, { retries: 3, realpath: false });
   try {
     const state = await loadBudgetState(config.stateFile);
     state.entries = pruneExpiredEntries(state.entries, config.windowHours);
-    state.entries.push({ timestamp: Date.now(), count: promptCount });
+    const timestamp = Date.now();
+    tags = { ...tags, run: tags.run ?? randomUUID().slice(0, 8) };
+    const models = Object.entries(usage);
+    if (models.length === 0) {
+      state.entries.push({ timestamp, count: promptCount, ...tags });
+    } else {
+      models.forEach(([model, modelUsage], i) => {
+        state.entries.push({ timestamp, count: i === 0 ? promptCount : 0, model, usage: modelUsage, ...tags });
+      });
+    }
     await saveBudgetState(state, config.stateFile);
   } finally {
     await release();
   }
 }
 
-export async function getRemainingBudget(config: BudgetConfig): Promise<number> {
-  const state = await loadBudgetState(config.stateFile);
-  const active = pruneExpiredEntries(state.entries, config.windowHours);
-  const used = sumUsage(active);
-  return Math.max(0, config.maxPromptsPerWindow - used);
+export async function getRemainingBudget(config: BudgetConfig): Promise<RemainingBudget> {
+  const active = await loadActiveEntries(config);
+  const used = summarize(active);
+
+  const budget: RemainingBudget = {
+    prompts: dimension(used.prompts, config.maxPromptsPerWindow),
+    byModel: usageByModel(active),
+  };
+  if (config.maxTokensPerWindow !== undefined) {
+    budget.tokens = dimension(used.tokens, config.maxTokensPerWindow);
+  }
+  if (config.maxCostPerWindow !== undefined) {
+    budget.costUsd = dimension(used.costUsd, config.maxCostPerWindow);
+  }
+  return budget;
+}
+
+export async function getUsageBreakdown(config: BudgetConfig): Promise<UsageBreakdown> {
+  const active = await loadActiveEntries(config);
+  return {
+    byProject: summarizeBy(active, e => e.project),
+    byAgent: summarizeBy(active, e => e.agent),
+  };
+}
+
+/**
+ * Usage per time bucket across the current window, oldest first (empty buckets
+ * included), and when each bucket's usage starts expiring.
+ */
+export async function getBudgetHistory(config: BudgetConfig, bucketMs = 60 * 60 * 1000): Promise<BudgetHistory> {
+  const active = await loadActiveEntries(config);
+  const windowMs = config.windowHours * 60 * 60 * 1000;
+  const now = Date.now();
+
+  const buckets: UsageBucket[] = [];
+  const releases: CapacityRelease[] = [];
+  for (let start = Math.floor((now - windowMs) / bucketMs) * bucketMs; start <= now; start += bucketMs) {
+    const entries = active.filter(e => e.timestamp >= start && e.timestamp < start + bucketMs);
+    const summary = summarize(entries);
+    buckets.push({ start, ...summary });
+    if (entries.length > 0) {
+      releases.push({ at: Math.min(...entries.map(e => e.timestamp)) + windowMs, ...summary });
+    }
+  }
+
+  return { bucketMs, buckets, releases };
+}
+
+/**
+ * Estimates whether `queued` more runs fit in the remaining window, assuming
+ * each costs as much as the average run recorded in it. Runs are counted by
+ * their `run` tag; untagged entries each count as a run of their own.
+ */
+export async function forecastQueue(config: BudgetConfig, queued: number): Promise<BudgetForecast> {
+  const active = await loadActiveEntries(config);
+  const perRun = averagePerRun(active);
+  if (!perRun) return { queued, perRun: null, needed: null, fitCount: null, fits: null };
+
+  const used = summarize(active);
+  const needed: UsageSummary = { prompts: perRun.prompts * queued, tokens: perRun.tokens * queued, costUsd: perRun.costUsd * queued };
+
+  let fitCount = Infinity;
+  for (const [field, limit] of configuredLimits(config)) {
+    const available = Math.max(0, limit - used[field] - limit * config.reserveForInteractive);
+    if (perRun[field] > 0) fitCount = Math.min(fitCount, Math.floor(available / perRun[field]));
+  }
+  fitCount = Math.min(fitCount, queued);
+
+  return { queued, perRun, needed, fitCount, fits: fitCount >= queued };
+}
+
+/** Estimates a pipeline from each agent's average usage per run in the current window. */
+export async function estimatePipeline(config: BudgetConfig, agents: string[]): Promise<PipelineEstimate> {
+  const active = await loadActiveEntries(config);
+  const total: UsageSummary = { prompts: 0, tokens: 0, costUsd: 0 };
+  const byAgent: Record<string, UsageSummary | null> = {};
+
+  for (const agent of new Set(agents)) {
+    const average = averagePerRun(active.filter(e => e.agent === agent));
+    byAgent[agent] = average;
+    if (average) {
+      total.prompts += average.prompts;
+      total.tokens += average.tokens;
+      total.costUsd += average.costUsd;
+    }
+  }
+  return { byAgent, total };
+}
+
+/** The configured limits of a budget, so callers can check each one the same way. */
+export function budgetDimensions(budget: RemainingBudget): BudgetDimension[] {
+  return [budget.prompts, budget.tokens, budget.costUsd].filter((d): d is BudgetDimension => d !== undefined);
+}
+
+/**
+ * Agents may run while every configured limit still has more than the
+ * interactive reserve left, not counting the unused reservations of other
+ * projects. A project with a maxShare also stops once it has used that share
+ * of any limit. Without a project, every reservation is held back.
+ */
+export async function canRunAgent(config: BudgetConfig, project?: string): Promise<boolean> {
+  const active = await loadActiveEntries(config);
+  const used = summarize(active);
+  const quotas = config.projects ?? {};
+  const byProject = summarizeBy(active, e => e.project);
+
+  for (const [field, limit] of configuredLimits(config)) {
+    let held = 0;
+    for (const [path, quota] of Object.entries(quotas)) {
+      if (path === project || !quota.reservedShare) continue;
+      held += Math.max(0, quota.reservedShare * limit - (byProject[path]?.[field] ?? 0));
+    }
+    if (limit - used[field] - held <= limit * config.reserveForInteractive) return false;
+
+    const maxShare = project !== undefined ? quotas[project]?.maxShare : undefined;
+    if (maxShare !== undefined && (byProject[project!]?.[field] ?? 0) >= maxShare * limit) return false;
+  }
+  return true;
+}
+
+/** One-line summary, e.g. `412/600 prompts, 1.2M/5M tokens, $3.10/$20.00 remaining`. */
+export function formatBudget(budget: RemainingBudget): string {
+  const parts = [`${budget.prompts.remaining}/${budget.prompts.limit} prompts`];
+  if (budget.tokens) parts.push(`${formatTokens(budget.tokens.remaining)}/${formatTokens(budget.tokens.limit)} tokens`);
+  if (budget.costUsd) parts.push(`$${budget.costUsd.remaining.toFixed(2)}/$${budget.costUsd.limit.toFixed(2)}`);
+  return `${parts.join(', ')} remaining`;
+}
+
+/** e.g. `120 prompts, 1.2M tokens, $3.40`. */
+export function formatUsage(summary: UsageSummary): string {
+  return `${Math.round(summary.prompts)} prompts, ${formatTokens(summary.tokens)} tokens, $${summary.costUsd.toFixed(2)}`;
 }
 
-export async function canRunAgent(config: BudgetConfig): Promise<boolean> {
-  const remaining = await getRemainingBudget(config);
-  const reserve = config.maxPromptsPerWindow * config.reserveForInteractive;
-  return remaining > reserve;
+function formatTokens(n: number): string {
+  if (n >= 1_000_000) return `${+(n / 1_000_000).toFixed(1)}M`;
+  if (n >= 1_000) return `${+(n / 1_000).toFixed(1)}k`;
+  return String(Math.round(n));
 }
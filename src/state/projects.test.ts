@@ -7,6 +7,7 @@ import {
   getProject,
   unregisterProject,
   updateLastSession,
+  setProjectPublish,
   type ProjectEntry,
 } from './projects.js';
 
@@ -100,6 +101,19 @@ describe('project registry', () => {
     expect(project!.lastSession).toBe(now);
   });
 
+  test('setProjectPublish sets and clears the publish config', async () => {
+    await registerProject('/Users/me/Projects/foo', 'foo', TEST_STATE_FILE);
+    await setProjectPublish('foo', { host: 'github', repo: 'me/foo', base: 'main' }, TEST_STATE_FILE);
+    expect((await getProject('foo', TEST_STATE_FILE))!.publish).toEqual({ host: 'github', repo: 'me/foo', base: 'main' });
+
+    await setProjectPublish('/Users/me/Projects/foo', null, TEST_STATE_FILE);
+    expect((await getProject('foo', TEST_STATE_FILE))!.publish).toBeUndefined();
+  });
+
+  test('setProjectPublish throws for unknown project', async () => {
+    await expect(setProjectPublish('nope', null, TEST_STATE_FILE)).rejects.toThrow('Project not found');
+  });
+
   test('state persists across loads', async () => {
     await registerProject('/Users/me/Projects/a', 'a', TEST_STATE_FILE);
     await registerProject('/Users/me/Projects/b', 'b', TEST_STATE_FILE);
@@ -1,12 +1,15 @@
 import { readFile, writeFile, mkdir } from 'node:fs/promises';
 import { dirname } from 'node:path';
 import { lock } from 'proper-lockfile';
+import type { PublishConfig } from '../pipeline/publish.js';
 
 export interface ProjectEntry {
   path: string;
   name: string;
   registered: number;
   lastSession: number | null;
+  /** Open a pull request when a pipeline on this project completes. */
+  publish?: PublishConfig;
 }
 
 interface ProjectsState {
@@ -124,3 +127,32 @@ export async function updateLastSession(
     await release();
   }
 }
+
+export async function setProjectPublish(
+  pathOrName: string,
+  publish: PublishConfig | null,
+  stateFile: string,
+): Promise<ProjectEntry> {
+  await ensureFile(stateFile);
+  const release = await lock(stateFile, { retries: 3, realpath: false });
+  try {
+    const state = await loadState(stateFile);
+    const project = state.projects.find(
+      (p) => p.path === pathOrName || p.name === pathOrName,
+    );
+
+    if (!project) {
+      throw new Error(`Project not found: ${pathOrName}`);
+    }
+
+    if (publish) {
+      project.publish = publish;
+    } else {
+      delete project.publish;
+    }
+    await saveState(state, stateFile);
+    return project;
+  } finally {
+    await release();
+  }
+}
@@ -85,6 +85,18 @@ describe('buildTriggerResult', () => {
       expect(result!.task).toContain('We need auth');
     });
 
+    it('collects the issue labels, including the one just added', () => {
+      const payload = {
+        action: 'labeled',
+        label: { name: 'auto-build' },
+        issue: { title: 'Add login', body: '', number: 42, labels: [{ name: 'frontend' }, { name: 'auto-build' }] },
+        repository: { full_name: 'dwayne/my-app' },
+      };
+
+      const result = buildTriggerResult('issues', payload, mapping);
+      expect(result!.labels).toEqual(['frontend', 'auto-build']);
+    });
+
     it('rejects wrong label', () => {
       const payload = {
         action: 'labeled',
@@ -25,6 +25,8 @@ export interface WebhookTriggerResult {
   agent: string;
   task: string;
   mode: 'standalone' | 'team';
+  /** Labels on the issue or pull request. */
+  labels?: string[];
 }
 
 type WebhookHandler = (result: WebhookTriggerResult) => void;
@@ -57,6 +59,14 @@ function extractProjectFromRepo(repoFullName: string): string {
   return parts[parts.length - 1] ?? repoFullName;
 }
 
+function labelNames(item: Record<string, unknown> | undefined): string[] {
+  const labels = item?.['labels'];
+  if (!Array.isArray(labels)) return [];
+  return labels
+    .map(l => (l as Record<string, unknown> | null)?.['name'])
+    .filter((name): name is string => typeof name === 'string');
+}
+
 function buildTriggerResult(
   event: string,
   payload: Record<string, unknown>,
@@ -85,6 +95,7 @@ function buildTriggerResult(
       agent: mapping.agent ?? 'team-lead',
       task: mapping.task ?? `Build feature from issue #${issueNumber}: ${issueTitle}\n\n${issueBody}`,
       mode: mapping.mode,
+      labels: [...new Set([...labelNames(issue), ...(labelName ? [labelName] : [])])],
     };
   }
 
@@ -104,6 +115,7 @@ function buildTriggerResult(
       agent: mapping.agent ?? 'reviewer',
       task: mapping.task ?? `Review pull request #${prNumber}: ${prTitle}\nBranch: ${headRef ?? 'unknown'}\n\n${prBody}`,
       mode: mapping.mode,
+      labels: labelNames(pr),
     };
   }
 
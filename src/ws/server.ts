@@ -140,8 +140,9 @@ export class WSBridgeServer {
         break;
 
       case 'pipeline.completed':
+      case 'pipeline.halted':
         this.currentPipeline = null;
-        events.push({ type: 'pipeline:end', result: event.success ? 'success' : 'failure' });
+        events.push({ type: 'pipeline:end', result: event.type === 'pipeline.completed' && event.success ? 'success' : 'failure' });
         // Reset all agents to idle
         for (const role of ['scout', 'architect', 'builder', 'reviewer'] as const) {
           this.agentStates[role] = 'idle';